@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { AutoApplyEvent } from "@shared/autoApplyEvents";
+import { skipReasonLabels } from "@/lib/skip-reasons";
+import { Activity, CheckCircle, XCircle, SkipForward, Search, Info } from "lucide-react";
+
+interface ActivityFeedProps {
+  events: AutoApplyEvent[];
+}
+
+const runStatusMessages = {
+  queued: "Auto-apply run queued",
+  running: "Auto-apply run started",
+  completed: "Auto-apply run completed",
+  failed: "Auto-apply run failed",
+  canceled: "Auto-apply run cancelled",
+};
+
+function describeEvent(event: AutoApplyEvent) {
+  switch (event.type) {
+    case "run_status":
+      return {
+        icon: <Info className="h-4 w-4 text-slate-400" />,
+        text: event.error ? `${runStatusMessages[event.status]}: ${event.error}` : runStatusMessages[event.status],
+      };
+    case "jobs_found":
+      return {
+        icon: <Search className="h-4 w-4 text-primary" />,
+        text: `Found ${event.jobsFound} jobs, ${event.queued} to apply to`,
+      };
+    case "job_skipped":
+      return {
+        icon: <SkipForward className="h-4 w-4 text-slate-400" />,
+        text: `Skipped ${event.jobTitle} at ${event.company} (${event.detail || skipReasonLabels[event.reason]})`,
+      };
+    case "application_sent":
+      return {
+        icon: <CheckCircle className="h-4 w-4 text-green-600" />,
+        text: `Applied to ${event.jobTitle} at ${event.company}`,
+      };
+    case "application_failed":
+      return {
+        icon: <XCircle className="h-4 w-4 text-red-500" />,
+        text: `Could not apply to ${event.jobTitle} at ${event.company}: ${event.error}${event.willRetry ? " (will retry)" : ""}`,
+      };
+    case "quota":
+      return {
+        icon: <Info className="h-4 w-4 text-slate-400" />,
+        text: `${event.quota.remaining} of ${event.quota.limit} applications left this ${event.quota.period}`,
+      };
+  }
+}
+
+export default function ActivityFeed({ events }: ActivityFeedProps) {
+  return (
+    <Card data-testid="card-activity-feed">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Live Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-slate-500">Activity from auto-apply runs shows up here as it happens.</p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto" data-testid="list-activity">
+            {events.map((event, index) => {
+              const { icon, text } = describeEvent(event);
+              return (
+                <li key={`${event.at}-${index}`} className="flex items-start gap-2 text-sm">
+                  <span className="mt-0.5">{icon}</span>
+                  <span className="flex-1 text-slate-700">{text}</span>
+                  <span className="text-xs text-slate-400 whitespace-nowrap">
+                    {new Date(event.at).toLocaleTimeString()}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
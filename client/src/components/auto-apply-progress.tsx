@@ -0,0 +1,117 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AutoApplyItem, AutoApplyRun } from "@shared/schema";
+import { RefreshCw, X } from "lucide-react";
+
+interface AutoApplyProgressProps {
+  runId: string;
+  onFinished?: (run: AutoApplyRun) => void;
+}
+
+const statusLabels: Record<AutoApplyRun["status"], string> = {
+  queued: "Queued",
+  running: "Applying",
+  completed: "Completed",
+  failed: "Failed",
+  canceled: "Cancelled",
+};
+
+export function isActiveRun(run?: AutoApplyRun | null) {
+  return run?.status === "queued" || run?.status === "running";
+}
+
+export default function AutoApplyProgress({ runId, onFinished }: AutoApplyProgressProps) {
+  const { data } = useQuery<{ run: AutoApplyRun; items: AutoApplyItem[] }>({
+    queryKey: ["/api/auto-apply/runs", runId],
+    // Live events refresh this as they arrive; polling covers a dropped event stream
+    refetchInterval: (query) => (isActiveRun(query.state.data?.run) ? 10000 : false),
+  });
+  const run = data?.run;
+
+  // Report the finish once, not on every render after it
+  const wasActive = useRef(false);
+  useEffect(() => {
+    if (!run) return;
+    const active = isActiveRun(run);
+    if (wasActive.current && !active) {
+      onFinished?.(run);
+    }
+    wasActive.current = active;
+  }, [run, onFinished]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/auto-apply/runs/${runId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auto-apply/runs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not cancel auto-apply",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!run) return null;
+
+  const processed = run.sentCount + run.failedCount;
+  const percent = run.maxApplications > 0 ? Math.min(100, Math.round((run.sentCount / run.maxApplications) * 100)) : 0;
+  const retrying = data.items.filter(item => item.status === "pending" && item.attemptCount > 0).length;
+
+  return (
+    <Card className="mb-8" data-testid="card-auto-apply-progress">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {isActiveRun(run) && <RefreshCw className="h-4 w-4 animate-spin text-primary" />}
+          Auto-apply
+          <Badge variant={run.status === "failed" ? "destructive" : "secondary"} data-testid="badge-run-status">
+            {statusLabels[run.status]}
+          </Badge>
+        </CardTitle>
+        {isActiveRun(run) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending}
+            data-testid="button-cancel-auto-apply"
+          >
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600" data-testid="text-run-progress">
+          <span>{run.sentCount} of {run.maxApplications} sent</span>
+          {run.jobsFound === null ? (
+            <span>Searching for jobs...</span>
+          ) : (
+            <span>{run.jobsFound} jobs found</span>
+          )}
+          {run.failedCount > 0 && <span className="text-red-600">{run.failedCount} failed</span>}
+          {retrying > 0 && <span className="text-orange-500">{retrying} waiting to retry</span>}
+          {run.skippedCount > 0 && <span>{run.skippedCount} skipped</span>}
+          {run.status === "completed" && processed === 0 && (
+            <span>No new jobs with a contact address were found</span>
+          )}
+        </div>
+        {run.error && (
+          <p className="text-sm text-red-600" data-testid="text-run-error">{run.error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
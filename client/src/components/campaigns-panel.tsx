@@ -0,0 +1,301 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Campaign, CampaignFrequency, Cv, JobPreferences } from "@shared/schema";
+import { CalendarClock, Plus, Trash2, Loader2 } from "lucide-react";
+
+interface CampaignsPanelProps {
+  userId: string;
+}
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Sentinel for "use the profile's CV"; Select items cannot have an empty value
+const PROFILE_CV = "profile";
+
+const emptyForm = {
+  name: "",
+  frequency: "daily" as CampaignFrequency,
+  dayOfWeek: 1,
+  timeOfDay: "09:00",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  maxApplicationsPerRun: 10,
+  cvId: PROFILE_CV,
+  jobPreferencesId: "",
+};
+
+function describeSchedule(campaign: Campaign) {
+  const day = campaign.frequency === "weekly" ? `${weekdays[campaign.dayOfWeek ?? 0]}s` : "Daily";
+  return `${day} at ${campaign.timeOfDay} (${campaign.timezone})`;
+}
+
+export default function CampaignsPanel({ userId }: CampaignsPanelProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: campaignsData, isLoading } = useQuery<{ campaigns: Campaign[] }>({
+    queryKey: ["/api/campaigns"],
+  });
+  const { data: preferencesData } = useQuery<{ preferences: JobPreferences[] }>({
+    queryKey: ["/api/users", userId, "job-preferences"],
+  });
+  const { data: cvsData } = useQuery<{ cvs: Cv[] }>({
+    queryKey: ["/api/users", userId, "cvs"],
+  });
+
+  const profiles = preferencesData?.preferences ?? [];
+  const hasProfiles = profiles.length > 0;
+  const profileNames = new Map(profiles.map(profile => [profile.id, profile.name]));
+  const campaigns = campaignsData?.campaigns ?? [];
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/campaigns", {
+        name: form.name,
+        jobPreferencesId: form.jobPreferencesId || profiles[0].id,
+        cvId: form.cvId === PROFILE_CV ? null : form.cvId,
+        frequency: form.frequency,
+        dayOfWeek: form.frequency === "weekly" ? form.dayOfWeek : null,
+        timeOfDay: form.timeOfDay,
+        timezone: form.timezone,
+        maxApplicationsPerRun: form.maxApplicationsPerRun,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      setForm(emptyForm);
+      setShowForm(false);
+      toast({ title: "Campaign created" });
+    },
+    onError: onError("Could not create campaign"),
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async ({ id, paused }: { id: string; paused: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/campaigns/${id}`, { paused });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    },
+    onError: onError("Could not update campaign"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/campaigns/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    },
+    onError: onError("Could not delete campaign"),
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Card data-testid="card-campaigns">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Scheduled Campaigns
+        </CardTitle>
+        {!showForm && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowForm(true)}
+            disabled={!hasProfiles}
+            data-testid="button-new-campaign"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New campaign
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hasProfiles && (
+          <p className="text-sm text-slate-500">Create a search profile to schedule auto-apply campaigns.</p>
+        )}
+
+        {showForm && hasProfiles && (
+          <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-slate-200 p-4" data-testid="form-campaign">
+            <div>
+              <Label htmlFor="campaign-name">Name</Label>
+              <Input
+                id="campaign-name"
+                required
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                data-testid="input-campaign-name"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="sm:col-span-2">
+                <Label>Search profile</Label>
+                <Select
+                  value={form.jobPreferencesId || profiles[0].id}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, jobPreferencesId: value }))}
+                >
+                  <SelectTrigger data-testid="select-campaign-profile"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Frequency</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, frequency: value as CampaignFrequency }))}
+                >
+                  <SelectTrigger data-testid="select-campaign-frequency"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.frequency === "weekly" && (
+                <div>
+                  <Label>Day</Label>
+                  <Select
+                    value={String(form.dayOfWeek)}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, dayOfWeek: parseInt(value, 10) }))}
+                  >
+                    <SelectTrigger data-testid="select-campaign-day"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {weekdays.map((day, index) => (
+                        <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="campaign-time">Time</Label>
+                <Input
+                  id="campaign-time"
+                  type="time"
+                  required
+                  value={form.timeOfDay}
+                  onChange={(e) => setForm(prev => ({ ...prev, timeOfDay: e.target.value }))}
+                  data-testid="input-campaign-time"
+                />
+              </div>
+              <div>
+                <Label htmlFor="campaign-timezone">Timezone</Label>
+                <Input
+                  id="campaign-timezone"
+                  required
+                  value={form.timezone}
+                  onChange={(e) => setForm(prev => ({ ...prev, timezone: e.target.value }))}
+                  data-testid="input-campaign-timezone"
+                />
+              </div>
+              <div>
+                <Label htmlFor="campaign-max">Applications per run</Label>
+                <Input
+                  id="campaign-max"
+                  type="number"
+                  min={1}
+                  required
+                  value={form.maxApplicationsPerRun}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxApplicationsPerRun: parseInt(e.target.value, 10) || 1 }))}
+                  data-testid="input-campaign-max"
+                />
+              </div>
+              <div>
+                <Label>CV</Label>
+                <Select value={form.cvId} onValueChange={(value) => setForm(prev => ({ ...prev, cvId: value }))}>
+                  <SelectTrigger data-testid="select-campaign-cv"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PROFILE_CV}>CV from search profile</SelectItem>
+                    {cvsData?.cvs.map(cv => (
+                      <SelectItem key={cv.id} value={cv.id}>{cv.label || cv.originalName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setShowForm(false)}>Cancel</Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-campaign">
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save campaign
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+        ) : campaigns.length === 0 ? (
+          !showForm && hasProfiles && (
+            <p className="text-sm text-slate-500">No campaigns yet. Create one to auto-apply on a schedule.</p>
+          )
+        ) : (
+          <div className="divide-y divide-slate-200">
+            {campaigns.map(campaign => (
+              <div key={campaign.id} className="py-3 flex items-center justify-between gap-4" data-testid={`row-campaign-${campaign.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-900 truncate">{campaign.name}</span>
+                    {campaign.paused && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-slate-500">
+                    {profileNames.get(campaign.jobPreferencesId) ?? "Unknown profile"} · {describeSchedule(campaign)} · up to {campaign.maxApplicationsPerRun} per run
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {campaign.nextRunAt && <>Next run {new Date(campaign.nextRunAt).toLocaleString()}</>}
+                    {campaign.lastRunAt && <> · Last run {new Date(campaign.lastRunAt).toLocaleString()}</>}
+                  </p>
+                  {campaign.lastError && (
+                    <p className="text-xs text-orange-600" data-testid={`text-campaign-error-${campaign.id}`}>{campaign.lastError}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={!campaign.paused}
+                    onCheckedChange={(active) => pauseMutation.mutate({ id: campaign.id, paused: !active })}
+                    disabled={pauseMutation.isPending}
+                    aria-label={campaign.paused ? "Resume campaign" : "Pause campaign"}
+                    data-testid={`switch-campaign-${campaign.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(campaign.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-campaign-${campaign.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
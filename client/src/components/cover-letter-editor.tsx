@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { coverLetterVariables, type CoverLetterVariable } from "@shared/coverLetter";
+import { FileText, Eye, RotateCcw, Loader2 } from "lucide-react";
+
+interface TemplateResponse {
+  template: string;
+  isDefault: boolean;
+}
+
+export default function CoverLetterEditor() {
+  const [draft, setDraft] = useState("");
+  const [jobTitle, setJobTitle] = useState("Software Developer");
+  const [company, setCompany] = useState("Example Company");
+  const [preview, setPreview] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const { data, isLoading } = useQuery<TemplateResponse>({
+    queryKey: ["/api/cover-letter/template"],
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.template);
+  }, [data]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: string | null) => {
+      const response = await apiRequest("PUT", "/api/cover-letter/template", { template });
+      return response.json() as Promise<TemplateResponse>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/cover-letter/template"], saved);
+      toast({ title: saved.isDefault ? "Default template restored" : "Cover letter template saved" });
+    },
+    onError: onError("Could not save template"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/cover-letter/preview", {
+        template: draft,
+        job: { title: jobTitle, company },
+      });
+      return response.json() as Promise<{ letter: string }>;
+    },
+    onSuccess: (result) => setPreview(result.letter),
+    onError: onError("Could not preview cover letter"),
+  });
+
+  // Inserts the variable at the cursor, replacing any selection
+  const insertVariable = (name: CoverLetterVariable) => {
+    const textarea = textareaRef.current;
+    const tag = `{{${name}}}`;
+    if (!textarea) {
+      setDraft(prev => prev + tag);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(prev => prev.slice(0, selectionStart) + tag + prev.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + tag.length, selectionStart + tag.length);
+    });
+  };
+
+  const isDirty = data !== undefined && draft !== data.template;
+
+  return (
+    <Card data-testid="card-cover-letter">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Cover Letter
+        </CardTitle>
+        {data?.isDefault && <Badge variant="outline">Default template</Badge>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+        ) : (
+          <>
+            <p className="text-sm text-slate-500">
+              Sent with every application. Wrap optional parts in <code>{"{{#if name}}...{{/if}}"}</code>, with an
+              optional <code>{"{{else}}"}</code>; use <code>{"{{#unless name}}"}</code> for the opposite.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {(Object.entries(coverLetterVariables) as [CoverLetterVariable, string][]).map(([name, description]) => (
+                <Button
+                  key={name}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  title={description}
+                  onClick={() => insertVariable(name)}
+                  data-testid={`button-variable-${name}`}
+                >
+                  {name}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              ref={textareaRef}
+              rows={14}
+              className="font-mono text-sm"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              data-testid="textarea-cover-letter"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="preview-job-title">Preview job title</Label>
+                <Input id="preview-job-title" value={jobTitle} onChange={(e) => setJobTitle(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="preview-company">Preview company</Label>
+                <Input id="preview-company" value={company} onChange={(e) => setCompany(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {!data?.isDefault && (
+                <Button
+                  variant="ghost"
+                  onClick={() => saveMutation.mutate(null)}
+                  disabled={saveMutation.isPending}
+                  data-testid="button-reset-cover-letter"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore default
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={previewMutation.isPending || !jobTitle.trim() || !company.trim()}
+                data-testid="button-preview-cover-letter"
+              >
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                Preview
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!isDirty || saveMutation.isPending}
+                data-testid="button-save-cover-letter"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save template
+              </Button>
+            </div>
+            {preview !== null && (
+              <pre
+                className="whitespace-pre-wrap rounded-lg border border-slate-200 bg-slate-50 p-4 text-sm text-slate-700 font-sans"
+                data-testid="text-cover-letter-preview"
+              >
+                {preview}
+              </pre>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
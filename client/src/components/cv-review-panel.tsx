@@ -0,0 +1,322 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2, Save, X, Loader2 } from "lucide-react";
+import { getEffectiveParsedData } from "@shared/cvProfile";
+import type { Cv, ParsedCVData, ParseConfidence, ExperienceEntry, EducationEntry } from "@shared/schema";
+
+interface CVReviewPanelProps {
+  cv: Cv;
+  userId: string;
+}
+
+interface ProfileForm {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  skills: string;
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+}
+
+type EditableField = keyof ProfileForm;
+
+const contactFields: { field: "name" | "email" | "phone" | "address"; label: string }[] = [
+  { field: "name", label: "Name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "address", label: "Address" },
+];
+
+function toForm(data: ParsedCVData): ProfileForm {
+  return {
+    name: data.name ?? "",
+    email: data.email ?? "",
+    phone: data.phone ?? "",
+    address: data.address ?? "",
+    skills: (data.skills ?? []).join(", "),
+    experience: data.experience ?? [],
+    education: data.education ?? [],
+  };
+}
+
+function fromForm(form: ProfileForm): Omit<ParsedCVData, "skillMatches" | "confidence" | "summary"> {
+  return {
+    name: form.name.trim() || undefined,
+    email: form.email.trim() || undefined,
+    phone: form.phone.trim() || undefined,
+    address: form.address.trim() || undefined,
+    skills: form.skills.split(",").map(skill => skill.trim()).filter(skill => skill.length > 0),
+    experience: form.experience,
+    education: form.education,
+  };
+}
+
+function confidenceLabel(score?: number) {
+  if (score === undefined) return null;
+  if (score >= 0.8) return <Badge variant="outline" className="text-green-600">High confidence</Badge>;
+  if (score >= 0.5) return <Badge variant="outline" className="text-orange-500">Check this</Badge>;
+  return <Badge variant="outline" className="text-red-600">Likely wrong</Badge>;
+}
+
+export default function CVReviewPanel({ cv, userId }: CVReviewPanelProps) {
+  const raw = cv.parsedData ?? {};
+  const overrides = cv.parsedDataOverrides ?? {};
+  const confidence: ParseConfidence = raw.confidence ?? {};
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<ProfileForm>(() => toForm(getEffectiveParsedData(cv)));
+
+  useEffect(() => {
+    if (!isEditing) setForm(toForm(getEffectiveParsedData(cv)));
+  }, [cv, isEditing]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ProfileForm) => {
+      // Only fields that differ from the raw extraction become overrides; the rest are cleared
+      const edited = fromForm(values);
+      const rawValues = fromForm(toForm(raw));
+      const patch: Record<string, unknown> = {};
+      for (const field of Object.keys(edited) as (keyof typeof edited)[]) {
+        const changed = JSON.stringify(edited[field] ?? null) !== JSON.stringify(rawValues[field] ?? null);
+        patch[field] = changed ? edited[field] ?? null : null;
+      }
+
+      const response = await apiRequest("PATCH", `/api/cvs/${cv.id}/parsed-data`, patch);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "CV details saved",
+        description: "Your corrections will be used for future applications",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "cvs"] });
+      setIsEditing(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save CV details",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isOverridden = (field: EditableField) => Object.prototype.hasOwnProperty.call(overrides, field);
+
+  const updateExperience = (index: number, changes: Partial<ExperienceEntry>) => {
+    setForm(prev => ({
+      ...prev,
+      experience: prev.experience.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    }));
+  };
+
+  const updateEducation = (index: number, changes: Partial<EducationEntry>) => {
+    setForm(prev => ({
+      ...prev,
+      education: prev.education.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    }));
+  };
+
+  const fieldHeader = (field: EditableField, label: string, score?: number) => (
+    <div className="flex items-center justify-between mb-1">
+      <Label className="text-xs text-slate-500">{label}</Label>
+      <div className="flex items-center gap-1">
+        {isOverridden(field) ? (
+          <Badge variant="secondary" data-testid={`badge-edited-${field}`}>Edited</Badge>
+        ) : (
+          confidenceLabel(score)
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200" data-testid="panel-cv-review">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-slate-700">Extracted Information</h4>
+        {isEditing ? (
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} data-testid="button-cancel-review">
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate(form)}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-review"
+            >
+              {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              Save
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} data-testid="button-edit-review">
+            <Pencil className="h-4 w-4 mr-1" />
+            Review &amp; edit
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-4 text-xs">
+        <div className="grid grid-cols-2 gap-4">
+          {contactFields.map(({ field, label }) => (
+            <div key={field}>
+              {fieldHeader(field, label, field === "address" ? undefined : confidence[field])}
+              {isEditing ? (
+                <Input
+                  value={form[field]}
+                  onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                  data-testid={`input-parsed-${field}`}
+                />
+              ) : (
+                <p className="text-slate-700" data-testid={`text-parsed-${field}`}>
+                  {form[field] || <span className="text-slate-400">Not found</span>}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          {fieldHeader("skills", "Skills (comma separated)", confidence.skills)}
+          {isEditing ? (
+            <Textarea
+              value={form.skills}
+              onChange={(e) => setForm(prev => ({ ...prev, skills: e.target.value }))}
+              rows={2}
+              data-testid="input-parsed-skills"
+            />
+          ) : (
+            <p className="text-slate-700" data-testid="text-parsed-skills">
+              {form.skills || <span className="text-slate-400">Not found</span>}
+            </p>
+          )}
+        </div>
+
+        <div>
+          {fieldHeader("experience", "Experience", confidence.experience)}
+          <div className="space-y-3">
+            {form.experience.map((entry, index) => (
+              <div key={index} className="p-3 bg-white rounded border border-slate-200" data-testid={`entry-experience-${index}`}>
+                {isEditing ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input placeholder="Job title" value={entry.title ?? ""} onChange={(e) => updateExperience(index, { title: e.target.value || undefined })} />
+                    <Input placeholder="Employer" value={entry.employer ?? ""} onChange={(e) => updateExperience(index, { employer: e.target.value || undefined })} />
+                    <Input placeholder="Location" value={entry.location ?? ""} onChange={(e) => updateExperience(index, { location: e.target.value || undefined })} />
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`experience-current-${index}`}
+                        checked={entry.current ?? false}
+                        onCheckedChange={(checked) => updateExperience(index, { current: checked === true || undefined, endDate: checked === true ? undefined : entry.endDate })}
+                      />
+                      <Label htmlFor={`experience-current-${index}`}>Current role</Label>
+                    </div>
+                    <Input type="month" value={entry.startDate ?? ""} onChange={(e) => updateExperience(index, { startDate: e.target.value || undefined })} />
+                    <Input type="month" value={entry.endDate ?? ""} disabled={entry.current} onChange={(e) => updateExperience(index, { endDate: e.target.value || undefined })} />
+                    <Textarea
+                      className="col-span-2"
+                      placeholder="One bullet point per line"
+                      value={entry.bullets.join("\n")}
+                      onChange={(e) => updateExperience(index, { bullets: e.target.value.split("\n").filter(line => line.trim().length > 0) })}
+                      rows={3}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-2 justify-self-end text-red-600"
+                      onClick={() => setForm(prev => ({ ...prev, experience: prev.experience.filter((_, i) => i !== index) }))}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <p className="font-semibold text-slate-800">
+                      {entry.title ?? "Untitled role"}
+                      {entry.employer && <span className="font-normal text-slate-600"> at {entry.employer}</span>}
+                    </p>
+                    <p className="text-slate-500">
+                      {entry.startDate ?? "?"} – {entry.current ? "Present" : entry.endDate ?? "?"}
+                      {entry.location && ` · ${entry.location}`}
+                    </p>
+                  </>
+                )}
+              </div>
+            ))}
+            {isEditing && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, experience: [...prev.experience, { bullets: [] }] }))}
+                data-testid="button-add-experience"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add role
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          {fieldHeader("education", "Education", confidence.education)}
+          <div className="space-y-3">
+            {form.education.map((entry, index) => (
+              <div key={index} className="p-3 bg-white rounded border border-slate-200" data-testid={`entry-education-${index}`}>
+                {isEditing ? (
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input placeholder="Degree" value={entry.degree ?? ""} onChange={(e) => updateEducation(index, { degree: e.target.value || undefined })} />
+                    <Input placeholder="Institution" value={entry.institution ?? ""} onChange={(e) => updateEducation(index, { institution: e.target.value || undefined })} />
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        placeholder="Year"
+                        value={entry.graduationYear ?? ""}
+                        onChange={(e) => updateEducation(index, { graduationYear: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => setForm(prev => ({ ...prev, education: prev.education.filter((_, i) => i !== index) }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-slate-700">
+                    {entry.degree ?? "Qualification"}
+                    {entry.institution && `, ${entry.institution}`}
+                    {entry.graduationYear && ` (${entry.graduationYear})`}
+                  </p>
+                )}
+              </div>
+            ))}
+            {isEditing && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, education: [...prev.education, {}] }))}
+                data-testid="button-add-education"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add qualification
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,8 +5,20 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
-import { Upload, FileText, Download, Loader2 } from "lucide-react";
-import { queryClient } from "@/lib/queryClient";
+import { Input } from "@/components/ui/input";
+import { Upload, FileText, Download, Loader2, AlertTriangle, Star, Pencil, Check, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import CVReviewPanel from "@/components/cv-review-panel";
+import { cvFileAccept, cvFileFormats, resolveCvMimeType } from "@shared/cvFormats";
+import type { Cv, ParseStatus, ParseWarning } from "@shared/schema";
+
+const supportedFormats = cvFileFormats.map(format => format.label).join(", ");
+
+const parseStatusLabels: Record<ParseStatus, string> = {
+  parsed: "Parsed",
+  partial: "Needs review",
+  failed: "Unreadable",
+};
 
 interface CVUploadProps {
   userId: string;
@@ -15,10 +27,14 @@ interface CVUploadProps {
 export default function CVUpload({ userId }: CVUploadProps) {
   const [dragActive, setDragActive] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [versionLabel, setVersionLabel] = useState("");
+  const [selectedCvId, setSelectedCvId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [labelDraft, setLabelDraft] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch user CVs
-  const { data: cvsData, isLoading } = useQuery({
+  const { data: cvsData, isLoading } = useQuery<{ cvs: Cv[] }>({
     queryKey: ["/api/users", userId, "cvs"],
   });
 
@@ -27,7 +43,9 @@ export default function CVUpload({ userId }: CVUploadProps) {
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('cv', file);
-      formData.append('userId', userId);
+      if (versionLabel.trim()) {
+        formData.append('label', versionLabel.trim());
+      }
 
       // Simulate upload progress
       const progressInterval = setInterval(() => {
@@ -55,13 +73,28 @@ export default function CVUpload({ userId }: CVUploadProps) {
         throw error;
       }
     },
-    onSuccess: () => {
-      toast({
-        title: "CV uploaded successfully",
-        description: "Your CV has been parsed and is ready for job applications",
-      });
+    onSuccess: (data) => {
+      if (data.parseStatus === "failed") {
+        toast({
+          title: "CV uploaded, but we couldn't read it",
+          description: "Please check the file or upload a text-based PDF or DOCX",
+          variant: "destructive",
+        });
+      } else if (data.parseStatus === "partial") {
+        toast({
+          title: "CV uploaded with some gaps",
+          description: "Some details could not be extracted. Please review them below",
+        });
+      } else {
+        toast({
+          title: "CV uploaded successfully",
+          description: "Your CV has been parsed and is ready for job applications",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "cvs"] });
       setUploadProgress(0);
+      setVersionLabel("");
+      setSelectedCvId(data.cv.id);
     },
     onError: (error) => {
       toast({
@@ -103,16 +136,10 @@ export default function CVUpload({ userId }: CVUploadProps) {
 
   const handleFileUpload = (file: File) => {
     // Validate file type
-    const allowedTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-    ];
-
-    if (!allowedTypes.includes(file.type)) {
+    if (!resolveCvMimeType(file.name, file.type)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a PDF, DOC, or DOCX file",
+        description: `Please upload a ${supportedFormats} file`,
         variant: "destructive",
       });
       return;
@@ -135,7 +162,50 @@ export default function CVUpload({ userId }: CVUploadProps) {
     fileInputRef.current?.click();
   };
 
-  const currentCv = (cvsData as any)?.cvs?.[0]; // Most recent CV
+  // Update label or default flag of a CV version
+  const updateCvMutation = useMutation({
+    mutationFn: async ({ cvId, ...changes }: { cvId: string; label?: string; isDefault?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/cvs/${cvId}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "cvs"] });
+      setRenaming(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not update CV",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete a CV version together with its stored file
+  const deleteCvMutation = useMutation({
+    mutationFn: async (cvId: string) => {
+      const response = await apiRequest("DELETE", `/api/cvs/${cvId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "CV deleted",
+        description: "The CV and its file have been removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "cvs"] });
+      setSelectedCvId(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not delete CV",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cvs = cvsData?.cvs ?? [];
+  const currentCv: Cv | undefined = cvs.find(cv => cv.id === selectedCvId) ?? cvs.find(cv => cv.isDefault) ?? cvs[0];
 
   return (
     <Card data-testid="card-cv-upload">
@@ -181,7 +251,7 @@ export default function CVUpload({ userId }: CVUploadProps) {
             Choose File
           </Button>
           <p className="text-slate-500 text-xs mt-2">
-            Supports PDF, DOC, DOCX up to 10MB
+            Supports {supportedFormats} up to 10MB
           </p>
         </div>
 
@@ -196,6 +266,55 @@ export default function CVUpload({ userId }: CVUploadProps) {
           </div>
         )}
 
+        <Input
+          placeholder="Label for this version (optional), e.g. Backend"
+          value={versionLabel}
+          onChange={(e) => setVersionLabel(e.target.value)}
+          disabled={uploadMutation.isPending}
+          data-testid="input-cv-label"
+        />
+
+        {/* CV Versions */}
+        {cvs.length > 1 && (
+          <div className="space-y-2" data-testid="list-cv-versions">
+            <h4 className="text-sm font-semibold text-slate-700">Your CV versions</h4>
+            {cvs.map(cv => (
+              <div
+                key={cv.id}
+                className={`flex items-center justify-between p-2 rounded-lg border cursor-pointer ${
+                  cv.id === currentCv?.id ? 'border-primary bg-primary/5' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+                onClick={() => setSelectedCvId(cv.id)}
+                data-testid={`row-cv-version-${cv.id}`}
+              >
+                <div className="text-sm">
+                  <span className="font-medium text-slate-900">{cv.label || cv.originalName}</span>
+                  <span className="ml-2 text-xs text-slate-500">{new Date(cv.uploadedAt).toLocaleDateString()}</span>
+                </div>
+                {cv.isDefault ? (
+                  <Badge variant="secondary" data-testid={`badge-default-${cv.id}`}>
+                    <Star className="h-3 w-3 mr-1" />
+                    Default
+                  </Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={updateCvMutation.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateCvMutation.mutate({ cvId: cv.id, isDefault: true });
+                    }}
+                    data-testid={`button-make-default-${cv.id}`}
+                  >
+                    Make default
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Current CV Display */}
         {currentCv && (
           <div className="p-4 bg-slate-50 rounded-lg" data-testid="display-current-cv">
@@ -205,56 +324,95 @@ export default function CVUpload({ userId }: CVUploadProps) {
                   <FileText className="h-4 w-4 text-primary" />
                 </div>
                 <div>
-                  <p className="text-slate-900 font-semibold text-sm" data-testid="text-cv-filename">
-                    {currentCv.originalName}
-                  </p>
+                  {renaming ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        className="h-7 text-sm"
+                        value={labelDraft}
+                        onChange={(e) => setLabelDraft(e.target.value)}
+                        data-testid="input-rename-cv"
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateCvMutation.mutate({ cvId: currentCv.id, label: labelDraft })}
+                        data-testid="button-save-cv-label"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <p
+                      className="text-slate-900 font-semibold text-sm flex items-center gap-1"
+                      data-testid="text-cv-filename"
+                    >
+                      {currentCv.label || currentCv.originalName}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-1"
+                        onClick={() => {
+                          setLabelDraft(currentCv.label ?? "");
+                          setRenaming(true);
+                        }}
+                        data-testid="button-rename-cv"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </p>
+                  )}
+                  {currentCv.label && (
+                    <p className="text-slate-500 text-xs">{currentCv.originalName}</p>
+                  )}
                   <p className="text-slate-600 text-xs" data-testid="text-cv-upload-date">
                     Uploaded {new Date(currentCv.uploadedAt).toLocaleDateString()}
                   </p>
                 </div>
               </div>
               <div className="flex items-center space-x-2">
-                <Badge variant="secondary" data-testid="badge-cv-status">
-                  Parsed
+                <Badge
+                  variant={currentCv.parseStatus === "failed" ? "destructive" : currentCv.parseStatus === "partial" ? "outline" : "secondary"}
+                  data-testid="badge-cv-status"
+                >
+                  {parseStatusLabels[currentCv.parseStatus as ParseStatus] ?? "Parsed"}
                 </Badge>
-                <Button variant="ghost" size="sm" data-testid="button-download-cv">
-                  <Download className="h-4 w-4" />
+                <Button variant="ghost" size="sm" asChild data-testid="button-download-cv">
+                  <a href={`/api/cvs/${currentCv.id}/download`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  disabled={deleteCvMutation.isPending}
+                  onClick={() => {
+                    if (window.confirm(`Delete ${currentCv.label || currentCv.originalName}?`)) {
+                      deleteCvMutation.mutate(currentCv.id);
+                    }
+                  }}
+                  data-testid="button-delete-cv"
+                >
+                  {deleteCvMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
                 </Button>
               </div>
             </div>
 
-            {/* Parsed Data Preview */}
+            {/* Parse Warnings */}
+            {currentCv.parseWarnings?.length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs text-orange-600" data-testid="list-parse-warnings">
+                {currentCv.parseWarnings.map((warning: ParseWarning, index: number) => (
+                  <li key={index} className="flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {warning.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Parsed Data Review */}
             {currentCv.parsedData && (
-              <div className="mt-4 pt-4 border-t border-slate-200">
-                <h4 className="text-sm font-semibold text-slate-700 mb-2">Extracted Information:</h4>
-                <div className="grid grid-cols-2 gap-4 text-xs">
-                  {currentCv.parsedData.name && (
-                    <div>
-                      <span className="text-slate-500">Name:</span>
-                      <span className="ml-1 text-slate-700" data-testid="text-parsed-name">
-                        {currentCv.parsedData.name}
-                      </span>
-                    </div>
-                  )}
-                  {currentCv.parsedData.email && (
-                    <div>
-                      <span className="text-slate-500">Email:</span>
-                      <span className="ml-1 text-slate-700" data-testid="text-parsed-email">
-                        {currentCv.parsedData.email}
-                      </span>
-                    </div>
-                  )}
-                  {currentCv.parsedData.skills && (
-                    <div className="col-span-2">
-                      <span className="text-slate-500">Skills:</span>
-                      <span className="ml-1 text-slate-700" data-testid="text-parsed-skills">
-                        {currentCv.parsedData.skills.slice(0, 5).join(', ')}
-                        {currentCv.parsedData.skills.length > 5 && '...'}
-                      </span>
-                    </div>
-                  )}
-                </div>
-              </div>
+              <CVReviewPanel cv={currentCv} userId={userId} />
             )}
           </div>
         )}
@@ -263,7 +421,7 @@ export default function CVUpload({ userId }: CVUploadProps) {
           ref={fileInputRef}
           type="file"
           className="hidden"
-          accept=".pdf,.doc,.docx"
+          accept={cvFileAccept}
           onChange={handleFileSelect}
           data-testid="input-file-hidden"
         />
@@ -0,0 +1,277 @@
+import { useRef, useState, type FormEvent, type KeyboardEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_EMAIL_TEMPLATE, emailTemplateVariables, type EmailTemplateVariable } from "@shared/emailTemplates";
+import type { EmailTemplate } from "@shared/schema";
+import { Mail, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+
+type TemplateField = "subject" | "textBody" | "htmlBody";
+
+const emptyForm = {
+  name: "",
+  subject: DEFAULT_EMAIL_TEMPLATE.subject,
+  textBody: DEFAULT_EMAIL_TEMPLATE.textBody,
+  htmlBody: "",
+};
+
+type TemplateForm = typeof emptyForm;
+
+const variableNames = Object.keys(emailTemplateVariables) as EmailTemplateVariable[];
+
+// An unfinished "{{name" just before the cursor, if any
+function partialTag(value: string, cursor: number): { start: number; prefix: string } | null {
+  const match = /\{\{\s*([\w.]*)$/.exec(value.slice(0, cursor));
+  return match ? { start: match.index, prefix: match[1] } : null;
+}
+
+interface Suggestions {
+  field: TemplateField;
+  start: number; // Where the "{{" begins
+  options: EmailTemplateVariable[];
+  selected: number;
+}
+
+export default function EmailTemplates() {
+  // null: form closed, "new": creating, otherwise the id of the template being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const fieldRefs = useRef<Partial<Record<TemplateField, HTMLInputElement | HTMLTextAreaElement | null>>>({});
+
+  const { data, isLoading } = useQuery<{ templates: EmailTemplate[] }>({
+    queryKey: ["/api/email-templates"],
+  });
+  const templates = data?.templates ?? [];
+
+  const closeForm = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setSuggestions(null);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: { name: string; subject: string; textBody: string; htmlBody: string | null }) => {
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/email-templates", payload)
+        : await apiRequest("PATCH", `/api/email-templates/${editing}`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+      toast({ title: "Email template saved" });
+      closeForm();
+    },
+    onError: onError("Could not save template"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/email-templates/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+      // Profiles using the template fall back to the built-in one
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Email template deleted" });
+    },
+    onError: onError("Could not delete template"),
+  });
+
+  const openEditor = (template?: EmailTemplate) => {
+    setEditing(template ? template.id : "new");
+    setForm(template
+      ? { name: template.name, subject: template.subject, textBody: template.textBody, htmlBody: template.htmlBody ?? "" }
+      : emptyForm);
+    setSuggestions(null);
+  };
+
+  const updateSuggestions = (field: TemplateField, value: string, cursor: number) => {
+    const partial = partialTag(value, cursor);
+    const options = partial ? variableNames.filter(name => name.toLowerCase().startsWith(partial.prefix.toLowerCase())) : [];
+    setSuggestions(partial && options.length > 0 ? { field, start: partial.start, options, selected: 0 } : null);
+  };
+
+  const onFieldChange = (field: TemplateField) => (e: { target: HTMLInputElement | HTMLTextAreaElement }) => {
+    const { value, selectionStart } = e.target;
+    setForm(prev => ({ ...prev, [field]: value }));
+    updateSuggestions(field, value, selectionStart ?? value.length);
+  };
+
+  // Replaces the unfinished tag with the chosen variable
+  const acceptSuggestion = (name: EmailTemplateVariable) => {
+    if (!suggestions) return;
+    const { field, start } = suggestions;
+    const element = fieldRefs.current[field];
+    const value = form[field];
+    const cursor = element?.selectionStart ?? value.length;
+    const tag = `{{${name}}}`;
+    setForm(prev => ({ ...prev, [field]: value.slice(0, start) + tag + value.slice(cursor) }));
+    setSuggestions(null);
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  const onFieldKeyDown = (field: TemplateField) => (e: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (!suggestions || suggestions.field !== field) return;
+    const count = suggestions.options.length;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : count - 1;
+      setSuggestions({ ...suggestions, selected: (suggestions.selected + step) % count });
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      acceptSuggestion(suggestions.options[suggestions.selected]);
+    } else if (e.key === "Escape") {
+      setSuggestions(null);
+    }
+  };
+
+  const fieldProps = (field: TemplateField) => ({
+    ref: (element: HTMLInputElement | HTMLTextAreaElement | null) => { fieldRefs.current[field] = element; },
+    value: form[field],
+    onChange: onFieldChange(field),
+    onKeyDown: onFieldKeyDown(field),
+    onBlur: () => setSuggestions(null),
+    "data-testid": `input-email-template-${field}`,
+  });
+
+  const suggestionList = (field: TemplateField) => suggestions?.field === field && (
+    <ul className="absolute z-10 mt-1 w-64 rounded-md border border-slate-200 bg-white shadow-md text-sm" role="listbox">
+      {suggestions.options.map((name, index) => (
+        <li
+          key={name}
+          role="option"
+          aria-selected={index === suggestions.selected}
+          className={`px-3 py-1.5 cursor-pointer ${index === suggestions.selected ? "bg-slate-100" : ""}`}
+          // Before the field's blur closes the list
+          onMouseDown={(e) => {
+            e.preventDefault();
+            acceptSuggestion(name);
+          }}
+        >
+          <span className="font-mono">{name}</span>
+          <span className="block text-xs text-slate-500">{emailTemplateVariables[name]}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      name: form.name,
+      subject: form.subject,
+      textBody: form.textBody,
+      htmlBody: form.htmlBody.trim() || null,
+    });
+  };
+
+  return (
+    <Card data-testid="card-email-templates">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Templates
+        </CardTitle>
+        {editing === null && (
+          <Button size="sm" onClick={() => openEditor()} data-testid="button-new-email-template">
+            <Plus className="h-4 w-4 mr-2" />
+            New template
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing !== null ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-slate-500">
+              Type <code>{"{{"}</code> to insert a variable. Job details come from other sites, so they are escaped in the
+              HTML body.
+            </p>
+            <div>
+              <Label htmlFor="email-template-name">Name</Label>
+              <Input
+                id="email-template-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                required
+                data-testid="input-email-template-name"
+              />
+            </div>
+            <div className="relative">
+              <Label htmlFor="email-template-subject">Subject</Label>
+              <Input id="email-template-subject" required {...fieldProps("subject")} />
+              {suggestionList("subject")}
+            </div>
+            <div className="relative">
+              <Label htmlFor="email-template-text">Plain-text body</Label>
+              <Textarea id="email-template-text" rows={8} className="font-mono text-sm" required {...fieldProps("textBody")} />
+              {suggestionList("textBody")}
+            </div>
+            <div className="relative">
+              <Label htmlFor="email-template-html">HTML body (optional)</Label>
+              <Textarea id="email-template-html" rows={8} className="font-mono text-sm" {...fieldProps("htmlBody")} />
+              {suggestionList("htmlBody")}
+              <p className="text-xs text-slate-500 mt-1">Left empty, the email is sent as plain text only.</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={closeForm}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-email-template">
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save template
+              </Button>
+            </div>
+          </form>
+        ) : isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            No templates yet. Applications use a built-in email with your cover letter as the body.
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {templates.map(template => (
+              <li key={template.id} className="flex items-center justify-between py-3" data-testid={`row-email-template-${template.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-900">{template.name}</span>
+                    <Badge variant="outline">v{template.version}</Badge>
+                    {template.htmlBody && <Badge variant="secondary">HTML</Badge>}
+                  </div>
+                  <p className="text-sm text-slate-500 truncate">{template.subject}</p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(template)} data-testid={`button-edit-email-template-${template.id}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(template.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-email-template-${template.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,462 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { skipReasonLabels } from "@/lib/skip-reasons";
+import { employmentTypes, type AutoApplyPreview, type Cv, type EmailTemplate, type EmploymentType, type JobPreferences, type RemotePreference } from "@shared/schema";
+import { Search, Plus, Pencil, Trash2, Play, Eye, Loader2, CheckCircle, SkipForward } from "lucide-react";
+
+interface JobProfilesProps {
+  userId: string;
+  onRunNow: (profileId: string) => void;
+  isApplying: boolean;
+}
+
+// Sentinels for "use the default CV" and "use the built-in email template";
+// Select items cannot have an empty value
+const DEFAULT_CV = "default";
+const DEFAULT_EMAIL_TEMPLATE = "default";
+
+const emptyForm = {
+  name: "",
+  keywords: "",
+  locations: "",
+  industries: "",
+  jobTypes: [] as EmploymentType[],
+  remotePreference: "any" as RemotePreference,
+  excludedCompanies: "",
+  excludedKeywords: "",
+  minMatchScore: "0",
+  salaryMin: "",
+  salaryMax: "",
+  cvId: DEFAULT_CV,
+  emailTemplateId: DEFAULT_EMAIL_TEMPLATE,
+};
+
+type ProfileForm = typeof emptyForm;
+
+const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+
+const remoteLabels: Record<RemotePreference, string> = {
+  any: "Remote or on-site",
+  remote: "Remote only",
+  onsite: "On-site only",
+};
+
+function toForm(profile: JobPreferences): ProfileForm {
+  return {
+    name: profile.name,
+    keywords: profile.keywords ?? "",
+    locations: profile.locations.join(", "),
+    industries: profile.industries.join(", "),
+    // Older profiles may list "remote" as a job type
+    jobTypes: employmentTypes.filter(type => profile.jobTypes.includes(type)),
+    remotePreference: profile.remotePreference,
+    excludedCompanies: profile.excludedCompanies.join(", "),
+    excludedKeywords: profile.excludedKeywords.join(", "),
+    minMatchScore: profile.minMatchScore.toString(),
+    salaryMin: profile.salaryMin?.toString() ?? "",
+    salaryMax: profile.salaryMax?.toString() ?? "",
+    cvId: profile.cvId ?? DEFAULT_CV,
+    emailTemplateId: profile.emailTemplateId ?? DEFAULT_EMAIL_TEMPLATE,
+  };
+}
+
+function toPayload(form: ProfileForm) {
+  return {
+    name: form.name,
+    keywords: form.keywords.trim() || null,
+    locations: splitList(form.locations),
+    industries: splitList(form.industries),
+    jobTypes: form.jobTypes,
+    remotePreference: form.remotePreference,
+    excludedCompanies: splitList(form.excludedCompanies),
+    excludedKeywords: splitList(form.excludedKeywords),
+    minMatchScore: Math.min(100, Math.max(0, parseInt(form.minMatchScore, 10) || 0)),
+    salaryMin: form.salaryMin ? parseInt(form.salaryMin, 10) : null,
+    salaryMax: form.salaryMax ? parseInt(form.salaryMax, 10) : null,
+    cvId: form.cvId === DEFAULT_CV ? null : form.cvId,
+    emailTemplateId: form.emailTemplateId === DEFAULT_EMAIL_TEMPLATE ? null : form.emailTemplateId,
+  };
+}
+
+export default function JobProfiles({ userId, onRunNow, isApplying }: JobProfilesProps) {
+  // null: form closed, "new": creating, otherwise the id of the profile being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [preview, setPreview] = useState<AutoApplyPreview | null>(null);
+
+  const preferencesKey = ["/api/users", userId, "job-preferences"];
+  const { data: preferencesData, isLoading } = useQuery<{ preferences: JobPreferences[] }>({
+    queryKey: preferencesKey,
+  });
+  const { data: cvsData } = useQuery<{ cvs: Cv[] }>({
+    queryKey: ["/api/users", userId, "cvs"],
+  });
+  const { data: templatesData } = useQuery<{ templates: EmailTemplate[] }>({
+    queryKey: ["/api/email-templates"],
+  });
+
+  const profiles = preferencesData?.preferences ?? [];
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing === "new"
+        ? await apiRequest("POST", `/api/users/${userId}/job-preferences`, toPayload(form))
+        : await apiRequest("PATCH", `/api/users/${userId}/job-preferences/${editing}`, toPayload(form));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: preferencesKey });
+      toast({ title: editing === "new" ? "Profile created" : "Profile saved" });
+      closeForm();
+    },
+    onError: onError("Could not save profile"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/users/${userId}/job-preferences/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: preferencesKey });
+    },
+    onError: onError("Could not delete profile"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (jobPreferencesId: string) => {
+      const response = await apiRequest("POST", "/api/jobs/auto-apply/preview", { jobPreferencesId });
+      return response.json() as Promise<{ preview: AutoApplyPreview }>;
+    },
+    onSuccess: (data) => setPreview(data.preview),
+    onError: onError("Could not preview auto-apply"),
+  });
+
+  const toggleJobType = (type: EmploymentType, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      jobTypes: checked ? [...prev.jobTypes, type] : prev.jobTypes.filter(existing => existing !== type),
+    }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const setField = (field: Exclude<keyof ProfileForm, "jobTypes" | "remotePreference">) => (e: { target: { value: string } }) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  return (
+    <Card data-testid="card-job-profiles">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Search Profiles
+        </CardTitle>
+        {editing === null && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setEditing("new")}
+            data-testid="button-new-profile"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New profile
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing !== null && (
+          <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-slate-200 p-4" data-testid="form-profile">
+            <div>
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                required
+                placeholder="e.g. Remote frontend"
+                value={form.name}
+                onChange={setField("name")}
+                data-testid="input-profile-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="profile-keywords">Keywords</Label>
+              <Input
+                id="profile-keywords"
+                placeholder="e.g. React developer"
+                value={form.keywords}
+                onChange={setField("keywords")}
+                data-testid="input-profile-keywords"
+              />
+            </div>
+            <div>
+              <Label htmlFor="profile-locations">Locations</Label>
+              <Input
+                id="profile-locations"
+                placeholder="Comma separated, e.g. Cape Town, Johannesburg"
+                value={form.locations}
+                onChange={setField("locations")}
+                data-testid="input-profile-locations"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="profile-industries">Industries</Label>
+                <Input
+                  id="profile-industries"
+                  placeholder="Comma separated"
+                  value={form.industries}
+                  onChange={setField("industries")}
+                  data-testid="input-profile-industries"
+                />
+              </div>
+              <div>
+                <Label>Remote</Label>
+                <Select
+                  value={form.remotePreference}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, remotePreference: value as RemotePreference }))}
+                >
+                  <SelectTrigger data-testid="select-profile-remote"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(remoteLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="sm:col-span-2">
+                <Label>Job types</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {employmentTypes.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm text-slate-700">
+                      <Checkbox
+                        checked={form.jobTypes.includes(type)}
+                        onCheckedChange={(checked) => toggleJobType(type, checked === true)}
+                        data-testid={`checkbox-profile-job-type-${type}`}
+                      />
+                      {type}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Leave all unticked to accept any job type.</p>
+              </div>
+              <div>
+                <Label htmlFor="profile-salary-min">Minimum salary</Label>
+                <Input
+                  id="profile-salary-min"
+                  type="number"
+                  min={0}
+                  value={form.salaryMin}
+                  onChange={setField("salaryMin")}
+                  data-testid="input-profile-salary-min"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-salary-max">Maximum salary</Label>
+                <Input
+                  id="profile-salary-max"
+                  type="number"
+                  min={0}
+                  value={form.salaryMax}
+                  onChange={setField("salaryMax")}
+                  data-testid="input-profile-salary-max"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-excluded-companies">Excluded companies</Label>
+                <Input
+                  id="profile-excluded-companies"
+                  placeholder="Comma separated"
+                  value={form.excludedCompanies}
+                  onChange={setField("excludedCompanies")}
+                  data-testid="input-profile-excluded-companies"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-excluded-keywords">Excluded keywords</Label>
+                <Input
+                  id="profile-excluded-keywords"
+                  placeholder="e.g. senior, commission only"
+                  value={form.excludedKeywords}
+                  onChange={setField("excludedKeywords")}
+                  data-testid="input-profile-excluded-keywords"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-min-match">Minimum match score</Label>
+                <Input
+                  id="profile-min-match"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.minMatchScore}
+                  onChange={setField("minMatchScore")}
+                  data-testid="input-profile-min-match"
+                />
+                <p className="text-xs text-slate-500 mt-1">0 to 100; auto-apply skips jobs that fit your CV less well.</p>
+              </div>
+              <div>
+                <Label>CV</Label>
+                <Select value={form.cvId} onValueChange={(value) => setForm(prev => ({ ...prev, cvId: value }))}>
+                  <SelectTrigger data-testid="select-profile-cv"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_CV}>Default CV</SelectItem>
+                    {cvsData?.cvs.map(cv => (
+                      <SelectItem key={cv.id} value={cv.id}>{cv.label || cv.originalName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Email template</Label>
+                <Select value={form.emailTemplateId} onValueChange={(value) => setForm(prev => ({ ...prev, emailTemplateId: value }))}>
+                  <SelectTrigger data-testid="select-profile-email-template"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_EMAIL_TEMPLATE}>Built-in template</SelectItem>
+                    {templatesData?.templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={closeForm}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-profile">
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save profile
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+        ) : profiles.length === 0 ? (
+          editing === null && (
+            <p className="text-sm text-slate-500">No search profiles yet. Create one to start auto-applying.</p>
+          )
+        ) : (
+          <div className="divide-y divide-slate-200">
+            {profiles.map(profile => (
+              <div key={profile.id} className="py-3 flex items-center justify-between gap-4" data-testid={`row-profile-${profile.id}`}>
+                <div className="min-w-0">
+                  <span className="font-medium text-slate-900 truncate">{profile.name}</span>
+                  <p className="text-sm text-slate-500 truncate">
+                    {profile.keywords || "Any role"} · {profile.locations.length > 0 ? profile.locations.join(", ") : "Any location"}
+                  </p>
+                  {profile.jobTypes.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {profile.jobTypes.map(type => (
+                        <Badge key={type} variant="outline">{type}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => previewMutation.mutate(profile.id)}
+                    disabled={previewMutation.isPending}
+                    aria-label="Preview matching jobs"
+                    data-testid={`button-preview-profile-${profile.id}`}
+                  >
+                    {previewMutation.isPending && previewMutation.variables === profile.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRunNow(profile.id)}
+                    disabled={isApplying}
+                    data-testid={`button-run-profile-${profile.id}`}
+                  >
+                    <Play className="h-4 w-4 mr-1" />
+                    Run now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditing(profile.id);
+                      setForm(toForm(profile));
+                    }}
+                    data-testid={`button-edit-profile-${profile.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(profile.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-profile-${profile.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {preview && (
+          <div className="rounded-lg border border-slate-200 p-4 space-y-2" data-testid="panel-profile-preview">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-slate-900">
+                Preview: would apply to {preview.jobs.filter(job => job.willApply).length} of {preview.jobs.length} jobs found
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setPreview(null)}>Close</Button>
+            </div>
+            {preview.jobs.length === 0 ? (
+              <p className="text-sm text-slate-500">No jobs found for this profile right now.</p>
+            ) : (
+              <ul className="space-y-1 max-h-72 overflow-y-auto">
+                {preview.jobs.map((job, index) => (
+                  <li key={`${job.url ?? job.title}-${index}`} className="flex items-start gap-2 text-sm">
+                    <span className="mt-0.5">
+                      {job.willApply
+                        ? <CheckCircle className="h-4 w-4 text-green-600" />
+                        : <SkipForward className="h-4 w-4 text-slate-400" />}
+                    </span>
+                    <span className="flex-1 text-slate-700" title={job.matchReasons.join("\n")}>
+                      {job.title} at {job.company}
+                      {job.skipReason && (
+                        <span className="text-slate-500"> ({job.skipDetail || skipReasonLabels[job.skipReason]})</span>
+                      )}
+                    </span>
+                    {job.matchScore !== null && (
+                      <Badge variant="outline" data-testid={`badge-preview-score-${index}`}>{job.matchScore}</Badge>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
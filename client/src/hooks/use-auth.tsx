@@ -0,0 +1,101 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import type { PublicUser } from "@shared/schema";
+
+type LoginData = { email: string; password: string };
+type RegisterData = LoginData & { username: string; name?: string };
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export const authQueryKey = ["/api/auth/me"];
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data, isLoading } = useQuery<{ user: PublicUser } | null>({
+    queryKey: authQueryKey,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/users/login", credentials);
+      return (await response.json()).user as PublicUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(authQueryKey, { user });
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (details: RegisterData) => {
+      const response = await apiRequest("POST", "/api/users/register", details);
+      return (await response.json()).user as PublicUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(authQueryKey, { user });
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Nothing cached for the previous user should survive a logout
+      queryClient.clear();
+      queryClient.setQueryData(authQueryKey, null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: data?.user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
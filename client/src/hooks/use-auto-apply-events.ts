@@ -0,0 +1,21 @@
+import { useEffect, useRef } from "react";
+import type { AutoApplyEvent } from "@shared/autoApplyEvents";
+
+// Subscribes to the signed-in user's live auto-apply events. EventSource
+// reconnects on its own after a dropped connection.
+export function useAutoApplyEvents(onEvent: (event: AutoApplyEvent) => void) {
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  useEffect(() => {
+    const source = new EventSource("/api/auto-apply/events", { withCredentials: true });
+    source.onmessage = (message) => {
+      try {
+        handler.current(JSON.parse(message.data) as AutoApplyEvent);
+      } catch (error) {
+        console.error("Could not read auto-apply event:", error);
+      }
+    };
+    return () => source.close();
+  }, []);
+}
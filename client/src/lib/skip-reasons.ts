@@ -0,0 +1,15 @@
+import type { JobSkipReason } from "@shared/schema";
+
+// Short labels for why auto-apply left a job out
+export const skipReasonLabels: Record<JobSkipReason, string> = {
+  duplicate: "already applied",
+  no_contact_email: "no contact email",
+  limit_reached: "run limit reached",
+  excluded_company: "excluded company",
+  excluded_keyword: "excluded keyword",
+  job_type: "job type",
+  remote: "remote preference",
+  industry: "industry",
+  salary: "salary",
+  low_match_score: "low match score",
+};
@@ -0,0 +1,148 @@
+import { useState, type FormEvent } from "react";
+import { Redirect, Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [loginForm, setLoginForm] = useState({ email: "", password: "" });
+  const [registerForm, setRegisterForm] = useState({ name: "", username: "", email: "", password: "" });
+
+  if (user) {
+    return <Redirect to="/dashboard" />;
+  }
+
+  const handleLogin = (e: FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(loginForm);
+  };
+
+  const handleRegister = (e: FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({ ...registerForm, name: registerForm.name || undefined });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md" data-testid="card-auth">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <i className="fas fa-rocket text-white text-sm"></i>
+            </div>
+            <Link href="/">JobFlow</Link>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Create account</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div>
+                  <Label htmlFor="login-email">Email</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={loginForm.email}
+                    onChange={(e) => setLoginForm(prev => ({ ...prev, email: e.target.value }))}
+                    data-testid="input-login-email"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={loginForm.password}
+                    onChange={(e) => setLoginForm(prev => ({ ...prev, password: e.target.value }))}
+                    data-testid="input-login-password"
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+                  {loginMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Log in
+                </Button>
+                <Link
+                  href="/forgot-password"
+                  className="block text-center text-sm text-slate-500 hover:text-slate-700"
+                  data-testid="link-forgot-password"
+                >
+                  Forgot your password?
+                </Link>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form onSubmit={handleRegister} className="space-y-4">
+                <div>
+                  <Label htmlFor="register-name">Full name</Label>
+                  <Input
+                    id="register-name"
+                    autoComplete="name"
+                    value={registerForm.name}
+                    onChange={(e) => setRegisterForm(prev => ({ ...prev, name: e.target.value }))}
+                    data-testid="input-register-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="register-username">Username</Label>
+                  <Input
+                    id="register-username"
+                    autoComplete="username"
+                    required
+                    value={registerForm.username}
+                    onChange={(e) => setRegisterForm(prev => ({ ...prev, username: e.target.value }))}
+                    data-testid="input-register-username"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="register-email">Email</Label>
+                  <Input
+                    id="register-email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={registerForm.email}
+                    onChange={(e) => setRegisterForm(prev => ({ ...prev, email: e.target.value }))}
+                    data-testid="input-register-email"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input
+                    id="register-password"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={8}
+                    required
+                    value={registerForm.password}
+                    onChange={(e) => setRegisterForm(prev => ({ ...prev, password: e.target.value }))}
+                    data-testid="input-register-password"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">At least 8 characters</p>
+                </div>
+                <Button type="submit" className="w-full" disabled={registerMutation.isPending} data-testid="button-register">
+                  {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create account
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
@@ -6,50 +6,85 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
 import CVUpload from "@/components/cv-upload";
-import JobPreferences from "@/components/job-preferences";
+import JobProfiles from "@/components/job-profiles";
 import ApplicationsTable from "@/components/applications-table";
+import AutoApplyProgress, { isActiveRun } from "@/components/auto-apply-progress";
+import CampaignsPanel from "@/components/campaigns-panel";
+import CoverLetterEditor from "@/components/cover-letter-editor";
+import EmailTemplates from "@/components/email-templates";
+import ActivityFeed from "@/components/activity-feed";
 import { apiRequest } from "@/lib/queryClient";
-import { ArrowLeft, Upload, Settings, RefreshCw, CheckCircle, Clock, Send, AlertCircle } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useAutoApplyEvents } from "@/hooks/use-auto-apply-events";
+import type { QuotaStatus } from "@shared/plans";
+import type { ApplicationStats } from "@shared/applicationStatus";
+import type { AutoApplyRun } from "@shared/schema";
+import type { AutoApplyEvent } from "@shared/autoApplyEvents";
+import { ArrowLeft, Upload, Settings, RefreshCw, CheckCircle, Clock, Send, AlertCircle, LogOut } from "lucide-react";
 import { Link } from "wouter";
 
-// Mock user - in production this would come from authentication
-const mockUser = {
-  id: "user-123",
-  name: "John Smith",
-  email: "john@example.com",
-  plan: "professional",
-};
+const MAX_ACTIVITY_EVENTS = 50;
 
 export default function Dashboard() {
+  // Only rendered behind ProtectedRoute, so there is always a signed-in user
+  const { user: sessionUser, logoutMutation } = useAuth();
+  const user = sessionUser!;
+
   // Fetch user statistics
-  const { data: stats, isLoading: statsLoading } = useQuery({
-    queryKey: ["/api/users", mockUser.id, "stats"],
+  const { data: stats, isLoading: statsLoading } = useQuery<{ stats: ApplicationStats }>({
+    queryKey: ["/api/users", user.id, "stats"],
   });
 
   // Fetch user applications
   const { data: applicationsData, isLoading: applicationsLoading } = useQuery({
-    queryKey: ["/api/users", mockUser.id, "applications"],
+    queryKey: ["/api/users", user.id, "applications"],
+  });
+
+  // Fetch remaining plan quota
+  const { data: quotaData } = useQuery<{ quota: QuotaStatus }>({
+    queryKey: ["/api/users", user.id, "quota"],
   });
+  const quota = quotaData?.quota;
 
-  // Auto-apply mutation
+  // Most recent auto-apply run, so progress is still shown after a reload
+  const { data: runsData } = useQuery<{ runs: AutoApplyRun[] }>({
+    queryKey: ["/api/auto-apply/runs"],
+  });
+  const latestRun = runsData?.runs[0];
+
+  // Auto-apply mutation; the server queues a run capped at the remaining quota,
+  // searching with the given profile or the user's first one
   const autoApplyMutation = useMutation({
-    mutationFn: async (maxApplications: number) => {
-      const response = await apiRequest("POST", "/api/jobs/auto-apply", {
-        userId: mockUser.id,
-        maxApplications,
+    mutationFn: async (jobPreferencesId?: string) => {
+      const response = await apiRequest("POST", "/api/jobs/auto-apply", { jobPreferencesId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auto-apply/runs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Auto-apply failed",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/email-verification");
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: () => {
       toast({
-        title: "Auto-apply completed",
-        description: `Successfully applied to ${data.applications} jobs`,
+        title: "Verification email sent",
+        description: `Check ${user.email} for the confirmation link`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
     },
     onError: (error) => {
       toast({
-        title: "Auto-apply failed",
+        title: "Could not send verification email",
         description: error.message,
         variant: "destructive",
       });
@@ -57,12 +92,43 @@ export default function Dashboard() {
   });
 
   const handleAutoApply = () => {
-    const maxApplications = mockUser.plan === "free" ? 5 : 
-                           mockUser.plan === "starter" ? 50 :
-                           mockUser.plan === "professional" ? 100 : 500;
-    autoApplyMutation.mutate(maxApplications);
+    autoApplyMutation.mutate();
   };
 
+  const handleRunFinished = useCallback((run: AutoApplyRun) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auto-apply/runs"] });
+    if (run.status === "completed") {
+      toast({
+        title: "Auto-apply completed",
+        description: `Successfully applied to ${run.sentCount} jobs`,
+      });
+    }
+  }, []);
+
+  const isApplying = autoApplyMutation.isPending || isActiveRun(latestRun);
+
+  // Live feed, newest first; quota updates only refresh the quota display
+  const [activity, setActivity] = useState<AutoApplyEvent[]>([]);
+  useAutoApplyEvents((event) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auto-apply/runs", event.runId] });
+
+    switch (event.type) {
+      case "quota":
+        queryClient.setQueryData(["/api/users", user.id, "quota"], { quota: event.quota });
+        return;
+      case "run_status":
+        queryClient.invalidateQueries({ queryKey: ["/api/auto-apply/runs"] });
+        break;
+      case "application_sent":
+      case "application_failed":
+        queryClient.invalidateQueries({ queryKey: ["/api/users", user.id, "stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users", user.id, "applications"] });
+        break;
+    }
+    setActivity(prev => [event, ...prev].slice(0, MAX_ACTIVITY_EVENTS));
+  });
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Header */}
@@ -85,13 +151,25 @@ export default function Dashboard() {
             </div>
             
             <div className="flex items-center space-x-4">
-              <Badge variant="secondary" data-testid="badge-plan">
-                {mockUser.plan.charAt(0).toUpperCase() + mockUser.plan.slice(1)} Plan
-              </Badge>
+              <Link href="/pricing" data-testid="link-pricing">
+                <Badge variant="secondary" className="cursor-pointer" data-testid="badge-plan">
+                  {user.plan.charAt(0).toUpperCase() + user.plan.slice(1)} Plan
+                </Badge>
+              </Link>
               <Button variant="outline" size="sm" data-testid="button-settings">
                 <Settings className="h-4 w-4 mr-2" />
                 Settings
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Log out
+              </Button>
             </div>
           </div>
         </div>
@@ -99,30 +177,69 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Email Verification */}
+        {!user.emailVerified && (
+          <div
+            className="flex items-center justify-between p-4 mb-6 rounded-lg border border-orange-200 bg-orange-50"
+            data-testid="banner-verify-email"
+          >
+            <div className="flex items-center gap-2 text-sm text-orange-700">
+              <AlertCircle className="h-4 w-4" />
+              Please confirm your email address, {user.email}.
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => resendVerificationMutation.mutate()}
+              disabled={resendVerificationMutation.isPending}
+              data-testid="button-resend-verification"
+            >
+              Resend link
+            </Button>
+          </div>
+        )}
+
         {/* Welcome Section */}
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between mb-8">
           <div>
             <h1 className="text-3xl font-bold text-slate-900 mb-2" data-testid="text-welcome">
-              Welcome back, {mockUser.name}
+              Welcome back, {user.name || user.username}
             </h1>
             <p className="text-slate-600">Here's your job search activity overview</p>
           </div>
           <div className="flex items-center space-x-4 mt-4 lg:mt-0">
+            {quota && (
+              <span className="text-sm text-slate-600" data-testid="text-quota-remaining">
+                {quota.remaining} of {quota.limit} applications left this {quota.period}
+              </span>
+            )}
             <Button 
               onClick={handleAutoApply}
-              disabled={autoApplyMutation.isPending}
+              disabled={isApplying || quota?.remaining === 0}
               data-testid="button-auto-apply"
             >
-              {autoApplyMutation.isPending ? (
+              {isApplying ? (
                 <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
               ) : (
                 <Send className="h-4 w-4 mr-2" />
               )}
-              {autoApplyMutation.isPending ? "Applying..." : "Auto Apply"}
+              {isApplying ? "Applying..." : "Auto Apply"}
             </Button>
           </div>
         </div>
 
+        {/* Auto-apply Progress */}
+        {latestRun && (
+          <AutoApplyProgress key={latestRun.id} runId={latestRun.id} onFinished={handleRunFinished} />
+        )}
+
+        {/* Live Activity */}
+        {(activity.length > 0 || isApplying) && (
+          <div className="mb-8">
+            <ActivityFeed events={activity} />
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card data-testid="card-applications">
@@ -136,7 +253,7 @@ export default function Dashboard() {
                 </Badge>
               </div>
               <div className="text-2xl font-bold text-slate-900 mb-1" data-testid="text-total-applications">
-                {statsLoading ? "..." : (stats as any)?.stats?.total || 0}
+                {statsLoading ? "..." : stats?.stats.total ?? 0}
               </div>
               <div className="text-slate-600 text-sm">Applications Sent</div>
             </CardContent>
@@ -153,7 +270,7 @@ export default function Dashboard() {
                 </Badge>
               </div>
               <div className="text-2xl font-bold text-slate-900 mb-1" data-testid="text-pending-applications">
-                {statsLoading ? "..." : (stats as any)?.stats?.pending || 0}
+                {statsLoading ? "..." : stats?.stats.awaitingResponse ?? 0}
               </div>
               <div className="text-slate-600 text-sm">Pending Responses</div>
             </CardContent>
@@ -170,7 +287,7 @@ export default function Dashboard() {
                 </Badge>
               </div>
               <div className="text-2xl font-bold text-slate-900 mb-1" data-testid="text-responses">
-                {statsLoading ? "..." : (stats as any)?.stats?.responded || 0}
+                {statsLoading ? "..." : stats?.stats.positive ?? 0}
               </div>
               <div className="text-slate-600 text-sm">Positive Responses</div>
             </CardContent>
@@ -187,26 +304,41 @@ export default function Dashboard() {
                 </Badge>
               </div>
               <div className="text-2xl font-bold text-slate-900 mb-1" data-testid="text-response-rate">
-                {statsLoading ? "..." : 
-                  (stats as any)?.stats?.total > 0 ? 
-                    `${(((stats as any).stats.responded / (stats as any).stats.total) * 100).toFixed(1)}%` : 
-                    "0%"
-                }
+                {statsLoading ? "..." : `${(stats?.stats.responseRate ?? 0).toFixed(1)}%`}
               </div>
               <div className="text-slate-600 text-sm">Response Rate</div>
             </CardContent>
           </Card>
         </div>
 
-        {/* CV Upload and Job Preferences */}
+        {/* CV Upload and Search Profiles */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-          <CVUpload userId={mockUser.id} />
-          <JobPreferences userId={mockUser.id} />
+          <CVUpload userId={user.id} />
+          <JobProfiles
+            userId={user.id}
+            onRunNow={(profileId) => autoApplyMutation.mutate(profileId)}
+            isApplying={isApplying}
+          />
+        </div>
+
+        {/* Scheduled Campaigns */}
+        <div className="mb-8">
+          <CampaignsPanel userId={user.id} />
+        </div>
+
+        {/* Cover Letter */}
+        <div className="mb-8">
+          <CoverLetterEditor />
+        </div>
+
+        {/* Email Templates */}
+        <div className="mb-8">
+          <EmailTemplates />
         </div>
 
         {/* Applications Table */}
         <ApplicationsTable 
-          userId={mockUser.id}
+          userId={user.id}
           applications={(applicationsData as any)?.applications || []}
           isLoading={applicationsLoading}
         />
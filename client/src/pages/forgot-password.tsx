@@ -0,0 +1,79 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, MailCheck } from "lucide-react";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (address: string) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset", { email: address });
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    requestResetMutation.mutate(email);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md" data-testid="card-forgot-password">
+        <CardHeader>
+          <CardTitle>Reset your password</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {requestResetMutation.isSuccess ? (
+            <div className="space-y-4 text-center" data-testid="text-reset-sent">
+              <MailCheck className="h-10 w-10 text-primary mx-auto" />
+              <p className="text-slate-600 text-sm">
+                If an account exists for {email}, we have sent a link to reset your password. The link expires in 1 hour.
+              </p>
+              <Link href="/auth">
+                <Button variant="outline" className="w-full">Back to log in</Button>
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-slate-600 text-sm">Enter the email you signed up with and we will send you a reset link.</p>
+              <div>
+                <Label htmlFor="reset-email">Email</Label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-reset-email"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestResetMutation.isPending} data-testid="button-send-reset">
+                {requestResetMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Send reset link
+              </Button>
+              <Link href="/auth" className="block text-center text-sm text-slate-500 hover:text-slate-700">
+                Back to log in
+              </Link>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { authQueryKey, useAuth } from "@/hooks/use-auth";
+import { comparePlans, formatPrice, type PlanDefinition, type PlanId } from "@shared/plans";
+import type { Invoice, Subscription } from "@shared/schema";
+import { ArrowLeft, Check, Loader2, AlertCircle } from "lucide-react";
+
+interface BillingOverview {
+  plan: PlanDefinition;
+  subscription: Subscription | null;
+  invoices: Invoice[];
+}
+
+const billingQueryKey = ["/api/billing/subscription"];
+
+function formatDate(value: string | Date) {
+  return new Date(value).toLocaleDateString();
+}
+
+export default function Pricing() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const { data: plansData, isLoading: plansLoading } = useQuery<{ plans: PlanDefinition[] }>({
+    queryKey: ["/api/billing/plans"],
+  });
+
+  const { data: billing } = useQuery<BillingOverview>({
+    queryKey: billingQueryKey,
+    enabled: !!user,
+  });
+
+  const onBillingChanged = () => {
+    queryClient.invalidateQueries({ queryKey: billingQueryKey });
+    queryClient.invalidateQueries({ queryKey: authQueryKey });
+    if (user) {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", user.id, "quota"] });
+    }
+  };
+
+  const onBillingError = (title: string) => (error: Error) => {
+    // Failed payments still create an invoice worth showing
+    onBillingChanged();
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const upgradeMutation = useMutation({
+    mutationFn: async (plan: PlanId) => {
+      const response = await apiRequest("POST", "/api/billing/subscription/upgrade", { plan });
+      return response.json();
+    },
+    onSuccess: (data: { invoice: Invoice }) => {
+      onBillingChanged();
+      toast({
+        title: data.invoice.status === "paid" ? "Plan upgraded" : "Payment processing",
+        description: data.invoice.status === "paid"
+          ? "Your new application allowance is available now."
+          : "Your plan will change as soon as the payment is confirmed.",
+      });
+    },
+    onError: onBillingError("Upgrade failed"),
+  });
+
+  const downgradeMutation = useMutation({
+    mutationFn: async (plan: PlanId) => {
+      const response = await apiRequest("POST", "/api/billing/subscription/downgrade", { plan });
+      return response.json();
+    },
+    onSuccess: () => {
+      onBillingChanged();
+      toast({ title: "Downgrade scheduled", description: "Your plan will change at the end of the current billing period." });
+    },
+    onError: onBillingError("Downgrade failed"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/subscription/cancel");
+      return response.json();
+    },
+    onSuccess: () => {
+      onBillingChanged();
+      toast({ title: "Subscription cancelled", description: "You will move to the Free plan when your subscription ends." });
+    },
+    onError: onBillingError("Cancellation failed"),
+  });
+
+  const isChanging = upgradeMutation.isPending || downgradeMutation.isPending || cancelMutation.isPending;
+  const subscription = billing?.subscription ?? null;
+  const currentPlan = (user?.plan ?? "free") as PlanId;
+
+  const handleSelect = (plan: PlanDefinition) => {
+    if (!user) {
+      setLocation("/auth");
+      return;
+    }
+    if (comparePlans(plan.id, currentPlan) > 0) {
+      upgradeMutation.mutate(plan.id);
+    } else if (plan.id === "free") {
+      cancelMutation.mutate();
+    } else {
+      downgradeMutation.mutate(plan.id);
+    }
+  };
+
+  const renderPlanButton = (plan: PlanDefinition) => {
+    if (!user) {
+      return <Button className="w-full" onClick={() => handleSelect(plan)}>Get started</Button>;
+    }
+    if (plan.id === currentPlan) {
+      return <Button className="w-full" variant="outline" disabled>Current plan</Button>;
+    }
+    if (subscription?.pendingPlan === plan.id || (plan.id === "free" && subscription?.cancelAtPeriodEnd)) {
+      return <Button className="w-full" variant="outline" disabled>Starts {formatDate(subscription!.currentPeriodEnd)}</Button>;
+    }
+    const isUpgrade = comparePlans(plan.id, currentPlan) > 0;
+    return (
+      <Button
+        className="w-full"
+        variant={isUpgrade ? "default" : "outline"}
+        disabled={isChanging}
+        onClick={() => handleSelect(plan)}
+        data-testid={`button-select-${plan.id}`}
+      >
+        {isUpgrade ? "Upgrade" : "Downgrade"}
+      </Button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-white border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center h-16">
+          <Link href={user ? "/dashboard" : "/"}>
+            <Button variant="ghost" size="sm" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {user ? "Back to Dashboard" : "Back to Home"}
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-slate-900">Plans & Pricing</h1>
+          <p className="text-slate-600 mt-2">Prices in South African Rand. Upgrades apply immediately and unused time is credited.</p>
+        </div>
+
+        {subscription?.status === "past_due" && (
+          <Card className="border-red-200 bg-red-50" data-testid="card-past-due">
+            <CardContent className="py-4 flex items-center gap-3 text-sm text-red-800">
+              <AlertCircle className="h-5 w-5 flex-shrink-0" />
+              <span>
+                Your last payment failed. We will retry it automatically
+                {subscription.graceUntil && <> and you keep your plan until {formatDate(subscription.graceUntil)}</>}.
+              </span>
+            </CardContent>
+          </Card>
+        )}
+
+        {plansLoading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {plansData?.plans.map(plan => (
+              <Card
+                key={plan.id}
+                className={plan.id === currentPlan && user ? "border-primary" : undefined}
+                data-testid={`card-plan-${plan.id}`}
+              >
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    {plan.name}
+                    {user && plan.id === currentPlan && <Badge variant="secondary">Current</Badge>}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <span className="text-3xl font-bold text-slate-900">{formatPrice(plan.priceCents)}</span>
+                    <span className="text-slate-500">/{plan.period}</span>
+                  </div>
+                  <p className="text-sm text-slate-600 flex items-center gap-2">
+                    <Check className="h-4 w-4 text-green-600" />
+                    {plan.applicationLimit} applications per {plan.period}
+                  </p>
+                  {renderPlanButton(plan)}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {user && subscription && (
+          <Card data-testid="card-subscription">
+            <CardHeader>
+              <CardTitle>Your subscription</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-sm text-slate-600 space-y-1">
+                <p>
+                  Current period: {formatDate(subscription.currentPeriodStart)} – {formatDate(subscription.currentPeriodEnd)}
+                </p>
+                {subscription.pendingPlan && (
+                  <p data-testid="text-pending-plan">
+                    Changes to the {subscription.pendingPlan} plan on {formatDate(subscription.currentPeriodEnd)}.
+                  </p>
+                )}
+                {subscription.cancelAtPeriodEnd && (
+                  <p data-testid="text-cancel-at-period-end">
+                    Cancelled. You move to the Free plan on {formatDate(subscription.currentPeriodEnd)}.
+                  </p>
+                )}
+              </div>
+              {!subscription.cancelAtPeriodEnd && (
+                <Button
+                  variant="outline"
+                  disabled={isChanging}
+                  onClick={() => cancelMutation.mutate()}
+                  data-testid="button-cancel-subscription"
+                >
+                  Cancel subscription
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {user && billing && billing.invoices.length > 0 && (
+          <Card data-testid="card-invoices">
+            <CardHeader>
+              <CardTitle>Invoices</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-slate-200">
+                {billing.invoices.map(invoice => (
+                  <div key={invoice.id} className="py-3 flex items-center justify-between text-sm" data-testid={`row-invoice-${invoice.id}`}>
+                    <div>
+                      <p className="font-medium text-slate-900">{formatDate(invoice.createdAt)}</p>
+                      <p className="text-slate-500">
+                        {invoice.lineItems.map(item => item.description).join(", ")}
+                      </p>
+                      {invoice.failureReason && invoice.status === "failed" && (
+                        <p className="text-red-600">{invoice.failureReason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium">{formatPrice(invoice.amountCents)}</span>
+                      <Badge variant={invoice.status === "paid" ? "secondary" : invoice.status === "failed" ? "destructive" : "outline"}>
+                        {invoice.status}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
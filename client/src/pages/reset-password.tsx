@@ -0,0 +1,126 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  // Checks the link up front so an expired one does not cost the user a form fill
+  const { isLoading: checkingToken, isError: invalidToken } = useQuery({
+    queryKey: ["/api/auth/password-reset", token],
+    enabled: token.length > 0,
+    retry: false,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (newPassword: string) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/confirm", { token, password: newPassword });
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmation) {
+      toast({
+        title: "Passwords do not match",
+        description: "Please type the same password twice",
+        variant: "destructive",
+      });
+      return;
+    }
+    resetMutation.mutate(password);
+  };
+
+  const renderContent = () => {
+    if (!token || invalidToken) {
+      return (
+        <div className="space-y-4 text-center" data-testid="text-reset-invalid">
+          <AlertCircle className="h-10 w-10 text-red-500 mx-auto" />
+          <p className="text-slate-600 text-sm">This reset link is invalid or has expired.</p>
+          <Link href="/forgot-password">
+            <Button variant="outline" className="w-full">Request a new link</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    if (checkingToken) {
+      return <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />;
+    }
+
+    if (resetMutation.isSuccess) {
+      return (
+        <div className="space-y-4 text-center" data-testid="text-reset-complete">
+          <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+          <p className="text-slate-600 text-sm">Your password has been changed. Please log in with your new password.</p>
+          <Link href="/auth">
+            <Button className="w-full">Log in</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label htmlFor="new-password">New password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            minLength={8}
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-new-password"
+          />
+          <p className="text-xs text-slate-500 mt-1">At least 8 characters</p>
+        </div>
+        <div>
+          <Label htmlFor="confirm-password">Confirm new password</Label>
+          <Input
+            id="confirm-password"
+            type="password"
+            autoComplete="new-password"
+            required
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            data-testid="input-confirm-password"
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset-password">
+          {resetMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Change password
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md" data-testid="card-reset-password">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
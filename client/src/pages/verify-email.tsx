@@ -0,0 +1,66 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { authQueryKey, useAuth } from "@/hooks/use-auth";
+import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+
+export default function VerifyEmail() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const { user } = useAuth();
+  const requested = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/email-verification/confirm", { token });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authQueryKey });
+    },
+  });
+
+  // Tokens are single-use, so the request must only go out once per page load
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+    verifyMutation.mutate();
+  }, [token, verifyMutation]);
+
+  const continueLink = (
+    <Link href={user ? "/dashboard" : "/auth"}>
+      <Button className="w-full">{user ? "Go to dashboard" : "Log in"}</Button>
+    </Link>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md" data-testid="card-verify-email">
+        <CardHeader>
+          <CardTitle>Email verification</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+              <p className="text-slate-600 text-sm" data-testid="text-verify-success">Thanks, your email address is confirmed.</p>
+              {continueLink}
+            </>
+          ) : !token || verifyMutation.isError ? (
+            <>
+              <AlertCircle className="h-10 w-10 text-red-500 mx-auto" />
+              <p className="text-slate-600 text-sm" data-testid="text-verify-failed">
+                This verification link is invalid or has expired. You can ask for a new one from your dashboard.
+              </p>
+              {continueLink}
+            </>
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import type { User as SelectUser, PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const HASH_PREFIX = "scrypt";
+
+// Stored as "scrypt$<salt>$<hash>" so the scheme can change later
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${HASH_PREFIX}$${salt}$${hash.toString("hex")}`;
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    // Accounts created before passwords were hashed; rehashed on their next login
+    const supplied = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "hex");
+  const supplied = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    name: user.name,
+    plan: user.plan,
+    emailVerified: user.emailVerifiedAt !== null,
+  };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * For routes under /api/users/:userId. Another user's id gets the same 404 as
+ * an unknown one, so ids cannot be probed.
+ */
+export function requireSelf(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (req.params.userId !== req.user.id) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const PostgresSessionStore = connectPg(session);
+  const sessionStore = new PostgresSessionStore({
+    pool,
+    tableName: "session", // Defined in shared/schema.ts and created by db:push
+    createTableIfMissing: false,
+  });
+
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    store: sessionStore,
+    secret: sessionSecret || "dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email);
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+
+        if (!isPasswordHash(user.password)) {
+          const passwordHash = await hashPassword(password);
+          await storage.updateUserPassword(user.id, passwordHash);
+          user.password = passwordHash;
+        }
+
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted account ends the session instead of failing every request
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
@@ -0,0 +1,334 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+
+// Every user-scoped route must answer another user's ids exactly as it
+// answers unknown ones: 404, without reading or changing anything.
+
+const { store } = vi.hoisted(() => {
+  process.env.UPLOAD_DIR = `${process.env.TMPDIR || "/tmp"}/routes-test-uploads`;
+
+  type Row = { id: string; userId?: string; [key: string]: unknown };
+  const tables: Record<string, Row[]> = {
+    users: [],
+    cvs: [],
+    jobPreferences: [],
+    emailTemplates: [],
+    applications: [],
+    campaigns: [],
+    autoApplyRuns: [],
+  };
+
+  const mine = (table: string, userId: string) => tables[table].filter(row => row.userId === userId);
+  const owned = (table: string, userId: string, id: string) => mine(table, userId).find(row => row.id === id);
+  const update = (table: string, userId: string, id: string, data: object) => {
+    const row = owned(table, userId, id);
+    return row && Object.assign(row, data);
+  };
+  const remove = (table: string, userId: string, id: string) => {
+    const row = owned(table, userId, id);
+    if (row) tables[table].splice(tables[table].indexOf(row), 1);
+    return row;
+  };
+
+  // Just enough of DatabaseStorage, scoped by user the same way
+  const storage = {
+    getUser: async (id: string) => tables.users.find(user => user.id === id),
+    getUserByEmail: async (email: string) => tables.users.find(user => user.email === email),
+    createUser: async (data: object) => {
+      const user = { id: `user-${tables.users.length + 1}`, plan: "free", coverLetterTemplate: null, emailVerifiedAt: null, ...data };
+      tables.users.push(user);
+      return user;
+    },
+    createEmailVerificationToken: async () => ({}),
+    updateUserPassword: async (id: string, password: string) => void Object.assign(tables.users.find(user => user.id === id)!, { password }),
+
+    getUserCvs: async (userId: string) => mine("cvs", userId),
+    getCv: async (userId: string, id: string) => owned("cvs", userId, id),
+    getDefaultCv: async (userId: string) => mine("cvs", userId).find(cv => cv.isDefault),
+    updateCv: async (userId: string, id: string, data: object) => update("cvs", userId, id, data),
+    setDefaultCv: async (userId: string, id: string) => update("cvs", userId, id, { isDefault: true }),
+    updateCvParsedData: async (userId: string, id: string, parsedDataOverrides: object) => update("cvs", userId, id, { parsedDataOverrides }),
+    updateCvParseResult: async (userId: string, id: string, result: { data: object }) => update("cvs", userId, id, { parsedData: result.data }),
+    deleteCv: async (userId: string, id: string) => remove("cvs", userId, id),
+
+    getUserJobPreferences: async (userId: string) => mine("jobPreferences", userId),
+    getJobPreferences: async (userId: string, id: string) => owned("jobPreferences", userId, id),
+    getDefaultJobPreferences: async (userId: string) => mine("jobPreferences", userId).find(preferences => preferences.isDefault),
+    createJobPreferences: async (data: object) => ({ id: "new-preferences", ...data }),
+    updateJobPreferences: async (userId: string, id: string, data: object) => update("jobPreferences", userId, id, data),
+    deleteJobPreferences: async (userId: string, id: string) => remove("jobPreferences", userId, id),
+
+    getUserEmailTemplates: async (userId: string) => mine("emailTemplates", userId),
+    getEmailTemplate: async (userId: string, id: string) => owned("emailTemplates", userId, id),
+    updateEmailTemplate: async (userId: string, id: string, data: object) => update("emailTemplates", userId, id, data),
+    deleteEmailTemplate: async (userId: string, id: string) => remove("emailTemplates", userId, id),
+
+    getUserApplications: async (userId: string) => mine("applications", userId),
+    getApplication: async (userId: string, id: string) => owned("applications", userId, id),
+    getApplicationEvents: async () => [],
+    updateApplicationStatus: async (userId: string, id: string, change: { to: string }) => update("applications", userId, id, { status: change.to }),
+    getApplicationUsage: async () => ({ count: 0, oldest: null }),
+    getUserApplicationStats: async () => ({ total: 0, byStatus: {}, awaitingResponse: 0, responded: 0, positive: 0, responseRate: 0 }),
+
+    getUserCampaigns: async (userId: string) => mine("campaigns", userId),
+    getCampaign: async (userId: string, id: string) => owned("campaigns", userId, id),
+    getCampaignRuns: async () => [],
+    createCampaign: async (data: object) => ({ id: "new-campaign", ...data }),
+    updateCampaign: async (userId: string, id: string, data: object) => update("campaigns", userId, id, data),
+    deleteCampaign: async (userId: string, id: string) => remove("campaigns", userId, id),
+
+    getUserAutoApplyRuns: async (userId: string) => mine("autoApplyRuns", userId),
+    getAutoApplyRun: async (userId: string, id: string) => owned("autoApplyRuns", userId, id),
+    getActiveAutoApplyRun: async () => undefined,
+    getAutoApplyItems: async () => [],
+    cancelAutoApplyRun: async (userId: string, id: string) => update("autoApplyRuns", userId, id, { status: "canceled" }),
+  };
+
+  const jobSearchService = { searchJobs: async () => [] };
+
+  return { store: { tables, storage, jobSearchService } };
+});
+
+vi.mock("./db", () => ({
+  pool: {},
+  db: {},
+  isUniqueViolation: () => false,
+}));
+vi.mock("connect-pg-simple", () => ({
+  default: (session: typeof import("express-session")) => session.MemoryStore,
+}));
+vi.mock("./storage", () => ({ storage: store.storage }));
+// Under both specifiers: an import that does not resolve is matched by the id as written
+vi.mock("./services/jobSearch", () => ({ jobSearchService: store.jobSearchService }));
+vi.mock("./jobSearch", () => ({ jobSearchService: store.jobSearchService }));
+vi.mock("./services/emailService", () => ({
+  emailService: {
+    sendJobApplication: vi.fn(async () => ({ success: true })),
+    sendEmail: vi.fn(async () => ({ success: true })),
+  },
+}));
+
+import { registerRoutes } from "./routes";
+import { hashPassword } from "./auth";
+import { uploadSweeperService } from "./services/uploadSweeper";
+import { billingService } from "./services/billing";
+import { autoApplyQueueService } from "./services/autoApplyQueue";
+import { campaignSchedulerService } from "./services/campaignScheduler";
+import { inboundMailService } from "./services/inboundMail";
+
+const OWNER = "user-owner";
+const OTHER = "user-other";
+const PASSWORD = "correct horse battery";
+
+function seed(passwordHash: string) {
+  const { tables } = store;
+  for (const [id, name] of [[OWNER, "Owner"], [OTHER, "Other"]]) {
+    tables.users.push({
+      id,
+      email: `${id}@example.com`,
+      username: id,
+      name,
+      password: passwordHash,
+      plan: "free",
+      emailVerifiedAt: null,
+      coverLetterTemplate: null,
+    });
+    tables.cvs.push({
+      id: `cv-${id}`,
+      userId: id,
+      filename: `cv-${id}.pdf`,
+      originalName: "cv.pdf",
+      mimeType: "application/pdf",
+      label: null,
+      isDefault: true,
+      parsedData: null,
+      parsedDataOverrides: null,
+    });
+    tables.jobPreferences.push({
+      id: `preferences-${id}`,
+      userId: id,
+      name: "Default",
+      isDefault: true,
+      cvId: null,
+      emailTemplateId: null,
+      keywords: "developer",
+      locations: [],
+    });
+    tables.campaigns.push({
+      id: `campaign-${id}`,
+      userId: id,
+      name: "Weekdays",
+      jobPreferencesId: `preferences-${id}`,
+      cvId: null,
+      frequency: "daily",
+      dayOfWeek: null,
+      timeOfDay: "09:00",
+      timezone: "UTC",
+      maxApplicationsPerRun: 5,
+      paused: false,
+    });
+  }
+  tables.emailTemplates.push({ id: "template-owner", userId: OWNER, name: "Short", subject: "Applying", textBody: "Hello", htmlBody: null, version: 1 });
+  tables.applications.push({ id: "application-owner", userId: OWNER, jobTitle: "Developer", company: "Acme", status: "sent" });
+  tables.autoApplyRuns.push({ id: "run-owner", userId: OWNER, status: "running" });
+}
+
+async function signIn(app: express.Express, userId: string) {
+  const agent = request.agent(app);
+  const response = await agent.post("/api/users/login").send({ email: `${userId}@example.com`, password: PASSWORD });
+  expect(response.status).toBe(200);
+  return agent;
+}
+
+type Method = "get" | "post" | "patch" | "delete";
+type RouteCase = [Method, string, object?];
+
+// Requests naming the owner's records, made by someone else
+const foreignRequests: RouteCase[] = [
+  ["get", `/api/users/${OWNER}/cvs`],
+  ["get", `/api/users/${OWNER}/applications`],
+  ["get", `/api/users/${OWNER}/stats`],
+  ["get", `/api/users/${OWNER}/quota`],
+  ["get", `/api/users/${OWNER}/job-preferences`],
+  ["post", `/api/users/${OWNER}/job-preferences`, { name: "Copy" }],
+  ["patch", `/api/users/${OWNER}/job-preferences/preferences-${OWNER}`, { keywords: "manager" }],
+  ["delete", `/api/users/${OWNER}/job-preferences/preferences-${OWNER}`],
+  ["patch", `/api/users/${OTHER}/job-preferences/preferences-${OTHER}`, { cvId: `cv-${OWNER}` }],
+  ["patch", `/api/users/${OTHER}/job-preferences/preferences-${OTHER}`, { emailTemplateId: "template-owner" }],
+  ["patch", `/api/cvs/cv-${OWNER}`, { label: "Mine now" }],
+  ["patch", `/api/cvs/cv-${OWNER}/parsed-data`, { name: "Someone Else" }],
+  ["post", `/api/cvs/cv-${OWNER}/reparse`],
+  ["get", `/api/cvs/cv-${OWNER}/download`],
+  ["delete", `/api/cvs/cv-${OWNER}`],
+  ["post", "/api/cover-letter/preview", { cvId: `cv-${OWNER}` }],
+  ["patch", "/api/applications/application-owner/status", { status: "interview" }],
+  ["get", "/api/applications/application-owner/events"],
+  ["post", "/api/jobs/apply", { jobTitle: "Developer", company: "Acme", applicationMethod: "email", appliedVia: "manual", cvId: `cv-${OWNER}` }],
+  ["post", "/api/jobs/apply", { jobTitle: "Developer", company: "Acme", applicationMethod: "email", appliedVia: "manual", emailTemplateId: "template-owner" }],
+  ["post", "/api/jobs/auto-apply", { jobPreferencesId: `preferences-${OWNER}` }],
+  ["post", "/api/jobs/auto-apply/preview", { jobPreferencesId: `preferences-${OWNER}` }],
+  ["get", "/api/auto-apply/runs/run-owner"],
+  ["post", "/api/auto-apply/runs/run-owner/cancel"],
+  ["post", "/api/campaigns", { name: "Copy", jobPreferencesId: `preferences-${OWNER}`, frequency: "daily", timeOfDay: "09:00", timezone: "UTC", maxApplicationsPerRun: 5 }],
+  ["get", `/api/campaigns/campaign-${OWNER}`],
+  ["patch", `/api/campaigns/campaign-${OWNER}`, { paused: true }],
+  ["patch", `/api/campaigns/campaign-${OTHER}`, { cvId: `cv-${OWNER}` }],
+  ["delete", `/api/campaigns/campaign-${OWNER}`],
+  ["patch", "/api/email-templates/template-owner", { subject: "Changed" }],
+  ["delete", "/api/email-templates/template-owner"],
+];
+
+// Routes that take no ids but must still know who is asking
+const sessionRoutes: RouteCase[] = [
+  ["get", "/api/auth/me"],
+  ["get", "/api/cover-letter/template"],
+  ["get", "/api/email-templates"],
+  ["post", "/api/jobs/search", { keywords: "developer" }],
+  ["get", "/api/auto-apply/runs"],
+  ["get", "/api/campaigns"],
+  ["get", "/api/billing/subscription"],
+  ["get", "/api/billing/invoices"],
+];
+
+// The routes start the background services; none of them should run here
+beforeAll(() => {
+  for (const service of [uploadSweeperService, billingService, autoApplyQueueService, campaignSchedulerService, inboundMailService]) {
+    vi.spyOn(service, "start").mockImplementation(() => {});
+  }
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("user-scoped routes", () => {
+  let app: express.Express;
+  let owner: request.Agent;
+  let other: request.Agent;
+
+  beforeAll(async () => {
+    seed(await hashPassword(PASSWORD));
+
+    app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+    owner = await signIn(app, OWNER);
+    other = await signIn(app, OTHER);
+  });
+
+  it.each(foreignRequests)("%s %s needs a session", async (method, url, body) => {
+    const response = await request(app)[method](url).send(body);
+    expect(response.status).toBe(401);
+  });
+
+  it.each(sessionRoutes)("%s %s needs a session", async (method, url, body) => {
+    const response = await request(app)[method](url).send(body);
+    expect(response.status).toBe(401);
+  });
+
+  it.each(foreignRequests)("%s %s is not found for another user", async (method, url, body) => {
+    const response = await other[method](url).send(body);
+    expect(response.status).toBe(404);
+  });
+
+  it("lists only the signed-in user's records", async () => {
+    const templates = await other.get("/api/email-templates");
+    expect(templates.body.templates).toEqual([]);
+
+    const campaigns = await other.get("/api/campaigns");
+    expect(campaigns.body.campaigns.map((campaign: { id: string }) => campaign.id)).toEqual([`campaign-${OTHER}`]);
+
+    const runs = await other.get("/api/auto-apply/runs");
+    expect(runs.body.runs).toEqual([]);
+  });
+
+  it("leaves the owner's records as they were", async () => {
+    const { tables } = store;
+    expect(tables.cvs.find(cv => cv.id === `cv-${OWNER}`)).toMatchObject({ label: null, parsedDataOverrides: null });
+    expect(tables.jobPreferences.find(preferences => preferences.id === `preferences-${OWNER}`)).toMatchObject({ keywords: "developer" });
+    expect(tables.applications.find(application => application.id === "application-owner")).toMatchObject({ status: "sent" });
+    expect(tables.campaigns.find(campaign => campaign.id === `campaign-${OWNER}`)).toMatchObject({ paused: false });
+    expect(tables.emailTemplates.find(template => template.id === "template-owner")).toMatchObject({ subject: "Applying" });
+    expect(tables.autoApplyRuns.find(run => run.id === "run-owner")).toMatchObject({ status: "running" });
+    expect(tables.cvs.find(cv => cv.id === `cv-${OTHER}`)).toMatchObject({ label: null });
+  });
+
+  it("still lets the owner reach them", async () => {
+    expect((await owner.get(`/api/users/${OWNER}/cvs`)).status).toBe(200);
+    expect((await owner.get(`/api/users/${OWNER}/applications`)).status).toBe(200);
+    expect((await owner.get("/api/applications/application-owner/events")).status).toBe(200);
+    expect((await owner.get(`/api/campaigns/campaign-${OWNER}`)).status).toBe(200);
+    expect((await owner.get("/api/auto-apply/runs/run-owner")).status).toBe(200);
+    expect((await owner.patch("/api/applications/application-owner/status").send({ status: "interview" })).status).toBe(200);
+  });
+});
+
+describe("sign-up", () => {
+  let app: express.Express;
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+  });
+
+  it("ignores fields that only the server sets", async () => {
+    const response = await request(app).post("/api/users/register").send({
+      email: "new@example.com",
+      username: "newcomer",
+      name: "New Comer",
+      password: PASSWORD,
+      plan: "professional",
+      coverLetterTemplate: "Hired {{job.company}}",
+      emailVerifiedAt: new Date().toISOString(),
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.user).toMatchObject({ email: "new@example.com", plan: "free", emailVerified: false });
+    expect(store.tables.users.find(user => user.email === "new@example.com")).toMatchObject({
+      username: "newcomer",
+      name: "New Comer",
+      plan: "free",
+      coverLetterTemplate: null,
+      emailVerifiedAt: null,
+    });
+  });
+});
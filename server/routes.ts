@@ -1,79 +1,255 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertJobPreferencesSchema, insertApplicationSchema } from "@shared/schema";
+import { isUniqueViolation } from "./db";
+import { registerUserSchema, loginSchema, passwordResetRequestSchema, passwordResetConfirmSchema, emailVerificationConfirmSchema, insertJobPreferencesSchema, insertApplicationSchema, parsedCvDataOverridesSchema, changePlanSchema, campaignInputSchema, coverLetterTemplateSchema, coverLetterPreviewSchema, insertEmailTemplateSchema, applicationStatusUpdateSchema, type CampaignInput } from "@shared/schema";
+import { DEFAULT_COVER_LETTER_TEMPLATE } from "@shared/coverLetter";
+import { applicationStatusLabels } from "@shared/applicationStatus";
+import { resolveCvMimeType } from "@shared/cvFormats";
+import { getEffectiveParsedData, applyParsedDataPatch } from "@shared/cvProfile";
+import { fromZodError } from "zod-validation-error";
+import passport from "passport";
+import { setupAuth, requireAuth, requireSelf, hashPassword, toPublicUser } from "./auth";
 import { jobSearchService } from "./services/jobSearch";
 import { emailService } from "./services/emailService";
 import { cvParserService } from "./services/cvParser";
+import { uploadSweeperService } from "./services/uploadSweeper";
+import { resolveApplicantName, UNKNOWN_APPLICANT_MESSAGE } from "./services/applicant";
+import { accountTokenService } from "./services/accountTokens";
+import { quotaService, QuotaError } from "./services/quota";
+import { billingService, BillingError, PaymentFailedError } from "./services/billing";
+import { autoApplyQueueService, AutoApplyError } from "./services/autoApplyQueue";
+import { autoApplyEventService } from "./services/autoApplyEvents";
+import { matchScorerService } from "./services/matchScorer";
+import { coverLetterService } from "./services/coverLetter";
+import { emailTemplateService, type RenderedEmail } from "./services/emailTemplates";
+import { TemplateError } from "./services/templateEngine";
+import { campaignSchedulerService, nextRunTime } from "./services/campaignScheduler";
+import { inboundMailService } from "./services/inboundMail";
+import { applicationStatusService, ApplicationStatusError } from "./services/applicationStatus";
+import { WebhookPayloadError, WebhookSignatureError } from "./services/paymentProvider";
+import { plans } from "@shared/plans";
+import { fileStore, readStoredFile, FileNotFoundError } from "./services/fileStore";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
-
-// Configure multer for file uploads
-const uploadDir = path.join(process.cwd(), 'uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
+import { randomBytes } from "crypto";
 
+// Configure multer for file uploads; files are kept in memory and handed to the file store
 const upload = multer({
-  dest: uploadDir,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
     console.log('File filter check:', file.mimetype, file.originalname);
-    const allowedTypes = [
-      'application/pdf', 
-      'application/msword', 
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-    ];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (resolveCvMimeType(file.originalname, file.mimetype)) {
       console.log('File type allowed');
       cb(null, true);
     } else {
       console.log('File type rejected:', file.mimetype);
-      cb(new Error('Only PDF, DOC, and DOCX files are allowed'));
+      cb(new Error('Only PDF, DOC, DOCX, ODT, RTF, TXT and Markdown files are allowed'));
     }
   }
 });
 
+const SSE_HEARTBEAT_MS = 25 * 1000;
+
+// Job used to preview a cover letter when the request does not give one
+const COVER_LETTER_SAMPLE_JOB = { title: "Software Developer", company: "Example Company" };
+
+// A campaign's profile and CV must both belong to the user; returns an error message otherwise
+async function checkCampaignReferences(userId: string, campaign: CampaignInput): Promise<string | undefined> {
+  if (!(await storage.getJobPreferences(userId, campaign.jobPreferencesId))) {
+    return "Job preferences not found";
+  }
+  if (campaign.cvId && !(await storage.getCv(userId, campaign.cvId))) {
+    return "CV not found";
+  }
+  return undefined;
+}
+
+function sendQuotaError(res: Response, error: QuotaError) {
+  const retryAfter = error.retryAfterSeconds;
+  if (retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(retryAfter));
+  }
+  return res.status(error.status).json({ message: error.message, code: error.code, quota: error.quota });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // User registration
+  setupAuth(app);
+
+  // User registration; the new user is signed in straight away
   app.post("/api/users/register", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const result = registerUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid user data", error: fromZodError(result.error).message });
+      }
       
       // Check if user already exists
-      const existingUser = await storage.getUserByEmail(userData.email);
+      const existingUser = await storage.getUserByEmail(result.data.email);
       if (existingUser) {
         return res.status(400).json({ message: "User already exists" });
       }
 
-      const user = await storage.createUser(userData);
-      res.json({ user: { id: user.id, email: user.email, username: user.username, name: user.name, plan: user.plan } });
+      const user = await storage.createUser({
+        ...result.data,
+        password: await hashPassword(result.data.password),
+      });
+
+      // The account works without it; the user can ask for another link later
+      try {
+        await accountTokenService.sendVerificationEmail(user);
+      } catch (error) {
+        console.error('Failed to send verification email:', error);
+      }
+
+      req.login(user, (error) => {
+        if (error) {
+          return res.status(500).json({ message: "Registration failed", error: error.message });
+        }
+        res.status(201).json({ user: toPublicUser(user) });
+      });
     } catch (error) {
-      res.status(400).json({ message: "Invalid user data", error: error instanceof Error ? error.message : "Unknown error" });
+      res.status(500).json({ message: "Registration failed", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
   // User login
-  app.post("/api/users/login", async (req, res) => {
-    try {
-      const { email, password } = req.body;
-      const user = await storage.getUserByEmail(email);
-      
-      if (!user || user.password !== password) {
+  app.post("/api/users/login", (req, res, next) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Email and password are required" });
+    }
+
+    passport.authenticate("local", (error: Error | null, user: Express.User | false) => {
+      if (error) {
+        return res.status(500).json({ message: "Login failed", error: error.message });
+      }
+      if (!user) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      res.json({ user: { id: user.id, email: user.email, username: user.username, name: user.name, plan: user.plan } });
+      req.login(user, (loginError) => {
+        if (loginError) {
+          return res.status(500).json({ message: "Login failed", error: loginError.message });
+        }
+        res.json({ user: toPublicUser(user) });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((error) => {
+      if (error) {
+        return res.status(500).json({ message: "Logout failed", error: error.message });
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out" });
+      });
+    });
+  });
+
+  // The signed-in user, or 401 when there is no session
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json({ user: toPublicUser(req.user!) });
+  });
+
+  // Send a new email verification link to the signed-in user
+  app.post("/api/auth/email-verification", requireAuth, async (req, res) => {
+    try {
+      if (req.user!.emailVerifiedAt) {
+        return res.status(400).json({ message: "Email address is already verified" });
+      }
+
+      await accountTokenService.sendVerificationEmail(req.user!);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send verification email", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Consume an email verification token; works without a session so the link opens anywhere
+  app.post("/api/auth/email-verification/confirm", async (req, res) => {
+    try {
+      const result = emailVerificationConfirmSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Verification token is required" });
+      }
+
+      const user = await accountTokenService.verifyEmail(result.data.token);
+      if (!user) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      res.status(500).json({ message: "Email verification failed", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Request a password reset link. The response is the same whether or not the
+  // email belongs to an account, so it cannot be used to find accounts.
+  app.post("/api/auth/password-reset", async (req, res) => {
+    try {
+      const result = passwordResetRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid email address", error: fromZodError(result.error).message });
+      }
+
+      const user = await storage.getUserByEmail(result.data.email);
+      if (user) {
+        try {
+          await accountTokenService.sendPasswordResetEmail(user);
+        } catch (error) {
+          console.error('Failed to send password reset email:', error);
+        }
+      }
+
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      res.status(500).json({ message: "Password reset request failed", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Check a reset token before showing the new-password form; does not use it up
+  app.get("/api/auth/password-reset/:token", async (req, res) => {
+    try {
+      const valid = await accountTokenService.isPasswordResetTokenValid(req.params.token);
+      if (!valid) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
+      }
+      res.json({ valid });
     } catch (error) {
-      res.status(500).json({ message: "Login failed", error: error instanceof Error ? error.message : "Unknown error" });
+      res.status(500).json({ message: "Failed to check reset link", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Set a new password with a reset token. All existing sessions are ended.
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
+    try {
+      const result = passwordResetConfirmSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid password reset", error: fromZodError(result.error).message });
+      }
+
+      const userId = await accountTokenService.consumePasswordResetToken(result.data.token);
+      if (!userId) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(userId, await hashPassword(result.data.password));
+      await storage.deleteUserSessions(userId);
+
+      res.json({ message: "Password updated. Please log in with your new password." });
+    } catch (error) {
+      res.status(500).json({ message: "Password reset failed", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
   // CV upload and parsing
-  app.post("/api/cvs/upload", upload.single('cv'), async (req, res) => {
+  app.post("/api/cvs/upload", requireAuth, upload.single('cv'), async (req, res) => {
     console.log('CV upload request received');
     console.log('File info:', req.file);
     console.log('Body:', req.body);
@@ -84,32 +260,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const { userId } = req.body;
-      if (!userId) {
-        console.log('No userId in request body');
-        return res.status(400).json({ message: "User ID is required" });
-      }
-
+      const userId = req.user!.id;
       console.log(`Processing CV upload for user: ${userId}`);
       console.log(`File: ${req.file.originalname}, Type: ${req.file.mimetype}, Size: ${req.file.size}`);
 
+      // The file filter already rejected unsupported formats
+      const mimeType = resolveCvMimeType(req.file.originalname, req.file.mimetype)!;
+
+      // Random key like multer's own filenames; the original name is kept on the record
+      const fileKey = randomBytes(16).toString('hex');
+      await fileStore.put(fileKey, req.file.buffer, mimeType);
+
       // Parse CV content
       console.log('Starting CV parsing...');
-      const parsedData = await cvParserService.parseCV(req.file.path, req.file.mimetype);
-      console.log('CV parsing completed:', parsedData);
+      const parseResult = await cvParserService.parseCV(fileKey, mimeType);
+      console.log(`CV parsing completed with status ${parseResult.status}`);
 
       console.log('Creating CV record in database...');
+      // A user's first CV becomes the default one
+      const existingCvs = await storage.getUserCvs(userId);
+
       const cv = await storage.createCv({
         userId,
-        filename: req.file.filename,
+        label: req.body.label || null,
+        isDefault: existingCvs.length === 0,
+        filename: fileKey,
         originalName: req.file.originalname,
         fileSize: req.file.size,
-        mimeType: req.file.mimetype,
-        parsedData,
+        mimeType,
+        parsedData: parseResult.data,
+        parseStatus: parseResult.status,
+        parseWarnings: parseResult.warnings,
       });
       console.log('CV record created:', cv.id);
 
-      res.json({ cv, parsedData });
+      res.json({ cv, parsedData: parseResult.data, parseStatus: parseResult.status, warnings: parseResult.warnings });
     } catch (error) {
       console.error('CV upload error:', error);
       console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
@@ -118,7 +303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user CVs
-  app.get("/api/users/:userId/cvs", async (req, res) => {
+  app.get("/api/users/:userId/cvs", requireSelf, async (req, res) => {
     try {
       const { userId } = req.params;
       const cvs = await storage.getUserCvs(userId);
@@ -128,30 +313,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Job preferences
-  app.post("/api/users/:userId/job-preferences", async (req, res) => {
+  // Rename a CV version or make it the default
+  app.patch("/api/cvs/:cvId", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.params;
-      const preferencesData = insertJobPreferencesSchema.parse({ ...req.body, userId });
-      
-      // Check if preferences already exist
-      const existingPreferences = await storage.getUserJobPreferences(userId);
-      
-      let preferences;
-      if (existingPreferences) {
-        preferences = await storage.updateJobPreferences(userId, preferencesData);
-      } else {
-        preferences = await storage.createJobPreferences(preferencesData);
+      const { cvId } = req.params;
+      const userId = req.user!.id;
+      const { label, isDefault } = req.body;
+
+      const cv = await storage.getCv(userId, cvId);
+      if (!cv) {
+        return res.status(404).json({ message: "CV not found" });
       }
 
-      res.json({ preferences });
+      let updatedCv = cv;
+      if (label !== undefined) {
+        updatedCv = await storage.updateCv(userId, cvId, { label: typeof label === 'string' && label.trim() ? label.trim() : null }) ?? updatedCv;
+      }
+      if (isDefault === true) {
+        updatedCv = await storage.setDefaultCv(userId, cvId) ?? updatedCv;
+      }
+
+      res.json({ cv: updatedCv });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update CV", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Correct the parsed CV profile by hand
+  app.patch("/api/cvs/:cvId/parsed-data", requireAuth, async (req, res) => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user!.id;
+      // userId is never taken from the body; drop it so the strict schema does not reject it
+      const { userId: _ignored, ...patch } = req.body;
+
+      const cv = await storage.getCv(userId, cvId);
+      if (!cv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+
+      const result = parsedCvDataOverridesSchema.safeParse(patch);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid parsed data", error: fromZodError(result.error).message });
+      }
+
+      const overrides = applyParsedDataPatch(cv.parsedDataOverrides, result.data);
+      const updatedCv = await storage.updateCvParsedData(userId, cvId, overrides);
+      if (!updatedCv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+      res.json({ cv: updatedCv, parsedData: getEffectiveParsedData(updatedCv) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update parsed data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Re-run extraction on a stored CV; manual corrections are kept
+  app.post("/api/cvs/:cvId/reparse", requireAuth, async (req, res) => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user!.id;
+
+      const cv = await storage.getCv(userId, cvId);
+      if (!cv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+
+      const parseResult = await cvParserService.parseCV(cv.filename, cv.mimeType);
+      const updatedCv = await storage.updateCvParseResult(userId, cvId, parseResult);
+      if (!updatedCv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+      res.json({ cv: updatedCv, parsedData: getEffectiveParsedData(updatedCv), parseStatus: parseResult.status, warnings: parseResult.warnings });
     } catch (error) {
-      res.status(400).json({ message: "Invalid preferences data", error: error instanceof Error ? error.message : "Unknown error" });
+      res.status(500).json({ message: "CV re-parse failed", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Get user job preferences
-  app.get("/api/users/:userId/job-preferences", async (req, res) => {
+  // Delete a CV version and its stored file
+  app.delete("/api/cvs/:cvId", requireAuth, async (req, res) => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user!.id;
+
+      const cv = await storage.deleteCv(userId, cvId);
+      if (!cv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+
+      try {
+        await fileStore.delete(cv.filename);
+      } catch (error) {
+        // The record is gone, so the upload sweeper will remove the file later
+        console.error(`Failed to remove CV file ${cv.filename}:`, error);
+      }
+
+      // Keep a default CV as long as the user has any left
+      if (cv.isDefault) {
+        const nextDefault = await storage.getDefaultCv(userId);
+        if (nextDefault) {
+          await storage.setDefaultCv(userId, nextDefault.id);
+        }
+      }
+
+      res.json({ message: "CV deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete CV", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Download the original CV file
+  app.get("/api/cvs/:cvId/download", requireAuth, async (req, res) => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user!.id;
+
+      const cv = await storage.getCv(userId, cvId);
+      if (!cv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+
+      let stream;
+      try {
+        stream = await fileStore.getStream(cv.filename);
+      } catch (error) {
+        if (error instanceof FileNotFoundError) {
+          return res.status(404).json({ message: "CV file not found" });
+        }
+        throw error;
+      }
+
+      res.attachment(cv.originalName);
+      res.type(cv.mimeType);
+      stream.on('error', (error) => {
+        console.error(`Failed to stream CV file ${cv.filename}:`, error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download CV", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Job preference profiles
+  app.get("/api/users/:userId/job-preferences", requireSelf, async (req, res) => {
     try {
       const { userId } = req.params;
       const preferences = await storage.getUserJobPreferences(userId);
@@ -161,8 +466,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/users/:userId/job-preferences", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const validation = insertJobPreferencesSchema.safeParse({ ...req.body, userId });
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+      if (validation.data.cvId && !(await storage.getCv(userId, validation.data.cvId))) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+      if (validation.data.emailTemplateId && !(await storage.getEmailTemplate(userId, validation.data.emailTemplateId))) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      const preferences = await storage.createJobPreferences(validation.data);
+      res.status(201).json({ preferences });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You already have a profile with this name" });
+      }
+      res.status(500).json({ message: "Failed to save job preferences", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.patch("/api/users/:userId/job-preferences/:id", requireSelf, async (req, res) => {
+    try {
+      const { userId, id } = req.params;
+      const validation = insertJobPreferencesSchema.omit({ userId: true }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+      if (validation.data.cvId && !(await storage.getCv(userId, validation.data.cvId))) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+      if (validation.data.emailTemplateId && !(await storage.getEmailTemplate(userId, validation.data.emailTemplateId))) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      const preferences = await storage.updateJobPreferences(userId, id, validation.data);
+      if (!preferences) {
+        return res.status(404).json({ message: "Job preferences not found" });
+      }
+      res.json({ preferences });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You already have a profile with this name" });
+      }
+      res.status(500).json({ message: "Failed to save job preferences", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/users/:userId/job-preferences/:id", requireSelf, async (req, res) => {
+    try {
+      const { userId, id } = req.params;
+      // Campaigns need their profile; they have to be moved or deleted first
+      const campaignCount = (await storage.getUserCampaigns(userId)).filter(campaign => campaign.jobPreferencesId === id).length;
+      if (campaignCount > 0) {
+        return res.status(409).json({ message: `This profile is used by ${campaignCount} campaign${campaignCount === 1 ? "" : "s"}` });
+      }
+
+      const preferences = await storage.deleteJobPreferences(userId, id);
+      if (!preferences) {
+        return res.status(404).json({ message: "Job preferences not found" });
+      }
+      res.json({ message: "Job preferences deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete job preferences", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Cover letter template
+  app.get("/api/cover-letter/template", requireAuth, (req, res) => {
+    const template = req.user!.coverLetterTemplate;
+    res.json({ template: template ?? DEFAULT_COVER_LETTER_TEMPLATE, isDefault: !template });
+  });
+
+  app.put("/api/cover-letter/template", requireAuth, async (req, res) => {
+    try {
+      const validation = coverLetterTemplateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      const { template } = validation.data;
+      if (template !== null) {
+        coverLetterService.compile(template);
+      }
+      await storage.updateUserCoverLetterTemplate(req.user!.id, template);
+      res.json({ template: template ?? DEFAULT_COVER_LETTER_TEMPLATE, isDefault: template === null });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message, line: error.line });
+      }
+      res.status(500).json({ message: "Failed to save cover letter template", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Renders a template, saved or unsaved, for a CV and a job without sending anything
+  app.post("/api/cover-letter/preview", requireAuth, async (req, res) => {
+    try {
+      const validation = coverLetterPreviewSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+      const { template, cvId, job = COVER_LETTER_SAMPLE_JOB } = validation.data;
+
+      const cv = cvId ? await storage.getCv(req.user!.id, cvId) : await storage.getDefaultCv(req.user!.id);
+      if (!cv) {
+        return res.status(cvId ? 404 : 400).json({ message: cvId ? "CV not found" : "No CV found. Please upload a CV first." });
+      }
+
+      const compiled = template !== undefined ? coverLetterService.compile(template) : coverLetterService.templateFor(req.user!);
+      const cvData = getEffectiveParsedData(cv);
+      const match = matchScorerService.canScore(cvData) ? matchScorerService.score(cvData, job) : null;
+      const input = { cv, user: req.user!, job, match };
+
+      res.json({
+        letter: coverLetterService.render(compiled, input),
+        variables: coverLetterService.variables(input),
+      });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message, line: error.line });
+      }
+      res.status(500).json({ message: "Failed to preview cover letter", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Application email templates
+  app.get("/api/email-templates", requireAuth, async (req, res) => {
+    try {
+      const templates = await storage.getUserEmailTemplates(req.user!.id);
+      res.json({ templates });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email templates", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/email-templates", requireAuth, async (req, res) => {
+    try {
+      const validation = insertEmailTemplateSchema.safeParse({ ...req.body, userId: req.user!.id });
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      emailTemplateService.compile(validation.data);
+      const template = await storage.createEmailTemplate(validation.data);
+      res.status(201).json({ template });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message, line: error.line, field: error.field });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You already have a template with this name" });
+      }
+      res.status(500).json({ message: "Failed to save email template", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Every saved change bumps the version recorded with later applications
+  app.patch("/api/email-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const validation = insertEmailTemplateSchema.omit({ userId: true }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      const existing = await storage.getEmailTemplate(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+      emailTemplateService.compile({ ...existing, ...validation.data });
+
+      const template = await storage.updateEmailTemplate(req.user!.id, req.params.id, validation.data);
+      if (!template) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+      res.json({ template });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message, line: error.line, field: error.field });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You already have a template with this name" });
+      }
+      res.status(500).json({ message: "Failed to save email template", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Profiles and past applications using it fall back to the built-in template
+  app.delete("/api/email-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const template = await storage.deleteEmailTemplate(req.user!.id, req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+      res.json({ message: "Email template deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete email template", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Search jobs
-  app.post("/api/jobs/search", async (req, res) => {
+  app.post("/api/jobs/search", requireAuth, async (req, res) => {
     try {
       const { keywords, location, limit = 20 } = req.body;
       
@@ -178,28 +685,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Apply to job
-  app.post("/api/jobs/apply", async (req, res) => {
+  app.post("/api/jobs/apply", requireAuth, async (req, res) => {
     try {
-      const applicationData = insertApplicationSchema.parse(req.body);
+      // The applicant is always the signed-in user, whatever the body says
+      const applicationData = insertApplicationSchema.parse({ ...req.body, userId: req.user!.id });
       
       // Get user CV for application
-      const userCvs = await storage.getUserCvs(applicationData.userId);
-      if (userCvs.length === 0) {
+      // Use the CV the application names, otherwise the user's default CV
+      const selectedCv = applicationData.cvId
+        ? await storage.getCv(applicationData.userId, applicationData.cvId)
+        : await storage.getDefaultCv(applicationData.userId);
+      if (applicationData.cvId && !selectedCv) {
+        return res.status(404).json({ message: "CV not found" });
+      }
+      if (!selectedCv) {
         return res.status(400).json({ message: "No CV found. Please upload a CV first." });
       }
 
-      const latestCv = userCvs[0]; // Use the most recent CV
+      // A draft is saved without sending, to be sent or applied for elsewhere later
+      const isDraft = applicationData.status === 'draft';
+      if (!isDraft) {
+        await quotaService.assertAvailable(req.user!);
+      }
+
+      // Scored for later comparison with response rates; never blocks a manual application
+      const cvData = getEffectiveParsedData(selectedCv);
+      const match = matchScorerService.canScore(cvData)
+        ? matchScorerService.score(cvData, { title: applicationData.jobTitle, description: applicationData.jobDescription })
+        : null;
+
+      // The template the application names, otherwise the default profile's
+      const emailTemplateId = applicationData.emailTemplateId ?? (await storage.getDefaultJobPreferences(applicationData.userId))?.emailTemplateId;
+      const emailTemplate = emailTemplateId ? await storage.getEmailTemplate(applicationData.userId, emailTemplateId) : undefined;
+      if (applicationData.emailTemplateId && !emailTemplate) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      const details = (applicationData.applicationData ?? {}) as { email?: string; customMessage?: string; jobUrl?: string };
+      let coverLetter: string | undefined;
+      let message: RenderedEmail | undefined;
+      const replyToken = inboundMailService.newReplyToken();
 
       // Apply via email
-      if (applicationData.applicationMethod === 'email') {
+      if (applicationData.applicationMethod === 'email' && !isDraft) {
+        const user = await storage.getUser(applicationData.userId);
+        const applicantName = resolveApplicantName(selectedCv, user);
+        if (!applicantName) {
+          return res.status(400).json({ message: UNKNOWN_APPLICANT_MESSAGE });
+        }
+
+        // A message written for this application wins over the template
+        const job = { title: applicationData.jobTitle, company: applicationData.company };
+        coverLetter = details.customMessage || coverLetterService.render(coverLetterService.templateFor(req.user!), {
+          cv: selectedCv,
+          user,
+          job,
+          match,
+        });
+        message = emailTemplateService.render(emailTemplate ?? null, {
+          cv: selectedCv,
+          user,
+          job,
+          match,
+          coverLetter,
+          jobUrl: details.jobUrl,
+        });
+
         const emailResult = await emailService.sendJobApplication({
-          to: (applicationData.applicationData as any)?.email || '',
+          to: details.email || '',
           jobTitle: applicationData.jobTitle,
           company: applicationData.company,
-          cvPath: path.join(uploadDir, latestCv.filename),
-          cvOriginalName: latestCv.originalName,
-          applicantName: (latestCv.parsedData as any)?.name || 'Job Applicant',
-          customMessage: (applicationData.applicationData as any)?.customMessage,
+          cvContent: await readStoredFile(selectedCv.filename),
+          cvOriginalName: selectedCv.originalName,
+          applicantName,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          ...inboundMailService.threadingHeaders(replyToken),
         });
 
         if (!emailResult.success) {
@@ -207,15 +769,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const application = await storage.createApplication(applicationData);
+      const application = await storage.createApplication({
+        ...applicationData,
+        status: isDraft ? 'draft' : 'sent',
+        cvId: selectedCv.id,
+        applicationData: {
+          ...details,
+          coverLetter,
+          message: message && { subject: message.subject, text: message.text, html: message.html },
+        },
+        matchScore: match?.score ?? null,
+        matchExplanation: match,
+        emailTemplateId: message?.templateId ?? null,
+        emailTemplateVersion: message?.templateVersion ?? null,
+        replyToken: message ? replyToken : null,
+      }, 'user');
       res.json({ application });
     } catch (error) {
+      if (error instanceof QuotaError) {
+        return sendQuotaError(res, error);
+      }
       res.status(500).json({ message: "Job application failed", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
   // Get user applications
-  app.get("/api/users/:userId/applications", async (req, res) => {
+  app.get("/api/users/:userId/applications", requireSelf, async (req, res) => {
     try {
       const { userId } = req.params;
       const { limit } = req.query;
@@ -227,8 +806,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move an application along its lifecycle, e.g. to interview or offer. A
+  // note alone, with the current status, is recorded without a change.
+  app.patch("/api/applications/:id/status", requireAuth, async (req, res) => {
+    try {
+      const validation = applicationStatusUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+      const { status, notes } = validation.data;
+
+      const existing = await storage.getApplication(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      let application;
+      if (status === existing.status) {
+        if (!notes) {
+          return res.status(409).json({ message: `The application is already ${applicationStatusLabels[status].toLowerCase()}` });
+        }
+        application = await applicationStatusService.record(req.user!.id, existing.id, { source: "user", notes });
+      } else {
+        application = await applicationStatusService.transition(req.user!.id, existing.id, status, { source: "user", notes });
+      }
+      res.json({ application });
+    } catch (error) {
+      if (error instanceof ApplicationStatusError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update application status", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Status history of an application, oldest first
+  app.get("/api/applications/:id/events", requireAuth, async (req, res) => {
+    try {
+      const application = await storage.getApplication(req.user!.id, req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const events = await storage.getApplicationEvents(req.user!.id, application.id);
+      res.json({ events });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch application history", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Get user application statistics
-  app.get("/api/users/:userId/stats", async (req, res) => {
+  app.get("/api/users/:userId/stats", requireSelf, async (req, res) => {
     try {
       const { userId } = req.params;
       const stats = await storage.getUserApplicationStats(userId);
@@ -238,95 +864,310 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Auto-apply to jobs
-  app.post("/api/jobs/auto-apply", async (req, res) => {
+  // Remaining applications in the current plan window
+  app.get("/api/users/:userId/quota", requireSelf, async (req, res) => {
     try {
-      const { userId, maxApplications = 5 } = req.body;
+      const quota = await quotaService.getQuota(req.user!);
+      res.json({ quota });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quota", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
 
-      // Get user preferences
-      const preferences = await storage.getUserJobPreferences(userId);
-      if (!preferences) {
-        return res.status(400).json({ message: "Please set job preferences first" });
+  // Queue an auto-apply run; progress is polled from /api/auto-apply/runs/:id
+  app.post("/api/jobs/auto-apply", requireAuth, async (req, res) => {
+    try {
+      const requested = req.body.maxApplications !== undefined ? parseInt(req.body.maxApplications, 10) : undefined;
+      if (requested !== undefined && (isNaN(requested) || requested < 1)) {
+        return res.status(400).json({ message: "maxApplications must be a positive number" });
       }
 
-      // Get user CV
-      const userCvs = await storage.getUserCvs(userId);
-      if (userCvs.length === 0) {
-        return res.status(400).json({ message: "No CV found. Please upload a CV first." });
+      const jobPreferencesId = typeof req.body.jobPreferencesId === "string" ? req.body.jobPreferencesId : undefined;
+      const run = await autoApplyQueueService.enqueue(req.user!, { maxApplications: requested, jobPreferencesId });
+      res.status(202).json({ run });
+    } catch (error) {
+      if (error instanceof QuotaError) {
+        return sendQuotaError(res, error);
+      }
+      if (error instanceof AutoApplyError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      res.status(500).json({ message: "Auto-apply failed", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
 
-      // Search for jobs based on preferences
-      const jobs = await jobSearchService.searchJobs(
-        preferences.keywords || '',
-        preferences.locations?.[0] || '',
-        maxApplications * 2 // Get more jobs to filter from
-      );
+  // Dry run: which jobs auto-apply would apply to with a profile, and why the rest are skipped
+  app.post("/api/jobs/auto-apply/preview", requireAuth, async (req, res) => {
+    try {
+      const jobPreferencesId = typeof req.body.jobPreferencesId === "string" ? req.body.jobPreferencesId : undefined;
+      const preview = await autoApplyQueueService.preview(req.user!, jobPreferencesId);
+      res.json({ preview });
+    } catch (error) {
+      if (error instanceof AutoApplyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to preview auto-apply", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
 
-      const applications = [];
-      let applicationCount = 0;
+  // Live progress for the signed-in user's runs, as Server-Sent Events
+  app.get("/api/auto-apply/events", requireAuth, (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Stop proxies such as nginx from buffering the stream
+    });
+    res.write("retry: 5000\n\n");
 
-      for (const job of jobs) {
-        if (applicationCount >= maxApplications) break;
+    const unsubscribe = autoApplyEventService.subscribe(req.user!.id, (event) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comments keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
 
-        try {
-          // Check if we already applied to this job
-          const existingApplications = await storage.getUserApplications(userId);
-          const alreadyApplied = existingApplications.some(app => 
-            app.company === job.company && app.jobTitle === job.title
-          );
-
-          if (alreadyApplied) continue;
-
-          // Apply via email if contact email is available
-          if (job.contactEmail) {
-            const application = await storage.createApplication({
-              userId,
-              jobTitle: job.title,
-              company: job.company,
-              jobDescription: job.description,
-              jobUrl: job.url,
-              applicationMethod: 'email',
-              appliedVia: job.source,
-              applicationData: {
-                email: job.contactEmail,
-                autoApplied: true,
-              },
-            });
-
-            // Send email application
-            const latestCv = userCvs[0];
-            const emailResult = await emailService.sendJobApplication({
-              to: job.contactEmail,
-              jobTitle: job.title,
-              company: job.company,
-              cvPath: path.join(uploadDir, latestCv.filename),
-              cvOriginalName: latestCv.originalName,
-              applicantName: (latestCv.parsedData as any)?.name || 'Job Applicant',
-            });
-
-            if (emailResult.success) {
-              applications.push(application);
-              applicationCount++;
-            } else {
-              // Update application status to failed
-              await storage.updateApplicationStatus(application.id, 'failed', { error: emailResult.error });
-            }
-          }
-        } catch (error) {
-          console.error('Error applying to job:', error);
-        }
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.get("/api/auto-apply/runs", requireAuth, async (req, res) => {
+    try {
+      const runs = await storage.getUserAutoApplyRuns(req.user!.id);
+      res.json({ runs });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch auto-apply runs", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/auto-apply/runs/:id", requireAuth, async (req, res) => {
+    try {
+      const run = await storage.getAutoApplyRun(req.user!.id, req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Auto-apply run not found" });
+      }
+
+      const items = await storage.getAutoApplyItems(run.id);
+      res.json({ run, items });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch auto-apply run", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/auto-apply/runs/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const run = await autoApplyQueueService.cancel(req.user!.id, req.params.id);
+      res.json({ run });
+    } catch (error) {
+      if (error instanceof AutoApplyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel auto-apply run", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Scheduled auto-apply campaigns
+  app.get("/api/campaigns", requireAuth, async (req, res) => {
+    try {
+      const campaigns = await storage.getUserCampaigns(req.user!.id);
+      res.json({ campaigns });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaigns", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/campaigns", requireAuth, async (req, res) => {
+    try {
+      const validation = campaignInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      const userId = req.user!.id;
+      const data = validation.data;
+      const referenceError = await checkCampaignReferences(userId, data);
+      if (referenceError) {
+        return res.status(404).json({ message: referenceError });
       }
 
-      res.json({ 
-        message: `Successfully applied to ${applications.length} jobs`,
-        applications: applications.length,
-        jobsFound: jobs.length,
+      const campaign = await storage.createCampaign({
+        ...data,
+        userId,
+        dayOfWeek: data.frequency === "weekly" ? data.dayOfWeek : null,
+        nextRunAt: data.paused ? null : nextRunTime(data, new Date()),
       });
+      res.status(201).json({ campaign });
     } catch (error) {
-      res.status(500).json({ message: "Auto-apply failed", error: error instanceof Error ? error.message : "Unknown error" });
+      res.status(500).json({ message: "Failed to create campaign", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
+  // A campaign with its run history
+  app.get("/api/campaigns/:id", requireAuth, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.user!.id, req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const runs = await storage.getCampaignRuns(campaign.id);
+      res.json({ campaign, runs });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaign", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Edit a campaign; `{ "paused": true }` pauses it and `{ "paused": false }` resumes it
+  app.patch("/api/campaigns/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const existing = await storage.getCampaign(userId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const validation = campaignInputSchema.safeParse({
+        name: existing.name,
+        jobPreferencesId: existing.jobPreferencesId,
+        cvId: existing.cvId,
+        frequency: existing.frequency,
+        dayOfWeek: existing.dayOfWeek,
+        timeOfDay: existing.timeOfDay,
+        timezone: existing.timezone,
+        maxApplicationsPerRun: existing.maxApplicationsPerRun,
+        paused: existing.paused,
+        ...req.body,
+      });
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      const data = validation.data;
+      const referenceError = await checkCampaignReferences(userId, data);
+      if (referenceError) {
+        return res.status(404).json({ message: referenceError });
+      }
+
+      const campaign = await storage.updateCampaign(userId, existing.id, {
+        ...data,
+        dayOfWeek: data.frequency === "weekly" ? data.dayOfWeek : null,
+        nextRunAt: data.paused ? null : nextRunTime(data, new Date()),
+      });
+      res.json({ campaign });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update campaign", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/campaigns/:id", requireAuth, async (req, res) => {
+    try {
+      const campaign = await storage.deleteCampaign(req.user!.id, req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      res.json({ message: "Campaign deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete campaign", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Billing
+  app.get("/api/billing/plans", (_req, res) => {
+    res.json({ plans: Object.values(plans) });
+  });
+
+  app.get("/api/billing/subscription", requireAuth, async (req, res) => {
+    try {
+      res.json(await billingService.getOverview(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch subscription", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/billing/invoices", requireAuth, async (req, res) => {
+    try {
+      const invoices = await storage.getUserInvoices(req.user!.id);
+      res.json({ invoices });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invoices", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/billing/subscription/upgrade", requireAuth, async (req, res) => {
+    try {
+      const validation = changePlanSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      const { subscription, invoice } = await billingService.upgrade(req.user!, validation.data.plan);
+      res.json({ subscription, invoice });
+    } catch (error) {
+      if (error instanceof PaymentFailedError) {
+        return res.status(error.status).json({ message: error.message, invoice: error.invoice });
+      }
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upgrade plan", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/billing/subscription/downgrade", requireAuth, async (req, res) => {
+    try {
+      const validation = changePlanSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
+
+      const subscription = await billingService.downgrade(req.user!, validation.data.plan);
+      res.json({ subscription });
+    } catch (error) {
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to downgrade plan", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/billing/subscription/cancel", requireAuth, async (req, res) => {
+    try {
+      const subscription = await billingService.cancel(req.user!);
+      res.json({ subscription });
+    } catch (error) {
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel subscription", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Payment provider callbacks; authenticated by signature rather than session
+  app.post("/api/billing/webhooks/:provider", async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.rawBody)) {
+        return res.status(400).json({ message: "Webhook body must be JSON" });
+      }
+      await billingService.handleWebhook(req.params.provider, req.rawBody, req.headers);
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof WebhookSignatureError || error instanceof WebhookPayloadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to process webhook", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  uploadSweeperService.start();
+  billingService.start();
+  autoApplyQueueService.start();
+  campaignSchedulerService.start();
+  inboundMailService.start();
+
   const httpServer = createServer(app);
   return httpServer;
 }
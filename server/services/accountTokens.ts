@@ -0,0 +1,83 @@
+import { createHash, randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { emailService } from './emailService';
+import { escapeHtml } from './templateEngine';
+import type { User } from '@shared/schema';
+
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+class AccountTokenService {
+  private get appUrl(): string {
+    return (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, '');
+  }
+
+  async sendVerificationEmail(user: User): Promise<void> {
+    const token = this.generateToken();
+    await storage.createEmailVerificationToken(user.id, hashToken(token), new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    const link = `${this.appUrl}/verify-email?token=${token}`;
+    await this.send(user, 'Confirm your email address', [
+      'Please confirm your email address by opening the link below.',
+      link,
+      'The link expires in 24 hours.',
+    ], link);
+  }
+
+  /** Returns the verified user, or undefined if the token is unknown, used or expired */
+  async verifyEmail(token: string): Promise<User | undefined> {
+    const record = await storage.consumeEmailVerificationToken(hashToken(token));
+    if (!record) return undefined;
+    return await storage.markEmailVerified(record.userId);
+  }
+
+  async sendPasswordResetEmail(user: User): Promise<void> {
+    const token = this.generateToken();
+    await storage.createPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + PASSWORD_RESET_TTL_MS));
+
+    const link = `${this.appUrl}/reset-password?token=${token}`;
+    await this.send(user, 'Reset your password', [
+      'Someone asked to reset the password for your account. If that was you, open the link below to choose a new password.',
+      link,
+      'The link expires in 1 hour. If you did not ask for a reset you can ignore this email.',
+    ], link);
+  }
+
+  async isPasswordResetTokenValid(token: string): Promise<boolean> {
+    return (await storage.getValidPasswordResetToken(hashToken(token))) !== undefined;
+  }
+
+  /** Returns the user id the token was issued for, or undefined if it cannot be used */
+  async consumePasswordResetToken(token: string): Promise<string | undefined> {
+    const record = await storage.consumePasswordResetToken(hashToken(token));
+    return record?.userId;
+  }
+
+  private generateToken(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private async send(user: User, subject: string, paragraphs: string[], link: string): Promise<void> {
+    const greeting = `Hi ${user.name || user.username},`;
+    const result = await emailService.sendEmail({
+      to: user.email,
+      subject,
+      text: [greeting, ...paragraphs].join('\n\n'),
+      html: [greeting, ...paragraphs]
+        .map(paragraph => paragraph === link
+          ? `<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>`
+          : `<p>${escapeHtml(paragraph)}</p>`)
+        .join('\n'),
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || `Failed to send "${subject}" email`);
+    }
+  }
+}
+
+export const accountTokenService = new AccountTokenService();
@@ -0,0 +1,15 @@
+import type { Cv, User } from "@shared/schema";
+
+export const UNKNOWN_APPLICANT_MESSAGE = "We could not read your name from your CV. Please upload a readable CV or add your name to your profile before applying.";
+
+// A failed parse has no trustworthy name, so the account name is used instead.
+// A name the user entered by hand always wins.
+export function resolveApplicantName(cv: Cv, user?: User): string | undefined {
+  if (cv.parsedDataOverrides?.name) {
+    return cv.parsedDataOverrides.name;
+  }
+  if (cv.parseStatus !== 'failed' && cv.parsedData?.name) {
+    return cv.parsedData.name;
+  }
+  return user?.name || undefined;
+}
@@ -0,0 +1,54 @@
+import { storage, type ApplicationStatusChange } from '../storage';
+import { applicationStatusLabels, canTransition } from '@shared/applicationStatus';
+import type { Application, ApplicationStatus } from '@shared/schema';
+
+export class ApplicationStatusError extends Error {
+  constructor(message: string, public readonly status = 409) {
+    super(message);
+    this.name = 'ApplicationStatusError';
+  }
+}
+
+type ChangeOptions = Omit<ApplicationStatusChange, 'from' | 'to'>;
+
+/**
+ * Moves applications through their lifecycle. Every change is checked
+ * against the transitions in shared/applicationStatus.ts and recorded in
+ * the application's event history.
+ */
+class ApplicationStatusService {
+  async transition(userId: string, applicationId: string, to: ApplicationStatus, options: ChangeOptions): Promise<Application> {
+    const application = await this.find(userId, applicationId);
+    const from = application.status;
+    if (!canTransition(from, to)) {
+      throw new ApplicationStatusError(
+        `An application that is ${applicationStatusLabels[from].toLowerCase()} cannot be marked ${applicationStatusLabels[to].toLowerCase()}`,
+      );
+    }
+    return await this.apply(application, { from, to, ...options });
+  }
+
+  /** Records a note or a reply without changing the status */
+  async record(userId: string, applicationId: string, options: ChangeOptions): Promise<Application> {
+    const application = await this.find(userId, applicationId);
+    return await this.apply(application, { from: application.status, to: application.status, ...options });
+  }
+
+  private async find(userId: string, applicationId: string): Promise<Application> {
+    const application = await storage.getApplication(userId, applicationId);
+    if (!application) {
+      throw new ApplicationStatusError('Application not found', 404);
+    }
+    return application;
+  }
+
+  private async apply(application: Application, change: ApplicationStatusChange): Promise<Application> {
+    const updated = await storage.updateApplicationStatus(application.userId, application.id, change);
+    if (!updated) {
+      throw new ApplicationStatusError('The application was updated at the same time; please try again');
+    }
+    return updated;
+  }
+}
+
+export const applicationStatusService = new ApplicationStatusService();
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import type { AutoApplyEvent } from '@shared/autoApplyEvents';
+
+// Omit applied to each member of the union, so each event type keeps its own fields
+type WithoutTimestamp<E> = E extends unknown ? Omit<E, 'at'> : never;
+type EventPayload = WithoutTimestamp<AutoApplyEvent>;
+
+/**
+ * In-process fan-out of auto-apply progress to the user's open event streams.
+ * Events are only delivered to streams connected to the instance running the
+ * worker; the dashboard still polls run progress, so nothing is lost if a
+ * stream misses events.
+ */
+class AutoApplyEventService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open dashboard tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(userId: string, event: EventPayload): void {
+    this.emitter.emit(userId, { ...event, at: new Date().toISOString() } as AutoApplyEvent);
+  }
+
+  /** Returns a function that removes the listener */
+  subscribe(userId: string, listener: (event: AutoApplyEvent) => void): () => void {
+    this.emitter.on(userId, listener);
+    return () => {
+      this.emitter.off(userId, listener);
+    };
+  }
+}
+
+export const autoApplyEventService = new AutoApplyEventService();
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Application, Cv, JobPreferences, User } from "@shared/schema";
+import type { JobListing } from "./jobFilter";
+
+const { applications, searchResults } = vi.hoisted(() => ({
+  applications: [] as Application[],
+  searchResults: [] as JobListing[],
+}));
+
+vi.mock("../db", () => ({ db: {}, isUniqueViolation: () => false }));
+
+vi.mock("../storage", () => ({
+  storage: {
+    getDefaultJobPreferences: async (userId: string) => ({
+      id: "preferences-1",
+      userId,
+      keywords: "engineer",
+      locations: [],
+      industries: [],
+      salaryMin: null,
+      salaryMax: null,
+      jobTypes: [],
+      remotePreference: "any",
+      excludedCompanies: [],
+      excludedKeywords: [],
+      minMatchScore: 0,
+      cvId: null,
+    }) as JobPreferences,
+    getDefaultCv: async (userId: string) => ({ id: "cv-1", userId, parsedData: {}, parsedDataOverrides: null }) as Cv,
+    // Like the real one, only the latest applications
+    getUserApplications: async (userId: string, limit = 50) =>
+      applications.filter(application => application.userId === userId).slice(-limit).reverse(),
+    getApplicationsForJobs: async (userId: string, jobs: { company: string; title: string }[]) =>
+      applications.filter(application => application.userId === userId
+        && jobs.some(job => job.company === application.company && job.title === application.jobTitle)),
+  },
+}));
+
+vi.mock("./jobSearch", () => ({
+  jobSearchService: { searchJobs: async () => searchResults },
+}));
+
+vi.mock("./quota", () => ({
+  quotaService: { getQuota: async () => ({ limit: 200, used: 0, remaining: 100 }) },
+}));
+
+import { autoApplyQueueService } from "./autoApplyQueue";
+
+const user = { id: "user-1", plan: "pro" } as User;
+
+function job(index: number): JobListing {
+  return { title: `Engineer ${index}`, company: `Company ${index}`, source: "test", contactEmail: `jobs@company${index}.example` };
+}
+
+beforeEach(() => {
+  applications.length = 0;
+  searchResults.length = 0;
+});
+
+describe("autoApplyQueueService duplicate check", () => {
+  it("skips jobs applied to before the latest 50 applications", async () => {
+    for (let index = 1; index <= 60; index++) {
+      applications.push({ id: `application-${index}`, userId: user.id, jobTitle: `Engineer ${index}`, company: `Company ${index}`, status: "sent" } as Application);
+    }
+    applications.push({ id: "application-other", userId: "user-2", jobTitle: "Engineer 61", company: "Company 61", status: "sent" } as Application);
+    searchResults.push(job(1), job(5), job(60), job(61));
+
+    const preview = await autoApplyQueueService.preview(user);
+
+    const skipped = Object.fromEntries(preview.jobs.map(entry => [entry.title, entry.skipReason]));
+    expect(skipped).toEqual({
+      "Engineer 1": "duplicate",
+      "Engineer 5": "duplicate",
+      "Engineer 60": "duplicate",
+      // Another user's application does not count
+      "Engineer 61": null,
+    });
+  });
+});
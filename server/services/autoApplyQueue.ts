@@ -0,0 +1,564 @@
+import { storage } from '../storage';
+import { isUniqueViolation } from '../db';
+import { jobSearchService } from './jobSearch';
+import { emailService } from './emailService';
+import { quotaService } from './quota';
+import { readStoredFile } from './fileStore';
+import { resolveApplicantName, UNKNOWN_APPLICANT_MESSAGE } from './applicant';
+import { autoApplyEventService } from './autoApplyEvents';
+import { filterJob, jobFiltersFrom, type JobListing, type JobRejection } from './jobFilter';
+import { matchScorerService } from './matchScorer';
+import { coverLetterService } from './coverLetter';
+import { emailTemplateService, type RenderedEmail } from './emailTemplates';
+import { inboundMailService } from './inboundMail';
+import { applicationStatusService, ApplicationStatusError } from './applicationStatus';
+import type { CompiledTemplate } from './templateEngine';
+import { getEffectiveParsedData } from '@shared/cvProfile';
+import type { AutoApplyItem, AutoApplyPreview, AutoApplyRun, AutoApplyRunStatus, Cv, EmailTemplate, JobFilters, JobPreferences, MatchExplanation, User } from '@shared/schema';
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// A run whose worker stops renewing this lease is picked up by another worker
+const LEASE_MS = 2 * 60 * 1000;
+const MAX_SEARCH_ATTEMPTS = 3;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+export class AutoApplyError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'AutoApplyError';
+  }
+}
+
+// 1 minute, then 2, then 4...
+function retryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export interface EnqueueOptions {
+  maxApplications?: number;
+  jobPreferencesId?: string;
+  cvId?: string;
+  campaignId?: string;
+}
+
+interface JobDecision {
+  job: JobListing;
+  rejection: JobRejection | null;
+  match: MatchExplanation | null;
+}
+
+// Best matches first; unscored jobs keep their search order at the end
+function byMatchScore(a: JobDecision, b: JobDecision): number {
+  return (b.match?.score ?? -1) - (a.match?.score ?? -1);
+}
+
+interface RunContext {
+  user: User;
+  cv: Cv;
+  cvContent: Buffer;
+  applicantName: string;
+  coverLetterTemplate: CompiledTemplate;
+  emailTemplate: EmailTemplate | null; // Null for the built-in template
+}
+
+/**
+ * Persistent queue for auto-apply batches. Runs and their items live in
+ * Postgres, so progress survives client disconnects and server restarts.
+ */
+class AutoApplyQueueService {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Validates everything a run needs up front, so the user hears about a
+   * missing CV or preferences straight away rather than from a failed run.
+   */
+  async enqueue(user: User, options: EnqueueOptions = {}): Promise<AutoApplyRun> {
+    if (await storage.getActiveAutoApplyRun(user.id)) {
+      throw new AutoApplyError('An auto-apply run is already in progress', 409);
+    }
+
+    // Without an explicit number, use whatever is left of the plan quota
+    const requested = options.maxApplications;
+    const quota = await quotaService.assertAvailable(user, requested ?? 1);
+    const maxApplications = Math.min(requested ?? quota.remaining, quota.remaining);
+
+    const preferences = await this.resolvePreferences(user.id, options.jobPreferencesId);
+
+    const selectedCv = await this.resolveCv(user.id, options.cvId ?? preferences.cvId);
+    if (!resolveApplicantName(selectedCv, user)) {
+      throw new AutoApplyError(UNKNOWN_APPLICANT_MESSAGE);
+    }
+
+    let run: AutoApplyRun;
+    try {
+      run = await storage.createAutoApplyRun({
+        userId: user.id,
+        cvId: selectedCv.id,
+        campaignId: options.campaignId,
+        jobPreferencesId: preferences.id,
+        keywords: preferences.keywords || '',
+        locations: preferences.locations,
+        filters: jobFiltersFrom(preferences),
+        emailTemplateId: preferences.emailTemplateId,
+        maxApplications,
+      });
+    } catch (error) {
+      // Another run was queued between the check above and the insert
+      if (isUniqueViolation(error)) {
+        throw new AutoApplyError('An auto-apply run is already in progress', 409);
+      }
+      throw error;
+    }
+
+    autoApplyEventService.publish(user.id, { type: 'run_status', runId: run.id, status: run.status });
+    setImmediate(() => this.poll());
+    return run;
+  }
+
+  /**
+   * Dry run: searches with a profile and reports which jobs a run would apply
+   * to and why the others would be skipped. Nothing is stored or sent.
+   */
+  async preview(user: User, jobPreferencesId?: string): Promise<AutoApplyPreview> {
+    const preferences = await this.resolvePreferences(user.id, jobPreferencesId);
+    const cv = await this.resolveCv(user.id, preferences.cvId);
+    const quota = await quotaService.getQuota(user);
+
+    const jobs = await this.searchAllLocations(preferences.keywords || '', preferences.locations, Math.max(quota.remaining, 1) * 2);
+    const decisions = await this.evaluateJobs(user.id, jobs, jobFiltersFrom(preferences), cv);
+
+    let accepted = 0;
+    return {
+      jobPreferencesId: preferences.id,
+      remaining: quota.remaining,
+      jobs: decisions.sort(byMatchScore).map(({ job, rejection, match }) => {
+        if (!rejection && accepted >= quota.remaining) {
+          rejection = { reason: 'limit_reached', detail: 'Over the remaining application quota' };
+        } else if (!rejection) {
+          accepted++;
+        }
+        return {
+          title: job.title,
+          company: job.company,
+          location: job.location ?? null,
+          url: job.url ?? null,
+          source: job.source,
+          willApply: !rejection,
+          matchScore: match?.score ?? null,
+          matchReasons: match?.reasons ?? [],
+          skipReason: rejection?.reason ?? null,
+          skipDetail: rejection?.detail ?? null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Stops a queued or running run. An email already being sent finishes, but
+   * nothing else is sent.
+   */
+  async cancel(userId: string, runId: string): Promise<AutoApplyRun> {
+    const run = await storage.getAutoApplyRun(userId, runId);
+    if (!run) {
+      throw new AutoApplyError('Auto-apply run not found', 404);
+    }
+
+    const canceled = await storage.cancelAutoApplyRun(userId, runId);
+    if (!canceled) {
+      throw new AutoApplyError(`This run has already ${run.status === 'canceled' ? 'been cancelled' : 'finished'}`, 409);
+    }
+    await this.closePendingItems(canceled, 'canceled');
+    autoApplyEventService.publish(userId, { type: 'run_status', runId, status: canceled.status });
+    return canceled;
+  }
+
+  /** Processes claimable runs until none are left; overlapping calls are ignored */
+  async poll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let run: AutoApplyRun | undefined;
+      while ((run = await storage.claimAutoApplyRun(new Date(), new Date(Date.now() + LEASE_MS)))) {
+        autoApplyEventService.publish(run.userId, { type: 'run_status', runId: run.id, status: run.status });
+        try {
+          await this.processRun(run);
+        } catch (error) {
+          console.error(`Auto-apply run ${run.id} failed:`, error);
+          await this.finish(run, 'failed', errorMessage(error));
+        }
+      }
+    } catch (error) {
+      console.error('Auto-apply queue poll failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processRun(run: AutoApplyRun): Promise<void> {
+    const user = await storage.getUser(run.userId);
+    if (!user) {
+      await this.finish(run, 'failed', 'User no longer exists');
+      return;
+    }
+
+    const cv = run.cvId ? await storage.getCv(user.id, run.cvId) : undefined;
+    if (!cv) {
+      await this.finish(run, 'failed', 'The CV for this run was deleted');
+      return;
+    }
+    const applicantName = resolveApplicantName(cv, user);
+    if (!applicantName) {
+      await this.finish(run, 'failed', UNKNOWN_APPLICANT_MESSAGE);
+      return;
+    }
+
+    if (run.jobsFound === null && !(await this.searchJobs(run, user, cv))) {
+      return;
+    }
+
+    const context: RunContext = {
+      user,
+      cv,
+      applicantName,
+      cvContent: await readStoredFile(cv.filename),
+      coverLetterTemplate: coverLetterService.templateFor(user),
+      // A template deleted since the run was queued leaves this null
+      emailTemplate: run.emailTemplateId ? (await storage.getEmailTemplate(user.id, run.emailTemplateId)) ?? null : null,
+    };
+
+    let reportedRemaining: number | undefined;
+    while (true) {
+      // Re-read each time round so cancellation and counts are current
+      const current = await storage.getAutoApplyRun(user.id, run.id);
+      if (!current || current.status !== 'running') return;
+
+      const quota = await quotaService.getQuota(user);
+      if (quota.remaining !== reportedRemaining) {
+        autoApplyEventService.publish(user.id, { type: 'quota', runId: run.id, quota });
+        reportedRemaining = quota.remaining;
+      }
+
+      if (current.sentCount >= current.maxApplications || quota.remaining <= 0) {
+        const skipped = await this.closePendingItems(current, 'skipped');
+        await storage.incrementAutoApplyRunCounts(run.id, { skipped });
+        await this.finish(run, 'completed');
+        return;
+      }
+
+      const item = await storage.getNextAutoApplyItem(run.id, new Date());
+      if (!item) {
+        const nextAttemptAt = await storage.getNextAutoApplyRetryAt(run.id);
+        if (nextAttemptAt) {
+          // Only retries are left; hand the run back until the first is due
+          await storage.updateAutoApplyRun(run.id, { nextAttemptAt, lockedUntil: null });
+        } else {
+          await this.finish(run, 'completed');
+        }
+        return;
+      }
+
+      await storage.updateAutoApplyRun(run.id, { lockedUntil: new Date(Date.now() + LEASE_MS) });
+      await this.sendItem(current, item, context);
+    }
+  }
+
+  // The given profile, or the user's first when none is given
+  private async resolvePreferences(userId: string, jobPreferencesId?: string): Promise<JobPreferences> {
+    const preferences = jobPreferencesId
+      ? await storage.getJobPreferences(userId, jobPreferencesId)
+      : await storage.getDefaultJobPreferences(userId);
+    if (!preferences) {
+      throw new AutoApplyError(jobPreferencesId ? 'Job preferences not found' : 'Please set job preferences first', jobPreferencesId ? 404 : 400);
+    }
+    return preferences;
+  }
+
+  // The CV asked for, otherwise the default CV
+  private async resolveCv(userId: string, cvId: string | null | undefined): Promise<Cv> {
+    const preferredCv = cvId ? await storage.getCv(userId, cvId) : undefined;
+    const cv = preferredCv ?? await storage.getDefaultCv(userId);
+    if (!cv) {
+      throw new AutoApplyError('No CV found. Please upload a CV first.');
+    }
+    return cv;
+  }
+
+  // Returns false when the run has to wait for a search retry or has failed
+  private async searchJobs(run: AutoApplyRun, user: User, cv: Cv): Promise<boolean> {
+    let jobs: JobListing[];
+    try {
+      // Get more jobs than needed since some are filtered out
+      jobs = await this.searchAllLocations(run.keywords, run.locations, run.maxApplications * 2);
+    } catch (error) {
+      const attemptCount = run.attemptCount + 1;
+      if (attemptCount >= MAX_SEARCH_ATTEMPTS) {
+        await this.finish(run, 'failed', `Job search failed: ${errorMessage(error)}`);
+      } else {
+        await storage.updateAutoApplyRun(run.id, {
+          attemptCount,
+          error: errorMessage(error),
+          nextAttemptAt: new Date(Date.now() + retryDelay(attemptCount)),
+          lockedUntil: null,
+        });
+      }
+      return false;
+    }
+
+    const decisions = await this.evaluateJobs(user.id, jobs, run.filters, cv);
+    const completedAt = new Date();
+
+    // Skipped jobs are kept too, so the run shows why each was left out
+    await storage.createAutoApplyItems(decisions.map(({ job, rejection, match }) => ({
+      runId: run.id,
+      status: rejection ? 'skipped' as const : 'pending' as const,
+      jobTitle: job.title,
+      company: job.company,
+      jobDescription: job.description,
+      jobUrl: job.url,
+      jobLocation: job.location,
+      contactEmail: job.contactEmail,
+      source: job.source,
+      skipReason: rejection?.reason,
+      skipDetail: rejection?.detail,
+      matchScore: match?.score,
+      matchExplanation: match,
+      completedAt: rejection ? completedAt : undefined,
+    })));
+    for (const { job, rejection } of decisions) {
+      if (rejection) {
+        autoApplyEventService.publish(user.id, {
+          type: 'job_skipped',
+          runId: run.id,
+          jobTitle: job.title,
+          company: job.company,
+          reason: rejection.reason,
+          detail: rejection.detail,
+        });
+      }
+    }
+
+    const queued = decisions.filter(decision => !decision.rejection).length;
+    await storage.updateAutoApplyRun(run.id, {
+      jobsFound: jobs.length,
+      skippedCount: jobs.length - queued,
+      error: null,
+    });
+    autoApplyEventService.publish(user.id, { type: 'jobs_found', runId: run.id, jobsFound: jobs.length, queued });
+    return true;
+  }
+
+  // Duplicates and jobs without a contact address are skipped before the
+  // profile's own rules, then the match score threshold. Runs queued before
+  // filtering existed have no filters. A CV with nothing extracted from it
+  // cannot be scored, so the threshold is not applied.
+  private async evaluateJobs(userId: string, jobs: JobListing[], filters: JobFilters | null, cv: Cv): Promise<JobDecision[]> {
+    const existingApplications = await storage.getApplicationsForJobs(userId, jobs);
+    const alreadyApplied = (job: JobListing) => existingApplications.some(app =>
+      app.company === job.company && app.jobTitle === job.title
+    );
+
+    const cvData = getEffectiveParsedData(cv);
+    const matches = matchScorerService.canScore(cvData) ? matchScorerService.scoreJobs(cvData, jobs) : [];
+
+    return jobs.map((job, index): JobDecision => {
+      const match = matches[index] ?? null;
+      if (alreadyApplied(job)) {
+        return { job, match, rejection: { reason: 'duplicate', detail: 'Already applied' } };
+      }
+      // Only jobs with a contact address can be applied to by email
+      if (!job.contactEmail) {
+        return { job, match, rejection: { reason: 'no_contact_email', detail: 'No contact email address' } };
+      }
+      const rejection = filters ? filterJob(job, filters) : null;
+      if (!rejection && match && filters && match.score < filters.minMatchScore) {
+        return { job, match, rejection: { reason: 'low_match_score', detail: `Match score ${match.score} is below ${filters.minMatchScore}` } };
+      }
+      return { job, match, rejection };
+    });
+  }
+
+  // Searches each of the profile's locations (or anywhere, when it has none)
+  // and merges the results, dropping listings found in more than one
+  private async searchAllLocations(keywords: string, locations: string[], limit: number): Promise<JobListing[]> {
+    const seen = new Set<string>();
+    const jobs: JobListing[] = [];
+
+    for (const location of locations.length > 0 ? locations : ['']) {
+      const found: JobListing[] = await jobSearchService.searchJobs(keywords, location, limit);
+      for (const job of found) {
+        const key = job.url || `${job.company}|${job.title}`.toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        jobs.push(job);
+      }
+    }
+    return jobs;
+  }
+
+  // Items waiting on a retry already have a queued application, which would
+  // otherwise keep counting against the quota
+  private async closePendingItems(run: AutoApplyRun, status: 'skipped' | 'canceled'): Promise<number> {
+    const closed = await storage.closePendingAutoApplyItems(run.id, status);
+    for (const item of closed) {
+      if (item.applicationId) {
+        await this.settleApplication(run.userId, item.applicationId, 'failed', { error: item.error || 'Auto-apply run stopped' });
+      }
+      if (status === 'skipped') {
+        autoApplyEventService.publish(run.userId, {
+          type: 'job_skipped',
+          runId: run.id,
+          jobTitle: item.jobTitle,
+          company: item.company,
+          reason: 'limit_reached',
+          detail: item.skipDetail,
+        });
+      }
+    }
+    return closed.length;
+  }
+
+  private async finish(run: AutoApplyRun, status: Extract<AutoApplyRunStatus, 'completed' | 'failed'>, error?: string): Promise<void> {
+    const finished = await storage.finishAutoApplyRun(run.id, status, error);
+    if (finished) {
+      autoApplyEventService.publish(run.userId, { type: 'run_status', runId: run.id, status: finished.status, error: finished.error });
+    }
+  }
+
+  // Moves a queued application on; one the user withdrew in the meantime stays withdrawn
+  private async settleApplication(userId: string, applicationId: string, to: 'sent' | 'failed', data?: Record<string, unknown>): Promise<void> {
+    try {
+      await applicationStatusService.transition(userId, applicationId, to, { source: 'auto_apply', data });
+    } catch (error) {
+      if (!(error instanceof ApplicationStatusError)) throw error;
+      console.warn(`Application ${applicationId} was not marked ${to}: ${error.message}`);
+    }
+  }
+
+  private async sendItem(run: AutoApplyRun, item: AutoApplyItem, context: RunContext): Promise<void> {
+    const { user, cv } = context;
+
+    // Retries reuse the application created by the first attempt, and send
+    // the email stored with it
+    let applicationId = item.applicationId;
+    let coverLetter: string | undefined;
+    let message: Pick<RenderedEmail, 'subject' | 'text' | 'html'> | undefined;
+    let replyToken: string | null = null;
+    if (applicationId) {
+      const application = await storage.getApplication(user.id, applicationId);
+      // Withdrawn by the user while waiting for the retry
+      if (application && application.status !== 'queued') {
+        await storage.updateAutoApplyItem(item.id, { status: 'canceled', nextAttemptAt: null, completedAt: new Date() });
+        return;
+      }
+      message = (application?.applicationData as { message?: RenderedEmail } | null)?.message;
+      replyToken = application?.replyToken ?? null;
+    }
+    if (!applicationId || !message) {
+      const job = { title: item.jobTitle, company: item.company, location: item.jobLocation };
+      coverLetter = coverLetterService.render(context.coverLetterTemplate, { cv, user, job, match: item.matchExplanation });
+      const rendered = emailTemplateService.render(context.emailTemplate, {
+        cv,
+        user,
+        job,
+        match: item.matchExplanation,
+        coverLetter,
+        jobUrl: item.jobUrl,
+      });
+      message = { subject: rendered.subject, text: rendered.text, html: rendered.html };
+    }
+    if (!applicationId) {
+      replyToken = inboundMailService.newReplyToken();
+      const application = await storage.createApplication({
+        userId: user.id,
+        cvId: cv.id,
+        jobTitle: item.jobTitle,
+        company: item.company,
+        jobDescription: item.jobDescription,
+        jobUrl: item.jobUrl,
+        applicationMethod: 'email',
+        appliedVia: item.source,
+        status: 'queued',
+        matchScore: item.matchScore,
+        matchExplanation: item.matchExplanation,
+        emailTemplateId: context.emailTemplate?.id ?? null,
+        emailTemplateVersion: context.emailTemplate?.version ?? null,
+        replyToken,
+        applicationData: {
+          email: item.contactEmail,
+          coverLetter,
+          message,
+          autoApplied: true,
+          autoApplyRunId: run.id,
+        },
+      }, 'auto_apply');
+      applicationId = application.id;
+    }
+
+    let failure: string | undefined;
+    try {
+      const emailResult = await emailService.sendJobApplication({
+        to: item.contactEmail!,
+        jobTitle: item.jobTitle,
+        company: item.company,
+        cvContent: context.cvContent,
+        cvOriginalName: cv.originalName,
+        applicantName: context.applicantName,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        ...(replyToken ? inboundMailService.threadingHeaders(replyToken) : {}),
+      });
+      if (!emailResult.success) {
+        failure = emailResult.error || 'Email could not be sent';
+      }
+    } catch (error) {
+      failure = errorMessage(error);
+    }
+
+    const attemptCount = item.attemptCount + 1;
+    if (!failure) {
+      await this.settleApplication(user.id, applicationId, 'sent');
+      await storage.updateAutoApplyItem(item.id, { status: 'sent', applicationId, attemptCount, error: null, nextAttemptAt: null, completedAt: new Date() });
+      await storage.incrementAutoApplyRunCounts(run.id, { sent: 1 });
+      autoApplyEventService.publish(user.id, { type: 'application_sent', runId: run.id, applicationId, jobTitle: item.jobTitle, company: item.company });
+      return;
+    }
+
+    const willRetry = attemptCount < MAX_SEND_ATTEMPTS;
+    if (willRetry) {
+      await storage.updateAutoApplyItem(item.id, {
+        applicationId,
+        attemptCount,
+        error: failure,
+        nextAttemptAt: new Date(Date.now() + retryDelay(attemptCount)),
+      });
+    } else {
+      await this.settleApplication(user.id, applicationId, 'failed', { error: failure });
+      await storage.updateAutoApplyItem(item.id, { status: 'failed', applicationId, attemptCount, error: failure, nextAttemptAt: null, completedAt: new Date() });
+      await storage.incrementAutoApplyRunCounts(run.id, { failed: 1 });
+    }
+    autoApplyEventService.publish(user.id, { type: 'application_failed', runId: run.id, jobTitle: item.jobTitle, company: item.company, error: failure, willRetry });
+  }
+}
+
+export const autoApplyQueueService = new AutoApplyQueueService();
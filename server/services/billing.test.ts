@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Invoice, InsertInvoice, InsertSubscription, Subscription, User } from "@shared/schema";
+
+const { users, subscriptions, invoices } = vi.hoisted(() => {
+  process.env.PAYMENT_PROVIDER = "fake";
+  process.env.PAYMENT_WEBHOOK_SECRET = "test-webhook-secret";
+  return {
+    users: new Map<string, User>(),
+    subscriptions: new Map<string, Subscription>(),
+    invoices: new Map<string, Invoice>(),
+  };
+});
+
+vi.mock("../storage", () => {
+  let nextId = 1;
+  const byCreation = <T extends { createdAt: Date }>(rows: Iterable<T>) =>
+    Array.from(rows).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  return {
+    storage: {
+      getUser: async (id: string) => users.get(id),
+      updateUserPlan: async (id: string, plan: User["plan"]) => {
+        const user = { ...users.get(id)!, plan };
+        users.set(id, user);
+        return user;
+      },
+      createSubscription: async (data: InsertSubscription) => {
+        const subscription = {
+          id: `subscription-${nextId++}`,
+          status: "incomplete",
+          cancelAtPeriodEnd: false,
+          pendingPlan: null,
+          graceUntil: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        } as Subscription;
+        subscriptions.set(subscription.id, subscription);
+        return subscription;
+      },
+      getSubscription: async (id: string) => subscriptions.get(id),
+      getUserSubscription: async (userId: string) =>
+        byCreation(subscriptions.values()).find(subscription => subscription.userId === userId && subscription.status !== "canceled"),
+      updateSubscription: async (id: string, data: Partial<InsertSubscription>) => {
+        const subscription = { ...subscriptions.get(id)!, ...data } as Subscription;
+        subscriptions.set(id, subscription);
+        return subscription;
+      },
+      getSubscriptionsDueForRenewal: async (now: Date) => Array.from(subscriptions.values())
+        .filter(subscription => subscription.status === "active" && subscription.currentPeriodEnd <= now),
+      getSubscriptionsPastGrace: async (now: Date) => Array.from(subscriptions.values())
+        .filter(subscription => subscription.status === "past_due" && subscription.graceUntil && subscription.graceUntil <= now),
+      createInvoice: async (data: InsertInvoice) => {
+        const invoice = {
+          id: `invoice-${nextId++}`,
+          status: "open",
+          providerPaymentId: null,
+          failureReason: null,
+          attemptCount: 0,
+          nextAttemptAt: null,
+          paidAt: null,
+          createdAt: new Date(),
+          ...data,
+        } as Invoice;
+        invoices.set(invoice.id, invoice);
+        return invoice;
+      },
+      getInvoiceByProviderPaymentId: async (providerPaymentId: string) =>
+        Array.from(invoices.values()).find(invoice => invoice.providerPaymentId === providerPaymentId),
+      updateInvoice: async (id: string, data: Partial<InsertInvoice>) => {
+        const invoice = { ...invoices.get(id)!, ...data } as Invoice;
+        invoices.set(id, invoice);
+        return invoice;
+      },
+      getInvoicesDueForRetry: async (now: Date) => Array.from(invoices.values()).filter(invoice =>
+        invoice.status === "failed" && invoice.reason === "subscription_cycle" && invoice.nextAttemptAt && invoice.nextAttemptAt <= now),
+      getOpenInvoice: async (subscriptionId: string) =>
+        Array.from(invoices.values()).find(invoice => invoice.subscriptionId === subscriptionId && invoice.status === "open"),
+      voidUnpaidInvoices: async (subscriptionId: string) => {
+        for (const invoice of Array.from(invoices.values())) {
+          if (invoice.subscriptionId === subscriptionId && (invoice.status === "open" || invoice.status === "failed")) {
+            invoices.set(invoice.id, { ...invoice, status: "void", nextAttemptAt: null });
+          }
+        }
+      },
+    },
+  };
+});
+
+import { billingService } from "./billing";
+import { FAKE_SIGNATURE_HEADER, signFakeWebhook, WebhookPayloadError, WebhookSignatureError } from "./paymentProvider";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date("2026-03-02T09:00:00Z");
+
+function addUser(plan: User["plan"]): User {
+  const user = { id: "user-1", email: "jane@example.com", name: "Jane Doe", plan } as User;
+  users.set(user.id, user);
+  return user;
+}
+
+// An active subscription whose current period started on `start`
+function addSubscription(plan: Subscription["plan"], start: Date, days = 7): Subscription {
+  const subscription = {
+    id: "subscription-active",
+    userId: "user-1",
+    plan,
+    status: "active",
+    provider: "fake",
+    currentPeriodStart: start,
+    currentPeriodEnd: new Date(start.getTime() + days * DAY_MS),
+    cancelAtPeriodEnd: false,
+    pendingPlan: null,
+    graceUntil: null,
+    createdAt: start,
+    updatedAt: start,
+  } as Subscription;
+  subscriptions.set(subscription.id, subscription);
+  return subscription;
+}
+
+function renewalInvoice(): Invoice {
+  const [invoice] = Array.from(invoices.values()).filter(invoice => invoice.reason === "subscription_cycle");
+  return invoice;
+}
+
+function webhook(body: string, secret = "test-webhook-secret", timestamp?: number) {
+  return [Buffer.from(body), { [FAKE_SIGNATURE_HEADER]: signFakeWebhook(body, secret, timestamp) }] as const;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  delete process.env.FAKE_PAYMENT_OUTCOME;
+  delete process.env.BILLING_GRACE_DAYS;
+  users.clear();
+  subscriptions.clear();
+  invoices.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("billingService.upgrade", () => {
+  it("credits the unused part of the current period", async () => {
+    const user = addUser("starter");
+    addSubscription("starter", new Date(START.getTime() - 3.5 * DAY_MS));
+
+    const { subscription, invoice } = await billingService.upgrade(user, "professional");
+
+    expect(invoice.lineItems).toEqual([
+      { description: "Professional plan (1 week)", amountCents: 10000 },
+      { description: "Unused time on Starter plan", amountCents: -2500 },
+    ]);
+    expect(invoice).toMatchObject({ status: "paid", amountCents: 7500, reason: "subscription_update" });
+    expect(subscription).toMatchObject({
+      plan: "professional",
+      status: "active",
+      currentPeriodStart: START,
+      currentPeriodEnd: new Date(START.getTime() + 7 * DAY_MS),
+    });
+    expect(users.get(user.id)?.plan).toBe("professional");
+  });
+
+  it("charges the full price when coming from the free plan", async () => {
+    const user = addUser("free");
+
+    const { invoice } = await billingService.upgrade(user, "starter");
+
+    expect(invoice).toMatchObject({ status: "paid", amountCents: 5000, reason: "subscription_create" });
+    expect(invoice.lineItems).toHaveLength(1);
+  });
+});
+
+describe("billingService.processRenewals", () => {
+  it("keeps the plan during the grace period and retries the payment a day later", async () => {
+    addUser("professional");
+    addSubscription("professional", new Date(START.getTime() - 7 * DAY_MS));
+
+    process.env.FAKE_PAYMENT_OUTCOME = "fail";
+    await billingService.processRenewals();
+
+    expect(renewalInvoice()).toMatchObject({ status: "failed", attemptCount: 1, nextAttemptAt: new Date(START.getTime() + DAY_MS) });
+    expect(subscriptions.get("subscription-active")).toMatchObject({
+      status: "past_due",
+      graceUntil: new Date(START.getTime() + 3 * DAY_MS),
+    });
+    expect(users.get("user-1")?.plan).toBe("professional");
+
+    // Not due yet
+    await billingService.processRenewals(new Date(START.getTime() + DAY_MS / 2));
+    expect(renewalInvoice().attemptCount).toBe(1);
+
+    process.env.FAKE_PAYMENT_OUTCOME = "succeed";
+    vi.setSystemTime(START.getTime() + DAY_MS);
+    await billingService.processRenewals();
+
+    expect(renewalInvoice()).toMatchObject({ status: "paid", attemptCount: 2, nextAttemptAt: null });
+    expect(subscriptions.get("subscription-active")).toMatchObject({
+      status: "active",
+      graceUntil: null,
+      currentPeriodStart: START,
+      currentPeriodEnd: new Date(START.getTime() + 7 * DAY_MS),
+    });
+    expect(users.get("user-1")?.plan).toBe("professional");
+  });
+
+  it("moves the user to the free plan when the grace period runs out", async () => {
+    addUser("professional");
+    addSubscription("professional", new Date(START.getTime() - 7 * DAY_MS));
+    process.env.FAKE_PAYMENT_OUTCOME = "fail";
+
+    for (let day = 0; day <= 3; day++) {
+      vi.setSystemTime(START.getTime() + day * DAY_MS);
+      await billingService.processRenewals();
+    }
+
+    expect(renewalInvoice()).toMatchObject({ status: "void", nextAttemptAt: null });
+    expect(subscriptions.get("subscription-active")?.status).toBe("canceled");
+    expect(users.get("user-1")?.plan).toBe("free");
+  });
+});
+
+describe("billingService.handleWebhook", () => {
+  async function pendingUpgrade(): Promise<Invoice> {
+    process.env.FAKE_PAYMENT_OUTCOME = "pending";
+    const { invoice } = await billingService.upgrade(addUser("free"), "starter");
+    expect(invoice.status).toBe("open");
+    return invoice;
+  }
+
+  it("settles a pending payment from a signed webhook", async () => {
+    const invoice = await pendingUpgrade();
+
+    await billingService.handleWebhook("fake", ...webhook(JSON.stringify({
+      id: "event-1",
+      type: "payment.succeeded",
+      providerPaymentId: invoice.providerPaymentId,
+    })));
+
+    expect(invoices.get(invoice.id)?.status).toBe("paid");
+    expect(subscriptions.get(invoice.subscriptionId)?.status).toBe("active");
+    expect(users.get("user-1")?.plan).toBe("starter");
+  });
+
+  it.each([
+    ["a different secret", () => webhook(JSON.stringify({ id: "event-1", type: "payment.succeeded" }), "wrong-secret")],
+    ["an old timestamp", () => webhook("{}", undefined, Math.floor(START.getTime() / 1000) - 10 * 60)],
+    ["no signature", () => [Buffer.from("{}"), {}] as const],
+  ])("rejects a webhook signed with %s", async (_case, build) => {
+    const invoice = await pendingUpgrade();
+
+    await expect(billingService.handleWebhook("fake", ...build())).rejects.toBeInstanceOf(WebhookSignatureError);
+    expect(invoices.get(invoice.id)?.status).toBe("open");
+  });
+
+  it("rejects a webhook whose body was changed after signing", async () => {
+    const invoice = await pendingUpgrade();
+    const [, headers] = webhook(JSON.stringify({ id: "event-1", type: "payment.failed", providerPaymentId: invoice.providerPaymentId }));
+    const body = Buffer.from(JSON.stringify({ id: "event-1", type: "payment.succeeded", providerPaymentId: invoice.providerPaymentId }));
+
+    await expect(billingService.handleWebhook("fake", body, headers)).rejects.toBeInstanceOf(WebhookSignatureError);
+    expect(invoices.get(invoice.id)?.status).toBe("open");
+  });
+
+  it.each([
+    ["not JSON", "payment succeeded"],
+    ["without an id", JSON.stringify({ type: "payment.succeeded", providerPaymentId: "fake_pay_1" })],
+    ["without a payment id", JSON.stringify({ id: "event-1", type: "payment.succeeded" })],
+  ])("rejects a signed body that is %s as a bad payload", async (_case, body) => {
+    await expect(billingService.handleWebhook("fake", ...webhook(body))).rejects.toBeInstanceOf(WebhookPayloadError);
+  });
+
+  it("acknowledges event types it does not use without changing anything", async () => {
+    const invoice = await pendingUpgrade();
+
+    await expect(billingService.handleWebhook("fake", ...webhook(JSON.stringify({
+      id: "event-2",
+      type: "customer.updated",
+    })))).resolves.toBeUndefined();
+    expect(invoices.get(invoice.id)?.status).toBe("open");
+  });
+});
@@ -0,0 +1,382 @@
+import type { IncomingHttpHeaders } from 'http';
+import { storage } from '../storage';
+import { createPaymentProvider, type PaymentProvider } from './paymentProvider';
+import { comparePlans, getPlan, plans, type PlanDefinition, type PlanId, type QuotaPeriod } from '@shared/plans';
+import type { Invoice, InvoiceLineItem, Subscription, User } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETRY_INTERVAL_MS = DAY_MS;
+const RENEWAL_INTERVAL_MS = 60 * 60 * 1000;
+
+export class BillingError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
+
+export class PaymentFailedError extends BillingError {
+  constructor(message: string, public readonly invoice: Invoice) {
+    super(message, 402);
+    this.name = 'PaymentFailedError';
+  }
+}
+
+export interface BillingOverview {
+  plan: PlanDefinition;
+  subscription: Subscription | null;
+  invoices: Invoice[];
+}
+
+function addBillingPeriod(start: Date, period: QuotaPeriod): Date {
+  const end = new Date(start);
+  if (period === 'week') {
+    end.setDate(end.getDate() + 7);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+  }
+  return end;
+}
+
+function periodLabel(plan: PlanDefinition): string {
+  return `${plan.name} plan (1 ${plan.period})`;
+}
+
+/**
+ * Credit for the unused part of the current period, in cents. An upgrade
+ * starts a new period straight away, so this is taken off its first invoice.
+ */
+function unusedCredit(subscription: Subscription, now: Date): number {
+  const plan = getPlan(subscription.plan);
+  const total = subscription.currentPeriodEnd.getTime() - subscription.currentPeriodStart.getTime();
+  const remaining = subscription.currentPeriodEnd.getTime() - now.getTime();
+  if (total <= 0 || remaining <= 0) return 0;
+  return Math.round(plan.priceCents * Math.min(1, remaining / total));
+}
+
+class BillingService {
+  private providerInstance: PaymentProvider | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  // Created on first use so a missing provider only breaks billing, not startup
+  private get provider(): PaymentProvider {
+    if (!this.providerInstance) {
+      this.providerInstance = createPaymentProvider();
+    }
+    return this.providerInstance;
+  }
+
+  private get graceDays(): number {
+    return parseInt(process.env.BILLING_GRACE_DAYS || '', 10) || 3;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processRenewals().catch(error => console.error('Billing renewal run failed:', error));
+    }, RENEWAL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  async getOverview(user: User): Promise<BillingOverview> {
+    const [subscription, invoices] = await Promise.all([
+      storage.getUserSubscription(user.id),
+      storage.getUserInvoices(user.id),
+    ]);
+    return { plan: getPlan(user.plan), subscription: subscription ?? null, invoices };
+  }
+
+  /**
+   * Moves the user to a higher plan straight away. The new plan's period
+   * starts now and unused time on a current paid plan is credited.
+   */
+  async upgrade(user: User, planId: PlanId): Promise<{ subscription: Subscription; invoice: Invoice }> {
+    const plan = plans[planId];
+    if (comparePlans(planId, getPlan(user.plan).id) <= 0) {
+      throw new BillingError(`${plan.name} is not an upgrade from your current plan`);
+    }
+
+    let subscription = await storage.getUserSubscription(user.id);
+    if (subscription?.status === 'incomplete') {
+      throw new BillingError('A payment for your subscription is still being processed', 409);
+    }
+    if (subscription?.status === 'past_due') {
+      throw new BillingError('Your last payment failed. It will be retried automatically before your plan can change.', 409);
+    }
+    if (subscription && await storage.getOpenInvoice(subscription.id)) {
+      throw new BillingError('A payment for your subscription is still being processed', 409);
+    }
+
+    const now = new Date();
+    const lineItems: InvoiceLineItem[] = [{ description: periodLabel(plan), amountCents: plan.priceCents }];
+
+    if (subscription) {
+      const credit = unusedCredit(subscription, now);
+      if (credit > 0) {
+        lineItems.push({ description: `Unused time on ${getPlan(subscription.plan).name} plan`, amountCents: -credit });
+      }
+    } else {
+      subscription = await storage.createSubscription({
+        userId: user.id,
+        plan: planId,
+        status: 'incomplete',
+        provider: this.provider.name,
+        currentPeriodStart: now,
+        currentPeriodEnd: addBillingPeriod(now, plan.period),
+      });
+    }
+
+    const invoice = await storage.createInvoice({
+      userId: user.id,
+      subscriptionId: subscription.id,
+      plan: planId,
+      reason: subscription.status === 'incomplete' ? 'subscription_create' : 'subscription_update',
+      amountCents: Math.max(0, lineItems.reduce((sum, item) => sum + item.amountCents, 0)),
+      currency: plan.currency,
+      lineItems,
+      periodStart: now,
+      periodEnd: addBillingPeriod(now, plan.period),
+    });
+
+    const chargedInvoice = await this.chargeInvoice(user, invoice);
+    if (chargedInvoice.status === 'failed') {
+      throw new PaymentFailedError(chargedInvoice.failureReason || 'Payment failed', chargedInvoice);
+    }
+
+    return { subscription: (await storage.getSubscription(subscription.id))!, invoice: chargedInvoice };
+  }
+
+  /** Schedules a move to a lower paid plan at the end of the current period */
+  async downgrade(user: User, planId: PlanId): Promise<Subscription> {
+    if (planId === 'free') {
+      return await this.cancel(user);
+    }
+    if (comparePlans(planId, getPlan(user.plan).id) >= 0) {
+      throw new BillingError(`${plans[planId].name} is not a downgrade from your current plan`);
+    }
+
+    const subscription = await storage.getUserSubscription(user.id);
+    if (!subscription || subscription.status !== 'active') {
+      throw new BillingError('You do not have an active subscription to downgrade', 409);
+    }
+
+    return await storage.updateSubscription(subscription.id, { pendingPlan: planId, cancelAtPeriodEnd: false });
+  }
+
+  /**
+   * Active subscriptions run until the period they were paid for ends. One
+   * that was never paid, or is past due, ends straight away.
+   */
+  async cancel(user: User): Promise<Subscription> {
+    const subscription = await storage.getUserSubscription(user.id);
+    if (!subscription) {
+      throw new BillingError('You do not have a subscription to cancel', 409);
+    }
+
+    if (subscription.status === 'active') {
+      return await storage.updateSubscription(subscription.id, { cancelAtPeriodEnd: true, pendingPlan: null });
+    }
+    return await this.endSubscription(subscription);
+  }
+
+  /** Verifies and applies a payment provider webhook */
+  async handleWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<void> {
+    if (providerName !== this.provider.name) {
+      throw new BillingError(`Unknown payment provider: ${providerName}`, 404);
+    }
+
+    // Throws WebhookSignatureError before anything is read from the body
+    const event = this.provider.parseWebhook(rawBody, headers);
+    if (!event) return;
+
+    const invoice = await storage.getInvoiceByProviderPaymentId(event.providerPaymentId);
+    if (!invoice) {
+      console.warn(`Webhook ${event.id} refers to unknown payment ${event.providerPaymentId}`);
+      return;
+    }
+
+    if (event.type === 'payment.succeeded') {
+      await this.applyPaidInvoice(invoice);
+    } else {
+      await this.applyFailedInvoice(invoice, event.failureReason || 'Payment failed');
+    }
+  }
+
+  /**
+   * Renews subscriptions whose period has ended, retries failed renewals and
+   * ends subscriptions whose grace period ran out. Safe to run repeatedly.
+   */
+  async processRenewals(now = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const subscription of await storage.getSubscriptionsDueForRenewal(now)) {
+        try {
+          await this.renew(subscription);
+        } catch (error) {
+          console.error(`Failed to renew subscription ${subscription.id}:`, error);
+        }
+      }
+
+      for (const invoice of await storage.getInvoicesDueForRetry(now)) {
+        const subscription = await storage.getSubscription(invoice.subscriptionId);
+        const user = await storage.getUser(invoice.userId);
+        if (!subscription || subscription.status !== 'past_due' || !user) {
+          await storage.updateInvoice(invoice.id, { nextAttemptAt: null });
+          continue;
+        }
+        try {
+          await this.chargeInvoice(user, invoice);
+        } catch (error) {
+          console.error(`Failed to retry invoice ${invoice.id}:`, error);
+        }
+      }
+
+      for (const subscription of await storage.getSubscriptionsPastGrace(now)) {
+        console.log(`Grace period ended for subscription ${subscription.id}, moving user to the free plan`);
+        await this.endSubscription(subscription);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async renew(subscription: Subscription): Promise<void> {
+    if (subscription.cancelAtPeriodEnd) {
+      await this.endSubscription(subscription);
+      return;
+    }
+    // A renewal payment is still in flight; its webhook settles the period
+    if (await storage.getOpenInvoice(subscription.id)) return;
+
+    const user = await storage.getUser(subscription.userId);
+    if (!user) return;
+
+    // A scheduled downgrade takes effect with the new period, paid or not
+    if (subscription.pendingPlan) {
+      subscription = await storage.updateSubscription(subscription.id, { plan: subscription.pendingPlan, pendingPlan: null });
+      await storage.updateUserPlan(user.id, subscription.plan);
+    }
+
+    const plan = getPlan(subscription.plan);
+    const periodStart = subscription.currentPeriodEnd;
+    const invoice = await storage.createInvoice({
+      userId: user.id,
+      subscriptionId: subscription.id,
+      plan: plan.id,
+      reason: 'subscription_cycle',
+      amountCents: plan.priceCents,
+      currency: plan.currency,
+      lineItems: [{ description: periodLabel(plan), amountCents: plan.priceCents }],
+      periodStart,
+      periodEnd: addBillingPeriod(periodStart, plan.period),
+    });
+
+    await this.chargeInvoice(user, invoice);
+  }
+
+  private async chargeInvoice(user: User, invoice: Invoice): Promise<Invoice> {
+    if (invoice.amountCents === 0) {
+      return await this.applyPaidInvoice(invoice);
+    }
+
+    let result;
+    try {
+      result = await this.provider.charge({
+        invoiceId: invoice.id,
+        userId: user.id,
+        email: user.email,
+        amountCents: invoice.amountCents,
+        currency: invoice.currency,
+        description: invoice.lineItems.map(item => item.description).join(', '),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Payment provider error';
+      return await this.applyFailedInvoice(
+        await storage.updateInvoice(invoice.id, { attemptCount: invoice.attemptCount + 1 }),
+        reason,
+      );
+    }
+
+    const updated = await storage.updateInvoice(invoice.id, {
+      status: 'open',
+      providerPaymentId: result.providerPaymentId,
+      attemptCount: invoice.attemptCount + 1,
+      nextAttemptAt: null,
+    });
+
+    if (result.status === 'succeeded') {
+      return await this.applyPaidInvoice(updated);
+    }
+    if (result.status === 'failed') {
+      return await this.applyFailedInvoice(updated, result.failureReason || 'Payment failed');
+    }
+    return updated;
+  }
+
+  // Idempotent: webhooks can repeat an outcome that was already applied
+  private async applyPaidInvoice(invoice: Invoice): Promise<Invoice> {
+    if (invoice.status === 'paid') return invoice;
+
+    const paid = await storage.updateInvoice(invoice.id, {
+      status: 'paid',
+      paidAt: new Date(),
+      failureReason: null,
+      nextAttemptAt: null,
+    });
+    await storage.updateSubscription(invoice.subscriptionId, {
+      plan: invoice.plan,
+      status: 'active',
+      currentPeriodStart: invoice.periodStart,
+      currentPeriodEnd: invoice.periodEnd,
+      graceUntil: null,
+      pendingPlan: null,
+      cancelAtPeriodEnd: false,
+    });
+    await storage.updateUserPlan(invoice.userId, invoice.plan);
+    return paid;
+  }
+
+  private async applyFailedInvoice(invoice: Invoice, reason: string): Promise<Invoice> {
+    if (invoice.status === 'paid' || invoice.status === 'void') return invoice;
+
+    const isRenewal = invoice.reason === 'subscription_cycle';
+    const failed = await storage.updateInvoice(invoice.id, {
+      status: 'failed',
+      failureReason: reason,
+      // Only renewals are retried; a failed upgrade simply leaves the plan as it was
+      nextAttemptAt: isRenewal ? new Date(Date.now() + RETRY_INTERVAL_MS) : null,
+    });
+
+    const subscription = await storage.getSubscription(invoice.subscriptionId);
+    if (!subscription) return failed;
+
+    if (invoice.reason === 'subscription_create') {
+      await storage.updateSubscription(subscription.id, { status: 'canceled' });
+    } else if (isRenewal && subscription.status === 'active') {
+      // The user keeps the plan during the grace period while payment is retried
+      await storage.updateSubscription(subscription.id, {
+        status: 'past_due',
+        graceUntil: new Date(Date.now() + this.graceDays * DAY_MS),
+      });
+    }
+
+    return failed;
+  }
+
+  private async endSubscription(subscription: Subscription): Promise<Subscription> {
+    await storage.voidUnpaidInvoices(subscription.id);
+    const ended = await storage.updateSubscription(subscription.id, {
+      status: 'canceled',
+      cancelAtPeriodEnd: false,
+      pendingPlan: null,
+      graceUntil: null,
+    });
+    await storage.updateUserPlan(subscription.userId, 'free');
+    return ended;
+  }
+}
+
+export const billingService = new BillingService();
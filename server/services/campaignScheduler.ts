@@ -0,0 +1,174 @@
+import { storage } from '../storage';
+import { autoApplyQueueService, AutoApplyError } from './autoApplyQueue';
+import { QuotaError } from './quota';
+import type { Campaign, CampaignFrequency } from '@shared/schema';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+// How long to wait when the user already has a run going that isn't this campaign's
+const BUSY_RETRY_MS = 10 * 60 * 1000;
+
+export interface CampaignSchedule {
+  frequency: CampaignFrequency;
+  dayOfWeek?: number | null;
+  timeOfDay: string;
+  timezone: string;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+// The instant a wall-clock time happens in the zone. A time skipped by a
+// daylight saving change lands just after the gap.
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  const result = wallClock - zoneOffset(new Date(firstGuess), timeZone);
+  return new Date(result + zoneOffset(new Date(result), timeZone) === wallClock ? result : firstGuess);
+}
+
+/** The first scheduled time strictly after `from` */
+export function nextRunTime(schedule: CampaignSchedule, from: Date): Date {
+  const [hour, minute] = schedule.timeOfDay.split(':').map(value => parseInt(value, 10));
+  const today = zonedParts(from, schedule.timezone);
+
+  let daysAhead = 0;
+  if (schedule.frequency === 'weekly') {
+    daysAhead = ((schedule.dayOfWeek ?? 0) - today.weekday + 7) % 7;
+  }
+
+  while (true) {
+    // Date.UTC normalises day overflow into the next month or year
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + daysAhead));
+    const candidate = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, schedule.timezone);
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+    daysAhead += schedule.frequency === 'weekly' ? 7 : 1;
+  }
+}
+
+/**
+ * Starts auto-apply runs for campaigns when they are due. Each slot is
+ * claimed before the run is queued, so several server instances can run the
+ * scheduler side by side.
+ */
+class CampaignSchedulerService {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Campaign scheduler tick failed:', error));
+    }, TICK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const campaign of await storage.getDueCampaigns(now)) {
+        try {
+          await this.startCampaignRun(campaign, now);
+        } catch (error) {
+          console.error(`Failed to start campaign ${campaign.id}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async startCampaignRun(campaign: Campaign, now: Date): Promise<void> {
+    // Missed slots (e.g. while the server was down) are not made up; the
+    // campaign runs once now and then continues on schedule
+    const claimed = await storage.claimCampaignSlot(campaign.id, campaign.nextRunAt!, nextRunTime(campaign, now));
+    if (!claimed) return;
+
+    const user = await storage.getUser(campaign.userId);
+    if (!user) return;
+
+    const activeRun = await storage.getActiveAutoApplyRun(user.id);
+    if (activeRun?.campaignId === campaign.id) {
+      await this.recordSkip(campaign, 'Skipped because the previous run of this campaign was still in progress');
+      return;
+    }
+
+    try {
+      const run = await autoApplyQueueService.enqueue(user, {
+        maxApplications: campaign.maxApplicationsPerRun,
+        jobPreferencesId: campaign.jobPreferencesId,
+        cvId: campaign.cvId ?? undefined,
+        campaignId: campaign.id,
+      });
+      await storage.updateCampaign(user.id, campaign.id, { lastRunAt: run.createdAt, lastError: null });
+    } catch (error) {
+      if (error instanceof AutoApplyError && error.status === 409) {
+        // A manual run is going; try again once it has had time to finish
+        await storage.updateCampaign(user.id, campaign.id, {
+          nextRunAt: new Date(Math.min(now.getTime() + BUSY_RETRY_MS, claimed.nextRunAt!.getTime())),
+        });
+      } else if (error instanceof AutoApplyError || error instanceof QuotaError) {
+        await this.recordSkip(campaign, error.message);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private async recordSkip(campaign: Campaign, reason: string): Promise<void> {
+    console.log(`Campaign ${campaign.id} skipped a run: ${reason}`);
+    await storage.updateCampaign(campaign.userId, campaign.id, { lastError: reason });
+  }
+}
+
+export const campaignSchedulerService = new CampaignSchedulerService();
+
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+
+const { uploadDir } = vi.hoisted(() => {
+  const uploadDir = `${process.env.TMPDIR || "/tmp"}/cover-letter-test-uploads`;
+  process.env.UPLOAD_DIR = uploadDir;
+  return { uploadDir };
+});
+
+import { coverLetterService } from "./coverLetter";
+import { cvParserService } from "./cvParser";
+import { matchScorerService } from "./matchScorer";
+import { fileStore } from "./fileStore";
+import { DEFAULT_COVER_LETTER_TEMPLATE } from "@shared/coverLetter";
+import { getEffectiveParsedData } from "@shared/cvProfile";
+import type { Cv, ParsedCVData } from "@shared/schema";
+
+const CV_WITHOUT_SUMMARY = `Jane Doe
+jane.doe@example.com | +44 20 7946 0958
+
+Experience
+Senior Software Engineer, Acme Payments
+Jan 2019 - Present
+- Built the settlement service in TypeScript and PostgreSQL.
+
+Education
+BSc Computer Science, University of Leeds
+2011 - 2014
+
+Skills
+TypeScript, PostgreSQL, Docker
+`;
+
+const CV_WITH_SUMMARY = CV_WITHOUT_SUMMARY.replace(
+  "\nExperience",
+  "\nProfessional Summary\nBackend engineer who has built payment systems\nsince 2014.\n\nExperience",
+);
+
+const job = { title: "Backend Engineer", company: "Globex", location: "London" };
+
+async function parse(key: string, text: string): Promise<ParsedCVData> {
+  await fileStore.put(key, Buffer.from(text));
+  const { data } = await cvParserService.parseCV(key, "text/plain");
+  return data;
+}
+
+function render(parsedData: ParsedCVData): string {
+  const cv = { id: "cv-1", userId: "user-1", parsedData, parsedDataOverrides: null } as Cv;
+  return coverLetterService.render(coverLetterService.compile(DEFAULT_COVER_LETTER_TEMPLATE), { cv, job });
+}
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(uploadDir, { recursive: true, force: true });
+});
+
+describe("default cover letter from a parsed CV", () => {
+  it("has no summary when the CV has none", async () => {
+    const data = await parse("no-summary.txt", CV_WITHOUT_SUMMARY);
+    const letter = render(data);
+
+    expect(data.summary).toBeUndefined();
+    expect(letter).toContain("I am writing to apply for the Backend Engineer position at Globex.");
+    expect(letter).toContain("My skills include TypeScript, PostgreSQL and Docker.");
+    expect(letter).not.toMatch(/CV contains|identified skills|work experiences|education entries/);
+  });
+
+  it("includes the summary the CV has", async () => {
+    const data = await parse("summary.txt", CV_WITH_SUMMARY);
+
+    expect(data.summary).toBe("Backend engineer who has built payment systems since 2014.");
+    expect(render(data)).toContain("\nBackend engineer who has built payment systems since 2014.\n");
+  });
+
+  it("leaves out the counts stored as the summary by earlier parses", async () => {
+    const data = await parse("legacy.txt", CV_WITHOUT_SUMMARY);
+    const letter = render({ ...data, summary: "CV contains 3 identified skills, 1 work experiences, and 1 education entries." });
+
+    expect(letter).not.toContain("CV contains");
+  });
+});
+
+describe("matchScorerService.canScore", () => {
+  it("is false for a CV with nothing extracted, even with an old generated summary", () => {
+    const cv = { parsedData: { summary: "CV contains 0 identified skills, 0 work experiences, and 0 education entries." } };
+
+    expect(matchScorerService.canScore(getEffectiveParsedData(cv))).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { compileTemplate, renderTemplate, type CompiledTemplate, type TemplateValue } from './templateEngine';
+import { resolveApplicantName } from './applicant';
+import { coverLetterVariables, DEFAULT_COVER_LETTER_TEMPLATE, type CoverLetterVariable } from '@shared/coverLetter';
+import { getEffectiveParsedData } from '@shared/cvProfile';
+import type { Cv, MatchExplanation, User } from '@shared/schema';
+
+const MAX_SKILLS = 4;
+const MAX_TOP_SKILLS = 3;
+
+const knownVariables = new Set(Object.keys(coverLetterVariables));
+
+export interface CoverLetterJob {
+  title: string;
+  company: string;
+  location?: string | null;
+}
+
+export interface CoverLetterInput {
+  cv: Cv;
+  user?: User;
+  job: CoverLetterJob;
+  match?: MatchExplanation | null;
+}
+
+// "React, TypeScript and SQL"
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * Renders each user's cover letter template for a job, filling it in from
+ * the CV, the job and how well the two match.
+ */
+class CoverLetterService {
+  /** Throws a TemplateError naming the line when the template is invalid */
+  compile(source: string): CompiledTemplate {
+    return compileTemplate(source, knownVariables);
+  }
+
+  // Templates are checked when saved; one that no longer compiles (e.g. a
+  // variable was since removed) falls back to the default
+  templateFor(user: User): CompiledTemplate {
+    if (user.coverLetterTemplate) {
+      try {
+        return this.compile(user.coverLetterTemplate);
+      } catch (error) {
+        console.error(`Cover letter template for user ${user.id} is invalid:`, error);
+      }
+    }
+    return this.compile(DEFAULT_COVER_LETTER_TEMPLATE);
+  }
+
+  variables({ cv, user, job, match }: CoverLetterInput): Record<CoverLetterVariable, TemplateValue> {
+    const data = getEffectiveParsedData(cv);
+    const latest = data.experience?.[0];
+
+    return {
+      'applicant.name': resolveApplicantName(cv, user),
+      'applicant.email': data.email || user?.email,
+      'applicant.phone': data.phone,
+      'job.title': job.title,
+      'job.company': job.company,
+      'job.location': job.location,
+      'cv.currentTitle': latest?.title,
+      'cv.currentEmployer': latest?.employer,
+      'cv.yearsExperience': data.totalYearsExperience !== undefined ? Math.floor(data.totalYearsExperience) : undefined,
+      'cv.skills': joinNames((data.skills ?? []).slice(0, MAX_SKILLS)),
+      'cv.qualification': data.education?.[0]?.degree,
+      'cv.summary': data.summary,
+      'match.topSkills': joinNames((match?.matchedSkills ?? []).slice(0, MAX_TOP_SKILLS)),
+      'match.score': match?.score,
+    };
+  }
+
+  render(template: CompiledTemplate, input: CoverLetterInput): string {
+    return renderTemplate(template, this.variables(input));
+  }
+}
+
+export const coverLetterService = new CoverLetterService();
@@ -0,0 +1,248 @@
+import type { ExperienceEntry, EducationEntry } from '@shared/schema';
+
+interface DateRange {
+  startDate?: string;
+  endDate?: string;
+  current: boolean;
+  text: string;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH_NAME}\\s+\\d{4}|\\d{1,2}[/.]\\d{4}|\\d{4}[/-]\\d{1,2}(?!\\d)|\\d{4})`;
+const PRESENT = '(?:present|current|now|to\\s+date|today|ongoing)';
+const DATE_RANGE_REGEX = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until|till)\\s*(${DATE}|${PRESENT})`, 'i');
+const SINGLE_DATE_REGEX = new RegExp(`\\b${DATE}\\b`, 'i');
+
+const BULLET_REGEX = /^\s*(?:[•\-*▪◦●‣·]|\d+[.)])\s+/;
+const FIELD_SEPARATOR_REGEX = /\s*(?:\||•|·|–|—|\s-\s|@|\bat\b)\s*/i;
+
+const TITLE_WORDS = /\b(developer|engineer|manager|analyst|consultant|intern|designer|officer|lead|director|specialist|assistant|coordinator|administrator|architect|scientist|teacher|accountant|advisor|executive|associate|representative|supervisor|technician|head|clerk|agent|programmer|tester|owner|founder|cto|ceo|cfo|vp|president)\b/i;
+const LOCATION_WORDS = /\b(remote|hybrid|on-?site)\b/i;
+
+const DEGREE_REGEX = /\b(b\.?sc|b\.?a|b\.?com|b\.?tech|b\.?eng|m\.?sc|m\.?a|mba|m\.?eng|ph\.?d|bachelor|master|doctor(?:ate)?|diploma|certificate|honours|hons|matric|national senior certificate|associate degree|degree|llb|llm)\b/i;
+const INSTITUTION_REGEX = /\b(university|college|institute|school|academy|polytechnic|technikon|universiteit)\b/i;
+
+function normaliseDate(raw: string, position: 'start' | 'end'): string | undefined {
+  const value = raw.trim().toLowerCase();
+
+  const monthName = value.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (monthName) {
+    const month = MONTHS[monthName[1].slice(0, 4)] ?? MONTHS[monthName[1].slice(0, 3)];
+    return month ? `${monthName[2]}-${String(month).padStart(2, '0')}` : undefined;
+  }
+
+  const monthFirst = value.match(/^(\d{1,2})[/.](\d{4})$/);
+  if (monthFirst) {
+    const month = parseInt(monthFirst[1], 10);
+    return month >= 1 && month <= 12 ? `${monthFirst[2]}-${String(month).padStart(2, '0')}` : undefined;
+  }
+
+  const yearFirst = value.match(/^(\d{4})[/-](\d{1,2})$/);
+  if (yearFirst) {
+    const month = parseInt(yearFirst[2], 10);
+    return month >= 1 && month <= 12 ? `${yearFirst[1]}-${String(month).padStart(2, '0')}` : undefined;
+  }
+
+  const year = value.match(/^(\d{4})$/);
+  if (year) {
+    return `${year[1]}-${position === 'start' ? '01' : '12'}`;
+  }
+
+  return undefined;
+}
+
+function toMonthIndex(isoMonth: string): number {
+  const [year, month] = isoMonth.split('-').map(part => parseInt(part, 10));
+  return year * 12 + (month - 1);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_REGEX, '').trim();
+}
+
+class CVEntryParserService {
+  parseDateRange(text: string): DateRange | undefined {
+    const match = text.match(DATE_RANGE_REGEX);
+    if (!match) return undefined;
+
+    const current = new RegExp(`^${PRESENT}$`, 'i').test(match[2].trim());
+    return {
+      startDate: normaliseDate(match[1], 'start'),
+      endDate: current ? undefined : normaliseDate(match[2], 'end'),
+      current,
+      text: match[0],
+    };
+  }
+
+  parseExperience(section: string): ExperienceEntry[] {
+    const lines = section.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    const groups: { headers: string[]; bullets: string[]; hasDates: boolean }[] = [];
+
+    for (const line of lines) {
+      let current = groups[groups.length - 1];
+      // Long prose lines are descriptions even when they are not bulleted
+      const isBullet = BULLET_REGEX.test(line) || line.length > 100;
+
+      if (isBullet) {
+        if (!current) {
+          current = { headers: [], bullets: [], hasDates: false };
+          groups.push(current);
+        }
+        current.bullets.push(stripBullet(line));
+        continue;
+      }
+
+      const hasDates = DATE_RANGE_REGEX.test(line);
+      const startsNewEntry = !current
+        || current.bullets.length > 0
+        || (hasDates && current.hasDates)
+        || current.headers.length >= 3;
+
+      if (startsNewEntry) {
+        groups.push({ headers: [line], bullets: [], hasDates });
+      } else {
+        current.headers.push(line);
+        current.hasDates = current.hasDates || hasDates;
+      }
+    }
+
+    return groups
+      .map(group => this.buildExperienceEntry(group.headers, group.bullets))
+      .filter(entry => entry.title || entry.employer || entry.startDate);
+  }
+
+  parseEducation(section: string): EducationEntry[] {
+    const lines = section.split('\n').map(line => stripBullet(line)).filter(line => line.length > 0);
+    const entries: EducationEntry[] = [];
+    let current: EducationEntry | undefined;
+
+    for (const line of lines) {
+      const degreeMatch = DEGREE_REGEX.test(line);
+      const institutionMatch = INSTITUTION_REGEX.test(line);
+      if (!degreeMatch && !institutionMatch && !SINGLE_DATE_REGEX.test(line)) continue;
+
+      const startsNewEntry = !current
+        || (degreeMatch && current.degree !== undefined)
+        || (institutionMatch && !degreeMatch && current.institution !== undefined);
+      if (startsNewEntry) {
+        current = {};
+        entries.push(current);
+      }
+
+      const year = this.extractGraduationYear(line);
+      if (year) current!.graduationYear = year;
+
+      // "BSc Computer Science, University of Cape Town, 2018" carries both on one line
+      const parts = line
+        .replace(DATE_RANGE_REGEX, '')
+        .split(/\s*(?:,|\||–|—|\s-\s)\s*/)
+        .map(part => part.replace(/\(?\b\d{4}\b\)?/g, '').trim())
+        .filter(part => part.length > 0);
+
+      let degreeIndex = -1;
+      parts.forEach((part, index) => {
+        if (!current!.institution && INSTITUTION_REGEX.test(part)) {
+          current!.institution = part;
+        } else if (!current!.degree && DEGREE_REGEX.test(part)) {
+          current!.degree = part;
+          degreeIndex = index;
+        } else if (index === degreeIndex + 1 && degreeIndex >= 0 && !DEGREE_REGEX.test(part)) {
+          // Field of study following the degree, e.g. "BSc, Computer Science"
+          current!.degree = `${current!.degree}, ${part}`;
+        }
+      });
+    }
+
+    return entries.filter(entry => entry.degree || entry.institution);
+  }
+
+  /**
+   * Total years of experience with overlapping roles counted once, rounded to
+   * one decimal. Ongoing roles run up to the given date.
+   */
+  totalYearsOfExperience(entries: ExperienceEntry[], now = new Date()): number {
+    const nowIndex = now.getFullYear() * 12 + now.getMonth();
+    const intervals = entries
+      .filter(entry => entry.startDate)
+      .map(entry => {
+        const start = toMonthIndex(entry.startDate!);
+        const end = entry.current || !entry.endDate ? nowIndex : toMonthIndex(entry.endDate);
+        return [start, Math.min(end, nowIndex) + 1] as [number, number];
+      })
+      .filter(([start, end]) => end > start)
+      .sort((a, b) => a[0] - b[0]);
+
+    let months = 0;
+    let coveredUntil = -Infinity;
+    for (const [start, end] of intervals) {
+      const from = Math.max(start, coveredUntil);
+      if (end > from) {
+        months += end - from;
+        coveredUntil = end;
+      }
+    }
+
+    return Math.round((months / 12) * 10) / 10;
+  }
+
+  private buildExperienceEntry(headers: string[], bullets: string[]): ExperienceEntry {
+    const entry: ExperienceEntry = { bullets };
+
+    const parts: string[] = [];
+    for (const header of headers) {
+      let remaining = header;
+      const range = this.parseDateRange(header);
+      if (range && !entry.startDate) {
+        entry.startDate = range.startDate;
+        entry.endDate = range.endDate;
+        if (range.current) entry.current = true;
+        remaining = remaining.replace(range.text, '');
+      }
+
+      parts.push(
+        ...remaining
+          .replace(/\s*\(([^)]*)\)/g, ' | $1')
+          .split(FIELD_SEPARATOR_REGEX)
+          .map(part => part.trim().replace(/^[,;:]+|[,;:]+$/g, '').trim())
+          .filter(part => part.length > 1)
+      );
+    }
+
+    const titleIndex = parts.findIndex(part => TITLE_WORDS.test(part));
+    const title = titleIndex >= 0 ? parts[titleIndex] : parts[0];
+    if (title) entry.title = title;
+
+    for (const part of parts) {
+      if (part === title) continue;
+      if (LOCATION_WORDS.test(part) && !entry.location) {
+        entry.location = part;
+      } else if (!entry.employer) {
+        // "Acme Corp, Cape Town" keeps the location after the comma
+        const [employer, ...location] = part.split(/\s*,\s*/);
+        entry.employer = employer;
+        if (location.length > 0 && !entry.location) entry.location = location.join(', ');
+      } else if (!entry.location) {
+        entry.location = part;
+      }
+    }
+
+    return entry;
+  }
+
+  private extractGraduationYear(line: string): number | undefined {
+    const range = this.parseDateRange(line);
+    if (range) {
+      return range.endDate ? parseInt(range.endDate.slice(0, 4), 10) : undefined;
+    }
+
+    const years = line.match(/\b(19|20)\d{2}\b/g);
+    return years ? parseInt(years[years.length - 1], 10) : undefined;
+  }
+}
+
+export const cvEntryParserService = new CVEntryParserService();
@@ -1,72 +1,86 @@
-import fs from 'fs';
-import { promisify } from 'util';
-
-const readFile = promisify(fs.readFile);
-const exists = promisify(fs.exists);
-
-interface ParsedCVData {
-  name?: string;
-  email?: string;
-  phone?: string;
-  address?: string;
-  skills?: string[];
-  experience?: string[];
-  education?: string[];
-  summary?: string;
+import { fileStore, readStoredFile } from './fileStore';
+import { pdfExtractorService } from './pdfExtractor';
+import { wordExtractorService } from './wordExtractor';
+import { cvEntryParserService } from './cvEntryParser';
+import { skillsTaxonomyService } from './skillsTaxonomy';
+import { textExtractorService } from './textExtractor';
+import type { ParsedCVData, ParseConfidence, ParseStatus, ParseWarning } from '@shared/schema';
+
+export interface CVParseResult {
+  status: ParseStatus;
+  data: ParsedCVData;
+  warnings: ParseWarning[];
+}
+
+// Lines that start a new section of a CV without styled headings
+const MAJOR_HEADINGS = ['skills', 'experience', 'education', 'contact', 'summary', 'objective'];
+const SUMMARY_HEADING = /^(?:(?:professional|personal|career) )?(?:summary|profile|objective)(?: statement)?:?$|^about me:?$/i;
+const MAX_SUMMARY_LENGTH = 1000;
+
+interface ExtractedDocument {
+  text: string;
+  headings?: string[]; // Headings taken from document styles, when the format has them
 }
 
 class CVParserService {
-  async parseCV(filePath: string, mimeType: string): Promise<ParsedCVData> {
+  /** Parses a CV held in the file store under the given key */
+  async parseCV(fileKey: string, mimeType: string): Promise<CVParseResult> {
     try {
-      // Check if file exists
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`File not found: ${filePath}`);
+      if (!(await fileStore.exists(fileKey))) {
+        throw new Error(`File not found: ${fileKey}`);
       }
 
-      console.log(`Parsing CV: ${filePath}, type: ${mimeType}`);
+      console.log(`Parsing CV: ${fileKey}, type: ${mimeType}`);
+      const buffer = await readStoredFile(fileKey);
       
-      let text = '';
+      let document: ExtractedDocument;
       
       if (mimeType === 'application/pdf') {
-        text = await this.parsePDF(filePath);
+        document = { text: await this.parsePDF(buffer) };
       } else if (mimeType === 'application/msword' || 
                  mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        text = await this.parseWord(filePath);
+        document = await this.parseWord(buffer, mimeType);
+      } else if (mimeType === 'application/vnd.oasis.opendocument.text') {
+        document = await this.parseOdt(buffer);
+      } else if (mimeType === 'application/rtf' || mimeType === 'text/rtf' || mimeType === 'application/x-rtf') {
+        document = { text: await this.parseRtf(buffer) };
+      } else if (mimeType === 'text/markdown' || mimeType === 'text/x-markdown') {
+        document = textExtractorService.extractMarkdown(await this.parseTextFile(buffer));
+      } else if (mimeType === 'text/plain') {
+        document = { text: await this.parseTextFile(buffer) };
       } else {
         throw new Error(`Unsupported file type: ${mimeType}`);
       }
 
-      const parsedData = this.extractDataFromText(text);
-      console.log('CV parsing successful:', parsedData);
-      return parsedData;
+      const parsedData = this.extractDataFromText(document.text, document.headings);
+      const warnings = this.collectWarnings(document.text, parsedData);
+      const status = this.determineStatus(parsedData, warnings);
+      console.log(`CV parsing finished with status ${status}:`, parsedData);
+      return { status, data: parsedData, warnings };
     } catch (error) {
       console.error('CV parsing error:', error);
-      // Return a basic structure instead of just error message
+      // No extracted fields at all: callers must not treat this as the applicant's details
       return {
-        summary: `CV parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        name: 'CV Upload',
-        skills: [],
-        experience: [],
-        education: []
+        status: 'failed',
+        data: {},
+        warnings: [{
+          code: 'parse_failed',
+          message: `CV parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        }],
       };
     }
   }
 
-  private async parsePDF(filePath: string): Promise<string> {
+  private async parsePDF(buffer: Buffer): Promise<string> {
     try {
-      // For now, we'll use a simple text extraction approach
-      // In production, you'd want to use a library like pdf-parse
-      const buffer = await readFile(filePath);
-      
-      // Basic text extraction - PDFs often contain readable text
-      const text = buffer.toString('utf-8');
-      console.log(`PDF text extracted, length: ${text.length}`);
-      
-      // If the direct text extraction doesn't work well, provide a fallback
-      if (text.length < 50) {
-        return `PDF file uploaded: ${filePath.split('/').pop()}\nFile size: ${buffer.length} bytes\nThis is a PDF document that requires specialized parsing.`;
+      const { pages, text } = await pdfExtractorService.extract(buffer);
+      console.log(`PDF text extracted, pages: ${pages.length}, length: ${text.length}`);
+
+      // Scanned CVs are images without a text layer; there is nothing to run the extractors on
+      if (text.trim().length === 0) {
+        throw new Error('PDF contains no extractable text (it may be a scanned image)');
       }
-      
+
       return text;
     } catch (error) {
       console.error('PDF parsing error:', error);
@@ -74,100 +88,203 @@ class CVParserService {
     }
   }
 
-  private async parseWord(filePath: string): Promise<string> {
+  private async parseWord(buffer: Buffer, mimeType: string): Promise<ExtractedDocument> {
     try {
-      // For now, we'll use a simple text extraction approach
-      // In production, you'd want to use a library like mammoth.js for DOCX or antiword for DOC
-      const buffer = await readFile(filePath);
-      
       console.log(`Word document read, size: ${buffer.length} bytes`);
-      
-      // Simple text extraction attempt
-      const text = buffer.toString('utf-8');
-      
-      // Word documents in binary format won't extract well this way
-      if (text.length < 50 || !text.includes(' ')) {
-        return `Word document uploaded: ${filePath.split('/').pop()}\nFile size: ${buffer.length} bytes\nThis is a Word document that requires specialized parsing.`;
+
+      // DOCX files are zip archives; anything else claiming to be Word is treated as binary .doc
+      const isZip = buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+      if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || isZip) {
+        const { text, headings } = await wordExtractorService.extractDocx(buffer);
+        console.log(`DOCX text extracted, length: ${text.length}, headings: ${headings.length}`);
+        return { text, headings };
       }
-      
-      return text;
+
+      const text = wordExtractorService.extractDoc(buffer);
+      console.log(`DOC text extracted, length: ${text.length}`);
+      if (text.trim().length === 0) {
+        throw new Error('No readable text found in Word document');
+      }
+
+      return { text };
     } catch (error) {
       console.error('Word parsing error:', error);
       throw new Error(`Failed to parse Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private extractDataFromText(text: string): ParsedCVData {
+  private async parseOdt(buffer: Buffer): Promise<ExtractedDocument> {
+    try {
+      const { text, headings } = await wordExtractorService.extractOdt(buffer);
+      console.log(`ODT text extracted, length: ${text.length}, headings: ${headings.length}`);
+      return { text, headings };
+    } catch (error) {
+      console.error('ODT parsing error:', error);
+      throw new Error(`Failed to parse ODT document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async parseRtf(buffer: Buffer): Promise<string> {
+    try {
+      // RTF is 7-bit ASCII; anything outside it arrives as \'hh or \uN escapes
+      const rtf = buffer.toString('latin1');
+      const text = textExtractorService.extractRtf(rtf);
+      console.log(`RTF text extracted, length: ${text.length}`);
+      return text;
+    } catch (error) {
+      console.error('RTF parsing error:', error);
+      throw new Error(`Failed to parse RTF document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private extractDataFromText(text: string, headings?: string[]): ParsedCVData {
     const data: ParsedCVData = {};
 
+    const confidence: ParseConfidence = {};
+
     // Extract email
-    const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
-    const emailMatch = text.match(emailRegex);
-    if (emailMatch) {
-      data.email = emailMatch[0];
+    const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+    const emailMatches = Array.from(new Set(text.match(emailRegex) ?? []));
+    if (emailMatches.length > 0) {
+      data.email = emailMatches[0];
+      // Several addresses (referees, previous employers) make the first one less certain
+      confidence.email = emailMatches.length === 1 ? 0.95 : 0.75;
     }
 
-    // Extract phone number
-    const phoneRegex = /(\+?[\d\s\-\(\)]{10,})/g;
-    const phoneMatch = text.match(phoneRegex);
+    // Extract phone number: a run of digits, spaces and separators with 9-15 digits
+    const phoneRegex = /\+?\(?\d[\d\s\-().]{7,}\d/g;
+    const phoneMatch = (text.match(phoneRegex) ?? []).find(candidate => {
+      const digits = candidate.replace(/\D/g, '').length;
+      // Date ranges such as "2016 - 2019" have the right length but are not numbers
+      return digits >= 9 && digits <= 15 && !/^\d{4}\s*[-–]\s*\d{4}$/.test(candidate.trim());
+    });
     if (phoneMatch) {
-      data.phone = phoneMatch[0].trim();
+      data.phone = phoneMatch.trim();
+      confidence.phone = /^(\+|0)/.test(data.phone) ? 0.9 : 0.6;
     }
 
-    // Extract name (simple heuristic - first line that's not email/phone)
+    // Extract name (first short line that is not contact details or a document title)
     const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    for (const line of lines) {
-      if (!emailRegex.test(line) && !phoneRegex.test(line) && line.length < 50 && line.split(' ').length <= 4) {
+    for (const line of lines.slice(0, 15)) {
+      if (/@|\d{3}/.test(line) || /^(curriculum vitae|resume|résumé|cv)$/i.test(line)) continue;
+      if (line.length < 50 && line.split(/\s+/).length <= 4) {
         data.name = line;
+        confidence.name = this.nameConfidence(line, data.email);
         break;
       }
     }
 
-    // Extract skills (look for common skill keywords)
-    const skillKeywords = [
-      'javascript', 'python', 'java', 'react', 'node', 'sql', 'html', 'css',
-      'git', 'aws', 'docker', 'kubernetes', 'typescript', 'angular', 'vue',
-      'mongodb', 'postgresql', 'mysql', 'redis', 'graphql', 'rest', 'api',
-      'machine learning', 'data analysis', 'project management', 'agile',
-      'scrum', 'leadership', 'communication', 'problem solving'
-    ];
-
-    data.skills = [];
-    const lowerText = text.toLowerCase();
-    for (const skill of skillKeywords) {
-      if (lowerText.includes(skill.toLowerCase())) {
-        data.skills.push(skill);
-      }
-    }
+    // Extract skills from the taxonomy, keeping where each one was found
+    data.skillMatches = skillsTaxonomyService.match(text);
+    data.skills = data.skillMatches.map(skill => skill.name);
+    confidence.skills = data.skills.length === 0 ? 0 : Math.min(1, 0.5 + data.skills.length * 0.05);
 
-    // Extract experience (look for job titles and companies)
+    // Extract experience (job title, employer, dates and bullets per role)
     const experienceKeywords = ['experience', 'work history', 'employment', 'career'];
-    const experienceSection = this.extractSection(text, experienceKeywords);
+    const experienceSection = this.extractSection(text, experienceKeywords, headings);
     if (experienceSection) {
-      data.experience = experienceSection.split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 10)
-        .slice(0, 5); // Limit to 5 entries
+      data.experience = cvEntryParserService.parseExperience(experienceSection);
+      data.totalYearsExperience = cvEntryParserService.totalYearsOfExperience(data.experience);
+      const complete = data.experience.filter(entry => entry.title && entry.startDate).length;
+      confidence.experience = data.experience.length === 0 ? 0 : 0.3 + 0.6 * (complete / data.experience.length);
     }
 
     // Extract education
     const educationKeywords = ['education', 'qualification', 'degree', 'university', 'college'];
-    const educationSection = this.extractSection(text, educationKeywords);
+    const educationSection = this.extractSection(text, educationKeywords, headings);
     if (educationSection) {
-      data.education = educationSection.split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 5)
-        .slice(0, 3); // Limit to 3 entries
+      data.education = cvEntryParserService.parseEducation(educationSection);
+      const complete = data.education.filter(entry => entry.degree && entry.institution).length;
+      confidence.education = data.education.length === 0 ? 0 : 0.4 + 0.5 * (complete / data.education.length);
     }
 
-    // Create summary
-    data.summary = `CV contains ${data.skills?.length || 0} identified skills, ${data.experience?.length || 0} work experiences, and ${data.education?.length || 0} education entries.`;
+    // Extract the CV's own summary; without one it is left unset
+    const summary = this.extractSummary(text, headings);
+    if (summary) data.summary = summary;
+    data.confidence = confidence;
 
     return data;
   }
 
-  private extractSection(text: string, keywords: string[]): string | undefined {
+  private nameConfidence(line: string, email?: string): number {
+    const words = line.split(/\s+/);
+    const looksLikeName = words.length >= 2 && words.every(word => /^[A-ZÀ-Ý][A-Za-zÀ-ÿ'.-]*$/.test(word));
+    if (!looksLikeName) return 0.3;
+
+    // "jane.doe@..." agreeing with "Jane Doe" is strong evidence
+    const localPart = email?.split('@')[0].toLowerCase() ?? '';
+    const agreesWithEmail = words.some(word => word.length > 2 && localPart.includes(word.toLowerCase()));
+    return agreesWithEmail ? 0.95 : 0.75;
+  }
+
+  private collectWarnings(text: string, data: ParsedCVData): ParseWarning[] {
+    const warnings: ParseWarning[] = [];
+
+    if (text.trim().length < 200) {
+      warnings.push({ code: 'little_text', message: 'Very little text could be extracted from this CV' });
+    }
+
+    const required: (keyof ParsedCVData)[] = ['name', 'email', 'phone', 'experience', 'education'];
+    for (const field of required) {
+      const value = data[field];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+        warnings.push({ code: 'missing_field', field, message: `No ${field} found in CV` });
+      }
+    }
+
+    const confidence = data.confidence ?? {};
+    for (const [field, score] of Object.entries(confidence)) {
+      if (score !== undefined && score > 0 && score < 0.5) {
+        warnings.push({ code: 'low_confidence', field, message: `The extracted ${field} may be wrong, please review it` });
+      }
+    }
+
+    return warnings;
+  }
+
+  private determineStatus(data: ParsedCVData, warnings: ParseWarning[]): ParseStatus {
+    const hasIdentity = Boolean(data.name && data.email);
+    const hasContent = (data.skills?.length ?? 0) > 0 || (data.experience?.length ?? 0) > 0;
+    if (!hasIdentity && !hasContent) return 'failed';
+
+    const nameUncertain = (data.confidence?.name ?? 0) < 0.5;
+    if (!hasIdentity || !hasContent || nameUncertain || warnings.some(warning => warning.code === 'little_text')) {
+      return 'partial';
+    }
+
+    return 'parsed';
+  }
+
+  // The first paragraph under a "Summary", "Profile" or "Objective" heading
+  private extractSummary(text: string, headings?: string[]): string | undefined {
+    const lines = text.split('\n');
+    const headingSet = new Set((headings ?? []).map(heading => heading.trim().toLowerCase()));
+    const isHeading = (line: string) => {
+      const normalized = line.trim().toLowerCase().replace(/:$/, '');
+      return headingSet.has(line.trim().toLowerCase()) || MAJOR_HEADINGS.includes(normalized) || SUMMARY_HEADING.test(line.trim());
+    };
+
+    const sectionStart = lines.findIndex(line => SUMMARY_HEADING.test(line.trim()));
+    if (sectionStart === -1) return undefined;
+
+    const paragraph: string[] = [];
+    for (const line of lines.slice(sectionStart + 1)) {
+      if (isHeading(line) || (line.trim() === '' && paragraph.length > 0)) break;
+      if (line.trim() !== '') paragraph.push(line.trim());
+    }
+    const summary = paragraph.join(' ').replace(/\s+/g, ' ').trim();
+    return summary.length > 0 ? summary.slice(0, MAX_SUMMARY_LENGTH) : undefined;
+  }
+
+  private extractSection(text: string, keywords: string[], headings?: string[]): string | undefined {
     const lines = text.split('\n');
+
+    // Prefer the document's own headings when the format told us what they are
+    if (headings && headings.length > 0) {
+      const section = this.extractSectionByHeadings(lines, keywords, headings);
+      if (section !== undefined) return section;
+    }
+
     let sectionStart = -1;
     let sectionEnd = -1;
 
@@ -183,10 +300,9 @@ class CVParserService {
     if (sectionStart === -1) return undefined;
 
     // Find section end (next major heading or end of document)
-    const majorHeadings = ['skills', 'experience', 'education', 'contact', 'summary', 'objective'];
     for (let i = sectionStart + 1; i < lines.length; i++) {
       const line = lines[i].toLowerCase().trim();
-      if (majorHeadings.some(heading => line === heading || line.startsWith(heading + ':'))) {
+      if (MAJOR_HEADINGS.some(heading => line === heading || line.startsWith(heading + ':'))) {
         sectionEnd = i;
         break;
       }
@@ -197,10 +313,24 @@ class CVParserService {
     return lines.slice(sectionStart + 1, sectionEnd).join('\n');
   }
 
-  private async parseTextFile(filePath: string): Promise<string> {
+  private extractSectionByHeadings(lines: string[], keywords: string[], headings: string[]): string | undefined {
+    const headingSet = new Set(headings.map(heading => heading.trim().toLowerCase()));
+    const isHeading = (line: string) => headingSet.has(line.trim().toLowerCase());
+
+    const sectionStart = lines.findIndex(line =>
+      isHeading(line) && keywords.some(keyword => line.toLowerCase().includes(keyword))
+    );
+    if (sectionStart === -1) return undefined;
+
+    let sectionEnd = lines.findIndex((line, i) => i > sectionStart && isHeading(line));
+    if (sectionEnd === -1) sectionEnd = lines.length;
+
+    return lines.slice(sectionStart + 1, sectionEnd).join('\n');
+  }
+
+  private async parseTextFile(buffer: Buffer): Promise<string> {
     try {
-      const buffer = await readFile(filePath);
-      const text = buffer.toString('utf-8');
+      const text = buffer.toString('utf-8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
       console.log(`Text file read, length: ${text.length}`);
       return text;
     } catch (error) {
@@ -0,0 +1,200 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AddressInfo } from "net";
+import { SMTPServer } from "smtp-server";
+import { simpleParser, type ParsedMail } from "mailparser";
+
+const { tokens } = vi.hoisted(() => ({
+  tokens: new Map<string, { userId: string; tokenHash: string; expiresAt: Date }>(),
+}));
+
+vi.mock("../storage", () => ({
+  storage: {
+    createEmailVerificationToken: async (userId: string, tokenHash: string, expiresAt: Date) => {
+      const record = { userId, tokenHash, expiresAt };
+      tokens.set(tokenHash, record);
+      return record;
+    },
+    consumeEmailVerificationToken: async (tokenHash: string) => {
+      const record = tokens.get(tokenHash);
+      tokens.delete(tokenHash);
+      return record;
+    },
+    markEmailVerified: async (id: string) => ({ ...user, id, emailVerifiedAt: new Date() }),
+  },
+}));
+
+import { emailService } from "./emailService";
+import { accountTokenService } from "./accountTokens";
+import type { User } from "@shared/schema";
+
+const user = {
+  id: "user-1",
+  email: "jane@example.com",
+  username: "jane",
+  name: "Jane Doe",
+  emailVerifiedAt: null,
+} as User;
+
+// A local SMTP server standing in for the real one; it keeps what it receives
+const received: { mail: ParsedMail; envelope: { from: string; to: string[] }; user?: string }[] = [];
+const smtp = new SMTPServer({
+  disabledCommands: ["STARTTLS"],
+  allowInsecureAuth: true,
+  logger: false,
+  onAuth(auth, _session, callback) {
+    if (auth.username === "mailer" && auth.password === "secret") {
+      return callback(null, { user: auth.username });
+    }
+    callback(new Error("Invalid username or password"));
+  },
+  onData(stream, session, callback) {
+    simpleParser(stream).then(mail => {
+      received.push({
+        mail,
+        envelope: {
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : "",
+          to: session.envelope.rcptTo.map(recipient => recipient.address),
+        },
+        user: session.user as string | undefined,
+      });
+      callback();
+    }, callback);
+  },
+});
+
+const SMTP_ENV = ["SMTP_HOST", "SMTP_PORT", "SMTP_USER", "SMTP_PASS", "SMTP_FROM", "APP_URL"] as const;
+const savedEnv = Object.fromEntries(SMTP_ENV.map(name => [name, process.env[name]]));
+
+beforeAll(async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  await new Promise<void>(resolve => smtp.listen(0, "127.0.0.1", resolve));
+  Object.assign(process.env, {
+    SMTP_HOST: "127.0.0.1",
+    SMTP_PORT: String((smtp.server.address() as AddressInfo).port),
+    SMTP_USER: "mailer",
+    SMTP_PASS: "secret",
+    SMTP_FROM: "Job Applications <jobs@example.com>",
+    APP_URL: "https://jobs.example.com/",
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => smtp.close(resolve));
+  for (const name of SMTP_ENV) {
+    if (savedEnv[name] === undefined) delete process.env[name];
+    else process.env[name] = savedEnv[name];
+  }
+});
+
+beforeEach(() => {
+  received.length = 0;
+});
+
+describe("emailService.sendEmail", () => {
+  it("delivers a text and HTML message through the configured SMTP server", async () => {
+    const result = await emailService.sendEmail({
+      to: "jane@example.com",
+      subject: "Hello",
+      text: "Plain body",
+      html: "<p>HTML body</p>",
+    });
+
+    expect(result).toEqual({ success: true });
+    expect(received).toHaveLength(1);
+    const [{ mail, envelope, user: authenticatedAs }] = received;
+    expect(authenticatedAs).toBe("mailer");
+    expect(envelope).toEqual({ from: "jobs@example.com", to: ["jane@example.com"] });
+    expect(mail.subject).toBe("Hello");
+    expect(mail.text?.trim()).toBe("Plain body");
+    expect(mail.html).toContain("<p>HTML body</p>");
+  });
+
+  it("reports a failure instead of throwing", async () => {
+    process.env.SMTP_PASS = "wrong";
+    try {
+      const result = await emailService.sendEmail({ to: "jane@example.com", subject: "Hello", text: "Body" });
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/Invalid username or password/);
+    } finally {
+      process.env.SMTP_PASS = "secret";
+    }
+    expect(received).toHaveLength(0);
+  });
+
+  it("reports that email is not configured without SMTP_HOST", async () => {
+    delete process.env.SMTP_HOST;
+    try {
+      const result = await emailService.sendEmail({ to: "jane@example.com", subject: "Hello", text: "Body" });
+      expect(result).toEqual({ success: false, error: "Email is not configured: SMTP_HOST is not set" });
+    } finally {
+      process.env.SMTP_HOST = "127.0.0.1";
+    }
+  });
+});
+
+describe("emailService.sendJobApplication", () => {
+  const application = {
+    to: "hiring@acme.example",
+    jobTitle: "Backend Engineer",
+    company: "Acme",
+    cvContent: Buffer.from("%PDF-1.4 Jane Doe CV"),
+    cvOriginalName: "Jane Doe CV.pdf",
+    applicantName: "Jane Doe",
+    subject: "Backend Engineer application from Jane Doe",
+    text: "Dear Acme,\n\nPlease find my CV attached.",
+  };
+
+  it("sends the rendered subject, text and HTML with the CV attached", async () => {
+    const result = await emailService.sendJobApplication({
+      ...application,
+      html: "<p>Dear Acme,</p><p>Please find my CV attached.</p>",
+    });
+
+    expect(result).toEqual({ success: true });
+    expect(received).toHaveLength(1);
+    const [{ mail, envelope }] = received;
+    expect(envelope.to).toEqual(["hiring@acme.example"]);
+    expect(mail.subject).toBe(application.subject);
+    expect(mail.text?.trim()).toBe(application.text);
+    expect(mail.html).toContain("<p>Please find my CV attached.</p>");
+    expect(mail.attachments).toHaveLength(1);
+    expect(mail.attachments[0].filename).toBe("Jane Doe CV.pdf");
+    expect(mail.attachments[0].content.equals(application.cvContent)).toBe(true);
+  });
+
+  it("sends plain text when the template has no HTML", async () => {
+    const result = await emailService.sendJobApplication({ ...application, html: null });
+
+    expect(result).toEqual({ success: true });
+    expect(received[0].mail.text?.trim()).toBe(application.text);
+    expect(received[0].mail.html).toBe(false);
+  });
+
+  it("refuses an application without a recipient", async () => {
+    const result = await emailService.sendJobApplication({ ...application, to: "" });
+
+    expect(result).toEqual({ success: false, error: "No email address to apply to" });
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe("email verification over SMTP", () => {
+  it("sends a link whose token verifies the address once", async () => {
+    await accountTokenService.sendVerificationEmail(user);
+
+    expect(received).toHaveLength(1);
+    const { mail } = received[0];
+    expect(mail.to).toMatchObject({ text: "jane@example.com" });
+    expect(mail.subject).toBe("Confirm your email address");
+
+    const link = mail.text?.match(/https:\/\/jobs\.example\.com\/verify-email\?token=([\w-]+)/);
+    expect(link).not.toBeNull();
+    expect(mail.html).toContain(`href="${link![0]}"`);
+
+    const token = link![1];
+    // Only a hash of the token is stored
+    expect(tokens.has(token)).toBe(false);
+    await expect(accountTokenService.verifyEmail(token)).resolves.toMatchObject({ id: user.id });
+    await expect(accountTokenService.verifyEmail(token)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface JobApplicationEmail {
+  to: string;
+  jobTitle: string;
+  company: string;
+  cvContent: Buffer; // The stored CV file, attached under cvOriginalName
+  cvOriginalName: string;
+  applicantName: string;
+  // Rendered from the user's email template
+  subject: string;
+  text: string;
+  html?: string | null; // Without it the email is plain text
+  // From inboundMailService.threadingHeaders, so replies find the application
+  messageId?: string;
+  replyTo?: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string; // Sent alongside the text as an alternative part
+}
+
+export interface EmailResult {
+  success: boolean;
+  error?: string;
+}
+
+function createTransport(): Transporter | undefined {
+  const host = process.env.SMTP_HOST;
+  if (!host) return undefined;
+
+  const port = parseInt(process.env.SMTP_PORT || '', 10) || 587;
+  return nodemailer.createTransport({
+    host,
+    port,
+    // Port 465 is TLS from the start; others upgrade with STARTTLS when offered
+    secure: port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+  });
+}
+
+/**
+ * Sends email over SMTP. Failures are returned rather than thrown, so a
+ * caller can record a failed application and carry on.
+ */
+class EmailService {
+  async sendJobApplication(email: JobApplicationEmail): Promise<EmailResult> {
+    if (!email.to) {
+      return { success: false, error: 'No email address to apply to' };
+    }
+
+    return await this.send({
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html ?? undefined,
+      messageId: email.messageId,
+      replyTo: email.replyTo,
+      attachments: [{ filename: email.cvOriginalName, content: email.cvContent }],
+    });
+  }
+
+  async sendEmail(message: EmailMessage): Promise<EmailResult> {
+    return await this.send(message);
+  }
+
+  private async send(message: nodemailer.SendMailOptions): Promise<EmailResult> {
+    const transport = createTransport();
+    if (!transport) {
+      return { success: false, error: 'Email is not configured: SMTP_HOST is not set' };
+    }
+
+    try {
+      await transport.sendMail({ from: process.env.SMTP_FROM || process.env.SMTP_USER, ...message });
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to send email:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    } finally {
+      transport.close();
+    }
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,100 @@
+import { compileTemplate, escapeHtml, renderTemplate, SafeHtml, TemplateError, type CompiledTemplate, type TemplateValue } from './templateEngine';
+import { coverLetterService, type CoverLetterInput } from './coverLetter';
+import { DEFAULT_EMAIL_TEMPLATE, emailTemplateVariables, type EmailTemplateVariable } from '@shared/emailTemplates';
+import type { EmailTemplate } from '@shared/schema';
+
+const MAX_SUBJECT_LENGTH = 300;
+
+const knownVariables = new Set(Object.keys(emailTemplateVariables));
+
+type TemplateSource = Pick<EmailTemplate, 'subject' | 'textBody'> & { htmlBody?: string | null };
+
+interface CompiledEmailTemplate {
+  subject: CompiledTemplate;
+  textBody: CompiledTemplate;
+  htmlBody: CompiledTemplate | null;
+}
+
+export interface EmailTemplateInput extends CoverLetterInput {
+  coverLetter: string;
+  jobUrl?: string | null;
+}
+
+// What was sent, kept with the application
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string | null;
+  templateId: string | null; // Null for the built-in template
+  templateVersion: number | null;
+}
+
+const fieldLabels: Record<keyof TemplateSource, string> = {
+  subject: 'Subject',
+  textBody: 'Plain-text body',
+  htmlBody: 'HTML body',
+};
+
+function textToHtml(text: string): SafeHtml {
+  return new SafeHtml(text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n'));
+}
+
+/**
+ * Renders application emails from the user's templates. Job details are
+ * scraped from third-party sites, so the HTML body escapes every value.
+ */
+class EmailTemplateService {
+  /** Throws a TemplateError naming the field and line of the first problem */
+  compile(template: TemplateSource): CompiledEmailTemplate {
+    const compileField = (field: keyof TemplateSource, source: string) => {
+      try {
+        return compileTemplate(source, knownVariables);
+      } catch (error) {
+        throw error instanceof TemplateError ? error.inField(fieldLabels[field]) : error;
+      }
+    };
+
+    return {
+      subject: compileField('subject', template.subject),
+      textBody: compileField('textBody', template.textBody),
+      htmlBody: template.htmlBody ? compileField('htmlBody', template.htmlBody) : null,
+    };
+  }
+
+  variables(input: EmailTemplateInput): Record<EmailTemplateVariable, TemplateValue> {
+    const coverLetter = coverLetterService.variables(input);
+    return {
+      jobTitle: input.job.title,
+      company: input.job.company,
+      jobLocation: input.job.location,
+      jobUrl: input.jobUrl,
+      applicantName: coverLetter['applicant.name'],
+      applicantEmail: coverLetter['applicant.email'],
+      applicantPhone: coverLetter['applicant.phone'],
+      coverLetter: input.coverLetter,
+      topSkills: coverLetter['match.topSkills'],
+      matchScore: coverLetter['match.score'],
+    };
+  }
+
+  /** Renders a saved template, or the built-in one when there is none */
+  render(template: EmailTemplate | null, input: EmailTemplateInput): RenderedEmail {
+    const compiled = this.compile(template ?? DEFAULT_EMAIL_TEMPLATE);
+    const variables = this.variables(input);
+    const htmlVariables = { ...variables, coverLetter: textToHtml(input.coverLetter) };
+
+    return {
+      // A header cannot span lines
+      subject: renderTemplate(compiled.subject, variables).replace(/\s+/g, ' ').slice(0, MAX_SUBJECT_LENGTH),
+      text: renderTemplate(compiled.textBody, variables),
+      html: compiled.htmlBody ? renderTemplate(compiled.htmlBody, htmlVariables, { html: true }) : null,
+      templateId: template?.id ?? null,
+      templateVersion: template?.version ?? null,
+    };
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Readable } from "stream";
+import S3rver from "s3rver";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+
+vi.hoisted(() => {
+  process.env.UPLOAD_DIR = `${process.env.TMPDIR || "/tmp"}/file-store-test-uploads`;
+});
+
+import { FileNotFoundError, LocalFileStore, S3FileStore } from "./fileStore";
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "file-store-test-"));
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+  fs.rmSync(process.env.UPLOAD_DIR!, { recursive: true, force: true });
+});
+
+describe("LocalFileStore", () => {
+  const rootDir = path.join(tempDir, "uploads");
+  let store: LocalFileStore;
+
+  beforeEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    store = new LocalFileStore(rootDir);
+  });
+
+  it("stores, reads, lists and deletes files", async () => {
+    await store.put("cv-1.pdf", Buffer.from("first CV"));
+    await store.put("cv-2.docx", Buffer.from("second CV"));
+
+    expect(await store.exists("cv-1.pdf")).toBe(true);
+    expect(await readAll(await store.getStream("cv-1.pdf"))).toBe("first CV");
+    expect((await store.list()).map(file => file.key).sort()).toEqual(["cv-1.pdf", "cv-2.docx"]);
+
+    await store.delete("cv-1.pdf");
+    expect(await store.exists("cv-1.pdf")).toBe(false);
+    await expect(store.getStream("cv-1.pdf")).rejects.toBeInstanceOf(FileNotFoundError);
+    // Deleting a missing file is not an error
+    await expect(store.delete("cv-1.pdf")).resolves.toBeUndefined();
+  });
+
+  it("lists only stored files, not dotfiles or directories", async () => {
+    await store.put("cv.pdf", Buffer.from("CV"));
+    fs.writeFileSync(path.join(rootDir, ".gitkeep"), "");
+    fs.mkdirSync(path.join(rootDir, "nested"));
+
+    expect((await store.list()).map(file => file.key)).toEqual(["cv.pdf"]);
+    expect(await store.exists("nested")).toBe(false);
+  });
+
+  it.each([
+    "../outside.pdf",
+    "..",
+    "nested/cv.pdf",
+    "nested\\cv.pdf",
+    "/etc/passwd",
+    ".hidden",
+    "",
+  ])("rejects the key %j", async key => {
+    await expect(store.put(key, Buffer.from("x"))).rejects.toThrow(/Invalid file key/);
+    await expect(store.getStream(key)).rejects.toThrow();
+    await expect(store.delete(key)).rejects.toThrow(/Invalid file key/);
+    expect(await store.exists(key)).toBe(false);
+  });
+
+  it("never writes outside its directory", async () => {
+    await expect(store.put("../escaped.pdf", Buffer.from("x"))).rejects.toThrow(/Invalid file key/);
+
+    expect(fs.existsSync(path.join(tempDir, "escaped.pdf"))).toBe(false);
+  });
+});
+
+describe("S3FileStore against a local S3 stand-in", () => {
+  const bucket = "cvs";
+  let server: S3rver;
+  let endpoint: string;
+  let store: S3FileStore;
+
+  const options = () => ({
+    bucket,
+    region: "us-east-1",
+    endpoint,
+    accessKeyId: "S3RVER",
+    secretAccessKey: "S3RVER",
+    forcePathStyle: true,
+  });
+
+  beforeAll(async () => {
+    server = new S3rver({
+      address: "127.0.0.1",
+      port: 0,
+      silent: true,
+      directory: path.join(tempDir, "s3"),
+      configureBuckets: [{ name: bucket }],
+    });
+    const { port } = (await server.run()) as AddressInfo;
+    endpoint = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  // Each test works under its own prefix of the shared bucket
+  let prefix: string;
+  let testNumber = 0;
+  beforeEach(() => {
+    prefix = `uploads-${++testNumber}`;
+    store = new S3FileStore({ ...options(), prefix: `${prefix}/` });
+  });
+
+  it("stores, reads, lists and deletes objects under its prefix", async () => {
+    await store.put("cv-1.pdf", Buffer.from("first CV"), "application/pdf");
+    await store.put("cv-2.docx", Buffer.from("second CV"));
+
+    expect(await store.exists("cv-1.pdf")).toBe(true);
+    expect(await readAll(await store.getStream("cv-1.pdf"))).toBe("first CV");
+    const listed = await store.list();
+    expect(listed.map(file => file.key).sort()).toEqual(["cv-1.pdf", "cv-2.docx"]);
+    expect(listed[0].lastModified).toBeInstanceOf(Date);
+
+    await store.delete("cv-1.pdf");
+    expect(await store.exists("cv-1.pdf")).toBe(false);
+    await expect(store.getStream("cv-1.pdf")).rejects.toBeInstanceOf(FileNotFoundError);
+    await expect(store.delete("cv-1.pdf")).resolves.toBeUndefined();
+  });
+
+  it("lists only objects it could have written", async () => {
+    await store.put("cv.pdf", Buffer.from("CV"));
+    const client = new S3Client({
+      region: "us-east-1",
+      endpoint,
+      forcePathStyle: true,
+      credentials: { accessKeyId: "S3RVER", secretAccessKey: "S3RVER" },
+    });
+    await client.send(new PutObjectCommand({ Bucket: bucket, Key: "other.pdf", Body: "outside the prefix" }));
+    await client.send(new PutObjectCommand({ Bucket: bucket, Key: `${prefix}/nested/cv.pdf`, Body: "nested" }));
+
+    expect((await store.list()).map(file => file.key)).toEqual(["cv.pdf"]);
+    expect(await new S3FileStore(options()).exists("other.pdf")).toBe(true);
+  });
+
+  it("rejects invalid keys before sending a request", async () => {
+    await expect(store.put("../cv.pdf", Buffer.from("x"))).rejects.toThrow(/Invalid file key/);
+    await expect(store.exists("nested/cv.pdf")).rejects.toThrow(/Invalid file key/);
+  });
+});
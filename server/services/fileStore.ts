@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+
+export interface StoredFile {
+  key: string;
+  lastModified: Date;
+}
+
+/**
+ * Where uploaded CVs live. Keys are flat, opaque names (the `cvs.filename`
+ * column); callers never build paths themselves.
+ */
+export interface FileStore {
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  getStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  list(): Promise<StoredFile[]>;
+}
+
+export class FileNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Stored file not found: ${key}`);
+    this.name = 'FileNotFoundError';
+  }
+}
+
+const KEY_REGEX = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+function assertValidKey(key: string): void {
+  if (!KEY_REGEX.test(key)) {
+    throw new Error(`Invalid file key: ${key}`);
+  }
+}
+
+export class LocalFileStore implements FileStore {
+  constructor(private readonly rootDir: string) {
+    if (!fs.existsSync(rootDir)) {
+      fs.mkdirSync(rootDir, { recursive: true });
+    }
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.resolve(key), body);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    if (!(await this.exists(key))) {
+      throw new FileNotFoundError(key);
+    }
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async list(): Promise<StoredFile[]> {
+    const entries = await fs.promises.readdir(this.rootDir, { withFileTypes: true });
+    const files: StoredFile[] = [];
+    for (const entry of entries) {
+      // Dotfiles such as uploads/.gitkeep are not stored CVs
+      if (!entry.isFile() || !KEY_REGEX.test(entry.name)) continue;
+      const stats = await fs.promises.stat(path.join(this.rootDir, entry.name));
+      files.push({ key: entry.name, lastModified: stats.mtime });
+    }
+    return files;
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootDir, key);
+  }
+}
+
+export interface S3FileStoreOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // Set for S3-compatible services such as MinIO or R2
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+}
+
+export class S3FileStore implements FileStore {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3FileStoreOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? `${options.prefix.replace(/\/+$/, '')}/` : '';
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      // Without explicit keys the SDK falls back to its default credential chain
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: body,
+      ContentType: contentType,
+    }));
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+      }));
+      if (!response.Body) {
+        throw new FileNotFoundError(key);
+      }
+      return response.Body as Readable;
+    } catch (error) {
+      if (this.isNotFound(error)) throw new FileNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 treats deleting a missing object as success
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+      }));
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async list(): Promise<StoredFile[]> {
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        const key = object.Key.slice(this.prefix.length);
+        // Objects nested deeper under the prefix were not written by this store
+        if (!KEY_REGEX.test(key)) continue;
+        files.push({ key, lastModified: object.LastModified ?? new Date() });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  private objectKey(key: string): string {
+    assertValidKey(key);
+    return `${this.prefix}${key}`;
+  }
+
+  private isNotFound(error: unknown): boolean {
+    const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return err?.name === 'NoSuchKey' || err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404;
+  }
+}
+
+export function createFileStore(): FileStore {
+  const driver = process.env.FILE_STORE_DRIVER || 'local';
+
+  if (driver === 'local') {
+    return new LocalFileStore(process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'));
+  }
+
+  if (driver === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when FILE_STORE_DRIVER is "s3"');
+    }
+    return new S3FileStore({
+      bucket,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      prefix: process.env.S3_PREFIX,
+    });
+  }
+
+  throw new Error(`Unknown FILE_STORE_DRIVER: ${driver}`);
+}
+
+export const fileStore = createFileStore();
+
+/** Reads a stored file fully into memory, e.g. for parsing or email attachments */
+export async function readStoredFile(key: string): Promise<Buffer> {
+  const stream = await fileStore.getStream(key);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
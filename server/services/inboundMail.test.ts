@@ -0,0 +1,264 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AddressInfo } from "net";
+import { SMTPServer } from "smtp-server";
+import { ImapFlow } from "imapflow";
+import { simpleParser, type ParsedMail } from "mailparser";
+import hoodiecrow from "hoodiecrow-imap";
+import type { Application, InboundMailbox } from "@shared/schema";
+import type { ApplicationStatusChange } from "../storage";
+
+const { applications, mailboxes, outage } = vi.hoisted(() => ({
+  applications: new Map<string, Application>(),
+  mailboxes: new Map<string, InboundMailbox>(),
+  // How many more status updates fail, as when the database is unreachable
+  outage: { failures: 0 },
+}));
+
+vi.mock("../storage", () => ({
+  storage: {
+    getApplication: async (userId: string, id: string) => {
+      const application = applications.get(id);
+      return application?.userId === userId ? application : undefined;
+    },
+    getApplicationByReplyToken: async (replyToken: string) =>
+      Array.from(applications.values()).find(application => application.replyToken === replyToken),
+    updateApplicationStatus: async (userId: string, id: string, change: ApplicationStatusChange) => {
+      if (outage.failures > 0) {
+        outage.failures--;
+        throw new Error("Database unavailable");
+      }
+      const application = applications.get(id);
+      if (application?.userId !== userId || application.status !== change.from) return undefined;
+      const updated = {
+        ...application,
+        status: change.to,
+        responseData: change.responseData ?? application.responseData,
+      };
+      applications.set(id, updated);
+      return updated;
+    },
+    getInboundMailbox: async (mailbox: string) => mailboxes.get(mailbox),
+    saveInboundMailboxCursor: async (mailbox: string, uidValidity: string, lastUid: number) => {
+      mailboxes.set(mailbox, { mailbox, uidValidity, lastUid } as InboundMailbox);
+    },
+  },
+}));
+
+import { emailService } from "./emailService";
+import { inboundMailService } from "./inboundMail";
+
+// Local stand-ins: an SMTP server that keeps what the app sends, and an IMAP
+// server holding the mailbox that replies arrive in
+const sent: ParsedMail[] = [];
+const smtp = new SMTPServer({
+  disabledCommands: ["STARTTLS", "AUTH"],
+  logger: false,
+  onData(stream, _session, callback) {
+    simpleParser(stream).then(mail => {
+      sent.push(mail);
+      callback();
+    }, callback);
+  },
+});
+let imap: ReturnType<typeof hoodiecrow>;
+
+const ENV = [
+  "SMTP_HOST", "SMTP_PORT", "SMTP_USER", "SMTP_FROM", "APP_URL", "INBOUND_REPLY_ADDRESS",
+  "IMAP_HOST", "IMAP_PORT", "IMAP_SECURE", "IMAP_USER", "IMAP_PASSWORD", "IMAP_MAILBOX",
+] as const;
+const savedEnv = Object.fromEntries(ENV.map(name => [name, process.env[name]]));
+
+beforeAll(async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  await new Promise<void>(resolve => smtp.listen(0, "127.0.0.1", resolve));
+  imap = hoodiecrow({});
+  await new Promise<void>(resolve => imap.listen(0, "127.0.0.1", resolve));
+  for (const name of ENV) delete process.env[name];
+  Object.assign(process.env, {
+    SMTP_HOST: "127.0.0.1",
+    SMTP_PORT: String((smtp.server.address() as AddressInfo).port),
+    SMTP_FROM: "Jane Doe <jane@example.com>",
+    INBOUND_REPLY_ADDRESS: "replies@jobs.example.com",
+    IMAP_HOST: "127.0.0.1",
+    IMAP_PORT: String((imap.server.address() as AddressInfo).port),
+    IMAP_SECURE: "false",
+    IMAP_USER: "testuser",
+    IMAP_PASSWORD: "testpass",
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => smtp.close(resolve));
+  await new Promise<void>(resolve => imap.close(() => resolve()));
+  for (const name of ENV) {
+    if (savedEnv[name] === undefined) delete process.env[name];
+    else process.env[name] = savedEnv[name];
+  }
+});
+
+beforeEach(() => {
+  sent.length = 0;
+  applications.clear();
+  outage.failures = 0;
+});
+
+function createApplication(): Application {
+  const application = {
+    id: `app-${applications.size + 1}`,
+    userId: "user-1",
+    status: "sent",
+    replyToken: inboundMailService.newReplyToken(),
+    responseData: null,
+  } as Application;
+  applications.set(application.id, application);
+  return application;
+}
+
+async function sendApplication(application: Application): Promise<ParsedMail> {
+  const result = await emailService.sendJobApplication({
+    to: "hiring@acme.example",
+    jobTitle: "Backend Engineer",
+    company: "Acme",
+    cvContent: Buffer.from("%PDF-1.4 Jane Doe CV"),
+    cvOriginalName: "Jane Doe CV.pdf",
+    applicantName: "Jane Doe",
+    subject: "Backend Engineer application from Jane Doe",
+    text: "Please find my CV attached.",
+    ...inboundMailService.threadingHeaders(application.replyToken!),
+  });
+  expect(result).toEqual({ success: true });
+  expect(sent).toHaveLength(1);
+  return sent[0];
+}
+
+// Delivers a message to the IMAP mailbox the way a mail server would
+async function deliver(lines: string[]): Promise<void> {
+  const client = new ImapFlow({
+    host: "127.0.0.1",
+    port: Number(process.env.IMAP_PORT),
+    secure: false,
+    auth: { user: "testuser", pass: "testpass" },
+    logger: false,
+  });
+  await client.connect();
+  try {
+    await client.append("INBOX", lines.join("\r\n"));
+  } finally {
+    await client.logout();
+  }
+}
+
+describe("reply threading", () => {
+  it("sends applications with the Message-ID and Reply-To that carry the reply token", async () => {
+    const application = createApplication();
+    const mail = await sendApplication(application);
+
+    expect(mail.messageId).toBe(`<application.${application.replyToken}@jobs.example.com>`);
+    expect(mail.replyTo?.text).toBe(`replies+${application.replyToken}@jobs.example.com`);
+    expect(mail.from?.text).toBe('"Jane Doe" <jane@example.com>');
+  });
+
+  it("matches a reply that arrives over IMAP to the application it answers", async () => {
+    const application = createApplication();
+    const other = createApplication();
+    const mail = await sendApplication(application);
+
+    await deliver([
+      // Sent to the applicant rather than the Reply-To, so only the threading headers match it
+      "From: Acme Recruiting <hiring@acme.example>",
+      `To: ${mail.from!.text}`,
+      "Subject: Re: Backend Engineer application from Jane Doe",
+      "Message-ID: <reply-1@acme.example>",
+      `In-Reply-To: ${mail.messageId}`,
+      `References: ${mail.messageId}`,
+      "Date: Mon, 19 Oct 2026 10:00:00 +0000",
+      "",
+      "Hi Jane, we would like to invite you to an interview. When are you available?",
+      "",
+    ]);
+
+    await expect(inboundMailService.poll()).resolves.toBe(1);
+    expect(applications.get(application.id)).toMatchObject({
+      status: "interview",
+      responseData: {
+        classification: "interview",
+        from: '"Acme Recruiting" <hiring@acme.example>',
+        messageId: "<reply-1@acme.example>",
+      },
+    });
+    expect(applications.get(other.id)).toMatchObject({ status: "sent", responseData: null });
+
+    // The cursor moved past the reply, so it is not read twice
+    await expect(inboundMailService.poll()).resolves.toBe(0);
+  });
+
+  it("matches a reply by the plus address when the threading headers are gone", async () => {
+    const application = createApplication();
+    const mail = await sendApplication(application);
+
+    await deliver([
+      "From: Acme Recruiting <hiring@acme.example>",
+      `To: ${mail.replyTo!.text}`,
+      "Subject: Your application",
+      "Message-ID: <reply-2@acme.example>",
+      "Date: Mon, 19 Oct 2026 11:00:00 +0000",
+      "",
+      "Unfortunately we have decided to move forward with other candidates.",
+      "",
+    ]);
+
+    await expect(inboundMailService.poll()).resolves.toBe(1);
+    expect(applications.get(application.id)).toMatchObject({
+      status: "rejected",
+      responseData: { classification: "rejection", messageId: "<reply-2@acme.example>" },
+    });
+  });
+
+  it("retries a reply that failed to process on the next poll", async () => {
+    const application = createApplication();
+    const mail = await sendApplication(application);
+    await deliver(reply(mail, "<reply-3@acme.example>", "We would like to invite you to an interview."));
+
+    outage.failures = 1;
+    await expect(inboundMailService.poll()).resolves.toBe(0);
+    expect(applications.get(application.id)?.status).toBe("sent");
+
+    await expect(inboundMailService.poll()).resolves.toBe(1);
+    expect(applications.get(application.id)).toMatchObject({
+      status: "interview",
+      responseData: { messageId: "<reply-3@acme.example>" },
+    });
+  });
+
+  it("does not let a reply that keeps failing hold up the ones after it", async () => {
+    const stuck = createApplication();
+    const next = createApplication();
+    await deliver(reply(await sendApplication(stuck), "<reply-4@acme.example>", "We would like to invite you to an interview."));
+    sent.length = 0;
+    await deliver(reply(await sendApplication(next), "<reply-5@acme.example>", "We would like to invite you to an interview."));
+
+    outage.failures = Infinity;
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await expect(inboundMailService.poll()).resolves.toBe(0);
+    }
+    outage.failures = 1;
+    // The fifth failure skips the stuck reply; the next one is then processed
+    await expect(inboundMailService.poll()).resolves.toBe(1);
+    expect(applications.get(stuck.id)?.status).toBe("sent");
+    expect(applications.get(next.id)?.status).toBe("interview");
+  });
+});
+
+function reply(mail: ParsedMail, messageId: string, text: string): string[] {
+  return [
+    "From: Acme Recruiting <hiring@acme.example>",
+    `To: ${mail.from!.text}`,
+    `Subject: Re: ${mail.subject}`,
+    `Message-ID: ${messageId}`,
+    `In-Reply-To: ${mail.messageId}`,
+    "Date: Mon, 19 Oct 2026 12:00:00 +0000",
+    "",
+    text,
+    "",
+  ];
+}
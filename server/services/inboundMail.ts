@@ -0,0 +1,209 @@
+import { randomBytes } from 'crypto';
+import { ImapFlow, type ImapFlowOptions } from 'imapflow';
+import { simpleParser, type AddressObject, type ParsedMail } from 'mailparser';
+import { storage } from '../storage';
+import { classifyReply, stripQuotedText } from './replyClassifier';
+import { applicationStatusService } from './applicationStatus';
+import { canTransition } from '@shared/applicationStatus';
+import type { Application, ApplicationReply, ApplicationStatus, ReplyClassification } from '@shared/schema';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+const MAX_REPLY_LENGTH = 10000;
+// Polls a message that fails is retried on before it is skipped
+const MAX_MESSAGE_ATTEMPTS = 5;
+
+// Application emails go out as <application.TOKEN@domain>, and replies are
+// threaded to that id. With INBOUND_REPLY_ADDRESS set they are also sent
+// to its plus address, e.g. replies+TOKEN@example.com.
+const REPLY_TOKEN = /^[a-f0-9]{24}$/;
+const MESSAGE_ID_TOKEN = /^<?application\.([a-f0-9]{24})@/;
+const PLUS_ADDRESS_TOKEN = /^[^@+]+\+([a-f0-9]{24})@/i;
+
+// Other replies are recorded without moving the application on
+const replyStatuses: Partial<Record<ReplyClassification, ApplicationStatus>> = {
+  interview: 'interview',
+  rejection: 'rejected',
+};
+
+interface ImapConfig {
+  options: ImapFlowOptions;
+  mailbox: string;
+}
+
+function imapConfig(): ImapConfig | undefined {
+  const host = process.env.IMAP_HOST;
+  if (!host) return undefined;
+
+  return {
+    options: {
+      host,
+      port: parseInt(process.env.IMAP_PORT || '', 10) || 993,
+      // Without TLS, STARTTLS is still used when the server offers it
+      secure: process.env.IMAP_SECURE !== 'false',
+      auth: { user: process.env.IMAP_USER || '', pass: process.env.IMAP_PASSWORD || '' },
+      logger: false,
+    },
+    mailbox: process.env.IMAP_MAILBOX || 'INBOX',
+  };
+}
+
+function addresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects.flatMap(object => object.value.map(address => address.address ?? ''));
+}
+
+/**
+ * Matches replies to sent applications by polling an IMAP mailbox, and
+ * records what each reply says. The mailbox itself is left untouched;
+ * how far it has been read is kept in the database.
+ */
+class InboundMailService {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  // Failed attempts per message, by mailbox, UIDVALIDITY and UID; a restart retries afresh
+  private failedAttempts = new Map<string, number>();
+
+  start(): void {
+    if (this.timer) return;
+    if (!imapConfig()) {
+      console.log('Reply tracking disabled: IMAP_HOST is not set');
+      return;
+    }
+
+    const minutes = parseInt(process.env.INBOUND_POLL_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Inbound mail poll failed:', error));
+    }, minutes * 60 * 1000);
+    this.timer.unref();
+    console.log(`Reply tracking started, interval: ${minutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  newReplyToken(): string {
+    return randomBytes(12).toString('hex');
+  }
+
+  /** Headers that bring replies to an application back to it */
+  threadingHeaders(replyToken: string): { messageId: string; replyTo?: string } {
+    const replyAddress = process.env.INBOUND_REPLY_ADDRESS;
+    const domain = replyAddress?.split('@')[1]
+      || new URL(process.env.APP_URL || 'http://localhost').hostname;
+
+    return {
+      messageId: `<application.${replyToken}@${domain}>`,
+      replyTo: replyAddress ? replyAddress.replace('@', `+${replyToken}@`) : undefined,
+    };
+  }
+
+  /** Reads messages that arrived since the last poll; returns how many matched an application */
+  async poll(): Promise<number> {
+    const config = imapConfig();
+    if (!config || this.running) return 0;
+    this.running = true;
+
+    const client = new ImapFlow(config.options);
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock(config.mailbox);
+      try {
+        if (!client.mailbox) return 0;
+        const uidValidity = client.mailbox.uidValidity.toString();
+        const state = await storage.getInboundMailbox(config.mailbox);
+        const lastUid = state?.uidValidity === uidValidity ? state.lastUid : 0;
+        if (client.mailbox.uidNext <= lastUid + 1) return 0;
+
+        let matched = 0;
+        // "n:*" always includes the newest message, even when it is older than n
+        for await (const message of client.fetch(`${lastUid + 1}:*`, { uid: true, source: true }, { uid: true })) {
+          if (message.uid <= lastUid) continue;
+          const key = `${config.mailbox}:${uidValidity}:${message.uid}`;
+          try {
+            if (message.source && await this.processMessage(message.source)) matched++;
+            this.failedAttempts.delete(key);
+          } catch (error) {
+            // The cursor stays before a failed message so the next poll retries
+            // it, unless it has failed too often to be worth holding the mailbox up
+            const attempts = (this.failedAttempts.get(key) ?? 0) + 1;
+            if (attempts < MAX_MESSAGE_ATTEMPTS) {
+              this.failedAttempts.set(key, attempts);
+              console.error(`Failed to process inbound message ${message.uid}, attempt ${attempts}; will retry:`, error);
+              break;
+            }
+            this.failedAttempts.delete(key);
+            console.error(`Skipping inbound message ${message.uid} after ${attempts} failed attempts:`, error);
+          }
+          await storage.saveInboundMailboxCursor(config.mailbox, uidValidity, message.uid);
+        }
+        return matched;
+      } finally {
+        lock.release();
+      }
+    } finally {
+      this.running = false;
+      await client.logout().catch(() => client.close());
+    }
+  }
+
+  /**
+   * Records a raw message as a reply to the application it answers.
+   * Returns that application, or undefined when the message answers none.
+   */
+  async processMessage(source: Buffer): Promise<Application | undefined> {
+    const mail = await simpleParser(source);
+    const application = await this.findApplication(mail);
+    if (!application) return undefined;
+
+    const headers = new Map(mail.headerLines.map(({ key, line }) => [key, line.slice(line.indexOf(':') + 1).trim()]));
+    const subject = mail.subject ?? '';
+    const text = stripQuotedText(mail.text ?? '');
+    const reply: ApplicationReply = {
+      classification: classifyReply({ subject, text, headers }),
+      from: mail.from?.text ?? '',
+      subject,
+      text: text.slice(0, MAX_REPLY_LENGTH),
+      messageId: mail.messageId ?? null,
+      receivedAt: (mail.date ?? new Date()).toISOString(),
+    };
+
+    const previous = application.responseData as Partial<ApplicationReply> | null;
+    if (reply.messageId && previous?.messageId === reply.messageId) return application;
+    // An acknowledgement arriving late never hides a real answer
+    const keepsPrevious = reply.classification === 'auto_ack' && !!previous?.classification && previous.classification !== 'auto_ack';
+    const change = {
+      source: 'reply' as const,
+      data: { classification: reply.classification, from: reply.from, subject: reply.subject },
+      responseData: keepsPrevious ? undefined : reply,
+    };
+
+    // A reply the status cannot follow, such as a rejection after the user withdrew, is only recorded
+    const target = replyStatuses[reply.classification];
+    if (target && canTransition(application.status, target)) {
+      return await applicationStatusService.transition(application.userId, application.id, target, change);
+    }
+    return await applicationStatusService.record(application.userId, application.id, change);
+  }
+
+  // Threading headers first, then a plus address the reply was sent to
+  private async findApplication(mail: ParsedMail): Promise<Application | undefined> {
+    const references = Array.isArray(mail.references) ? [...mail.references].reverse() : mail.references ? [mail.references] : [];
+    const tokens = [
+      ...[mail.inReplyTo, ...references].map(id => id?.match(MESSAGE_ID_TOKEN)?.[1]),
+      ...[...addresses(mail.to), ...addresses(mail.cc)].map(address => address.match(PLUS_ADDRESS_TOKEN)?.[1]?.toLowerCase()),
+    ];
+
+    for (const token of Array.from(new Set(tokens))) {
+      if (!token || !REPLY_TOKEN.test(token)) continue;
+      const application = await storage.getApplicationByReplyToken(token);
+      if (application) return application;
+    }
+    return undefined;
+  }
+}
+
+export const inboundMailService = new InboundMailService();
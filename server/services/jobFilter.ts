@@ -0,0 +1,150 @@
+import { employmentTypes, type EmploymentType, type JobFilters, type JobPreferences, type JobSkipReason } from '@shared/schema';
+
+// The parts of a search result the filters read. Job boards fill these in
+// unevenly, so a rule only rejects a job when the job states the value.
+export interface JobListing {
+  title: string;
+  company: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  source: string;
+  contactEmail?: string;
+  salary?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  jobType?: string;
+  industry?: string;
+  remote?: boolean;
+}
+
+export interface JobRejection {
+  reason: JobSkipReason;
+  detail: string;
+}
+
+const employmentTypeAliases: Record<string, EmploymentType> = {
+  'full-time': 'full-time',
+  fulltime: 'full-time',
+  permanent: 'full-time',
+  'part-time': 'part-time',
+  parttime: 'part-time',
+  contract: 'contract',
+  contractor: 'contract',
+  freelance: 'contract',
+  temporary: 'temporary',
+  temp: 'temporary',
+  internship: 'internship',
+  intern: 'internship',
+};
+
+const REMOTE_PATTERN = /\b(remote|work from home|wfh)\b/i;
+
+export function jobFiltersFrom(preferences: JobPreferences): JobFilters {
+  return {
+    industries: preferences.industries,
+    salaryMin: preferences.salaryMin,
+    salaryMax: preferences.salaryMax,
+    jobTypes: preferences.jobTypes,
+    remotePreference: preferences.remotePreference,
+    excludedCompanies: preferences.excludedCompanies,
+    excludedKeywords: preferences.excludedKeywords,
+    minMatchScore: preferences.minMatchScore,
+  };
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function employmentType(job: JobListing): EmploymentType | undefined {
+  if (!job.jobType) return undefined;
+  return employmentTypeAliases[job.jobType.toLowerCase().trim().replace(/[\s_]+/g, '-')];
+}
+
+function isRemote(job: JobListing): boolean {
+  if (typeof job.remote === 'boolean') return job.remote;
+  return REMOTE_PATTERN.test(`${job.title} ${job.location ?? ''}`);
+}
+
+// Reads "R25 000 - R35 000", "30k-40k" or "45,000" into a range
+function salaryRange(job: JobListing): { min: number; max: number } | undefined {
+  if (job.salaryMin !== undefined || job.salaryMax !== undefined) {
+    const min = job.salaryMin ?? job.salaryMax!;
+    return { min, max: job.salaryMax ?? min };
+  }
+  if (!job.salary) return undefined;
+
+  const amounts = Array.from(job.salary.matchAll(/(\d[\d\s,]*(?:\.\d+)?)\s*(k)?\b/gi))
+    .map(([, digits, thousands]) => parseFloat(digits.replace(/[\s,]/g, '')) * (thousands ? 1000 : 1))
+    // Skip stray small numbers such as "12 months"
+    .filter(amount => amount >= 1000);
+  if (amounts.length === 0) return undefined;
+  return { min: Math.min(...amounts), max: Math.max(...amounts) };
+}
+
+/**
+ * Checks a job against a profile's rules. Returns why it was rejected, or
+ * null when it may be applied to. Rules run cheapest and most decisive first.
+ */
+export function filterJob(job: JobListing, filters: JobFilters): JobRejection | null {
+  const company = normalize(job.company);
+  const excludedCompany = filters.excludedCompanies.find(name => normalize(name) && company.includes(normalize(name)));
+  if (excludedCompany) {
+    return { reason: 'excluded_company', detail: `${job.company} is excluded` };
+  }
+
+  const text = `${job.title} ${job.description ?? ''}`;
+  const excludedKeyword = filters.excludedKeywords.find(keyword =>
+    // Whole words only; \b does not work for keywords such as "C++"
+    new RegExp(`(^|\\W)${escapeRegExp(keyword.trim())}(?=\\W|$)`, 'i').test(text)
+  );
+  if (excludedKeyword) {
+    return { reason: 'excluded_keyword', detail: `Mentions "${excludedKeyword}"` };
+  }
+
+  // Older profiles may list "remote" here; only employment types count
+  const wantedTypes = filters.jobTypes.filter((type): type is EmploymentType => (employmentTypes as readonly string[]).includes(type));
+  const type = employmentType(job);
+  if (wantedTypes.length > 0 && type && !wantedTypes.includes(type)) {
+    return { reason: 'job_type', detail: `${type} is not one of ${wantedTypes.join(', ')}` };
+  }
+
+  if (filters.remotePreference !== 'any') {
+    const remote = isRemote(job);
+    if (filters.remotePreference === 'remote' && !remote) {
+      return { reason: 'remote', detail: 'Not a remote job' };
+    }
+    if (filters.remotePreference === 'onsite' && remote) {
+      return { reason: 'remote', detail: 'Remote job' };
+    }
+  }
+
+  if (filters.industries.length > 0 && job.industry) {
+    const industry = normalize(job.industry);
+    const matches = filters.industries.some(wanted => {
+      const normalized = normalize(wanted);
+      return normalized && (industry.includes(normalized) || normalized.includes(industry));
+    });
+    if (!matches) {
+      return { reason: 'industry', detail: `${job.industry} is not one of ${filters.industries.join(', ')}` };
+    }
+  }
+
+  const salary = salaryRange(job);
+  if (salary) {
+    // Any overlap between the offered and wanted ranges is enough
+    if (filters.salaryMin !== null && salary.max < filters.salaryMin) {
+      return { reason: 'salary', detail: `Pays up to ${salary.max}, below the minimum of ${filters.salaryMin}` };
+    }
+    if (filters.salaryMax !== null && salary.min > filters.salaryMax) {
+      return { reason: 'salary', detail: `Pays from ${salary.min}, above the maximum of ${filters.salaryMax}` };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,239 @@
+import { skillsTaxonomyService } from './skillsTaxonomy';
+import { seniorityLevels, type MatchExplanation, type ParsedCVData, type SeniorityLevel } from '@shared/schema';
+
+export interface ScorableJob {
+  title: string;
+  description?: string | null;
+}
+
+// Share of the final score; components with nothing to compare are left out
+// and the remaining weights scaled up
+const WEIGHTS = { skills: 0.4, keywords: 0.3, seniority: 0.2, education: 0.1 };
+
+// Cosine similarity between a CV and a job description rarely gets much past
+// this even for a strong fit, so it already counts as full marks
+const FULL_KEYWORD_SIMILARITY = 0.35;
+
+// Closeness of seniority, by how many levels apart the job and CV are
+const SENIORITY_SCORES = [1, 0.6, 0.2, 0];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'you', 'your', 'our', 'are', 'will', 'have', 'has', 'this', 'that', 'from',
+  'who', 'all', 'can', 'job', 'role', 'work', 'team', 'company', 'about', 'into', 'their', 'they', 'was',
+  'were', 'been', 'being', 'not', 'but', 'any', 'other', 'able', 'must', 'should', 'would', 'also', 'such',
+  'per', 'etc', 'using', 'use', 'used', 'within', 'across', 'including', 'well', 'more', 'new', 'strong',
+]);
+
+// Checked in order, so "Senior Manager" reads as lead rather than senior
+const senioritySignals: [SeniorityLevel, RegExp][] = [
+  ['intern', /\b(intern|internship|graduate|trainee|learnership)\b/i],
+  ['principal', /\b(principal|head of|director|chief|vp)\b/i],
+  ['lead', /\b(lead|staff|manager|architect)\b/i],
+  ['senior', /\b(senior|sr)\b/i],
+  ['junior', /\b(junior|jr|entry[\s-]level)\b/i],
+  ['mid', /\b(mid[\s-]?level|intermediate)\b/i],
+];
+
+// Highest first, so a CV takes its best qualification
+const educationLevels: [number, string, RegExp][] = [
+  [6, 'a doctorate', /\b(phd|ph\.d|doctorate|doctoral)\b/i],
+  [5, "a master's degree", /\b(master'?s?|msc|m\.sc|mba)\b/i],
+  [4, 'an honours degree', /\b(honours|honors|hons)\b/i],
+  [3, "a bachelor's degree", /\b(bachelor'?s?|degree|bsc|b\.sc|bcom|b\.com|beng|btech)\b/i],
+  [2, 'a diploma', /\b(diploma|certificate)\b/i],
+  [1, 'matric', /\b(matric|grade 12|high school|nsc)\b/i],
+];
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9+#]*/g) ?? [])
+    .filter(token => token.length > 2 && !STOPWORDS.has(token))
+    // Light stemming, so "developers" and "developer" count as one term
+    .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+function termCounts(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Sublinear TF-IDF weights
+function weigh(counts: Map<string, number>, idf: Map<string, number>): Map<string, number> {
+  const weights = new Map<string, number>();
+  counts.forEach((count, term) => weights.set(term, (1 + Math.log(count)) * (idf.get(term) ?? 0)));
+  return weights;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) ?? 0);
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+function levelFromYears(years: number): SeniorityLevel {
+  if (years < 1) return 'intern';
+  if (years < 3) return 'junior';
+  if (years < 6) return 'mid';
+  if (years < 9) return 'senior';
+  if (years < 13) return 'lead';
+  return 'principal';
+}
+
+function levelFromTitle(title: string): SeniorityLevel | null {
+  return senioritySignals.find(([, pattern]) => pattern.test(title))?.[0] ?? null;
+}
+
+function jobSeniority(job: ScorableJob): SeniorityLevel | null {
+  const fromTitle = levelFromTitle(job.title);
+  if (fromTitle) return fromTitle;
+
+  // "5+ years", "3-5 years of experience"
+  const years = job.description?.match(/\b(\d{1,2})\s*\+?\s*(?:-|to)?\s*(?:\d{1,2}\s*)?years?\b/i);
+  return years ? levelFromYears(parseInt(years[1], 10)) : null;
+}
+
+function cvSeniority(cv: ParsedCVData): SeniorityLevel | null {
+  const latestTitle = cv.experience?.find(entry => entry.title)?.title;
+  const fromTitle = latestTitle ? levelFromTitle(latestTitle) : null;
+  if (fromTitle) return fromTitle;
+  return cv.totalYearsExperience !== undefined ? levelFromYears(cv.totalYearsExperience) : null;
+}
+
+function educationLevel(text: string, pick: 'highest' | 'lowest'): { level: number; label: string } | null {
+  const found = educationLevels.filter(([, , pattern]) => pattern.test(text));
+  if (found.length === 0) return null;
+  const [level, label] = pick === 'highest' ? found[0] : found[found.length - 1];
+  return { level, label };
+}
+
+function cvText(cv: ParsedCVData): string {
+  return [
+    cv.summary,
+    ...(cv.skills ?? []),
+    ...(cv.experience ?? []).flatMap(entry => [entry.title, ...entry.bullets]),
+    ...(cv.education ?? []).map(entry => entry.degree),
+  ].filter(Boolean).join('\n');
+}
+
+// Taxonomy ids of the CV's skills. The skills list reflects manual
+// corrections; skill matches are only from the original extraction.
+function cvSkillIds(cv: ParsedCVData): Set<string> {
+  if (cv.skills) {
+    return new Set(cv.skills.map(skill => skillsTaxonomyService.resolve(skill)?.id ?? skill.trim().toLowerCase()));
+  }
+  return new Set((cv.skillMatches ?? []).map(match => match.id));
+}
+
+function listNames(names: string[], limit = 5): string {
+  return names.length > limit ? `${names.slice(0, limit).join(', ')} and ${names.length - limit} more` : names.join(', ');
+}
+
+/**
+ * Scores how well a parsed CV fits a job, from 0 to 100, combining taxonomy
+ * skill overlap, TF-IDF similarity of the text, seniority and education.
+ */
+class MatchScorerService {
+  /** Whether the CV has enough extracted detail to be scored at all */
+  canScore(cv: ParsedCVData): boolean {
+    return Boolean(cv.skills?.length || cv.skillMatches?.length || cv.experience?.length || cv.summary);
+  }
+
+  score(cv: ParsedCVData, job: ScorableJob): MatchExplanation {
+    return this.scoreJobs(cv, [job])[0];
+  }
+
+  /**
+   * Scores several jobs at once. Term weights come from the jobs scored
+   * together, so words every listing uses count for little.
+   */
+  scoreJobs(cv: ParsedCVData, jobs: ScorableJob[]): MatchExplanation[] {
+    const cvCounts = termCounts(tokenize(cvText(cv)));
+    // The title is counted twice; it says more about the job than any one line of the description
+    const jobCounts = jobs.map(job => termCounts(tokenize(`${job.title}\n${job.title}\n${job.description ?? ''}`)));
+
+    const documentFrequency = new Map<string, number>();
+    for (const counts of [cvCounts, ...jobCounts]) {
+      counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    }
+    const documents = jobCounts.length + 1;
+    const idf = new Map<string, number>();
+    documentFrequency.forEach((frequency, term) => idf.set(term, Math.log((documents + 1) / (frequency + 1)) + 1));
+
+    const cvVector = weigh(cvCounts, idf);
+    const skillIds = cvSkillIds(cv);
+    const seniority = cvSeniority(cv);
+    const education = educationLevel((cv.education ?? []).map(entry => entry.degree ?? '').join('\n'), 'highest');
+
+    return jobs.map((job, index) => {
+      const reasons: string[] = [];
+      const jobText = `${job.title}\n${job.description ?? ''}`;
+
+      // Skills the job mentions that the taxonomy knows about
+      const jobSkills = skillsTaxonomyService.match(jobText);
+      const matchedSkills = jobSkills.filter(skill => skillIds.has(skill.id)).map(skill => skill.name);
+      const missingSkills = jobSkills.filter(skill => !skillIds.has(skill.id)).map(skill => skill.name);
+      const skillsScore = jobSkills.length > 0 ? matchedSkills.length / jobSkills.length : null;
+      if (skillsScore !== null) {
+        reasons.push(`Has ${matchedSkills.length} of ${jobSkills.length} skills the job mentions${matchedSkills.length > 0 ? ` (${listNames(matchedSkills)})` : ''}`);
+        if (missingSkills.length > 0) {
+          reasons.push(`Missing ${listNames(missingSkills)}`);
+        }
+      }
+
+      const similarity = cosine(cvVector, weigh(jobCounts[index], idf));
+      const keywordsScore = Math.min(1, similarity / FULL_KEYWORD_SIMILARITY);
+      reasons.push(`CV wording is a ${keywordsScore >= 0.66 ? 'strong' : keywordsScore >= 0.33 ? 'partial' : 'weak'} match for the description`);
+
+      const wantedSeniority = jobSeniority(job);
+      let seniorityScore: number | null = null;
+      if (wantedSeniority && seniority) {
+        const distance = Math.abs(seniorityLevels.indexOf(wantedSeniority) - seniorityLevels.indexOf(seniority));
+        seniorityScore = SENIORITY_SCORES[Math.min(distance, SENIORITY_SCORES.length - 1)];
+        reasons.push(distance === 0
+          ? `Seniority matches (${wantedSeniority})`
+          : `Job is ${wantedSeniority} level; CV reads as ${seniority}`);
+      }
+
+      const required = educationLevel(job.description ?? '', 'lowest');
+      let educationScore: number | null = null;
+      if (required && education) {
+        const shortfall = required.level - education.level;
+        educationScore = shortfall <= 0 ? 1 : shortfall === 1 ? 0.5 : 0;
+        reasons.push(shortfall <= 0 ? `Meets the education requirement (${required.label})` : `Job asks for ${required.label}`);
+      }
+
+      const components = { skills: skillsScore, keywords: keywordsScore, seniority: seniorityScore, education: educationScore };
+      let weighted = 0;
+      let totalWeight = 0;
+      for (const [component, value] of Object.entries(components) as [keyof typeof WEIGHTS, number | null][]) {
+        if (value === null) continue;
+        weighted += WEIGHTS[component] * value;
+        totalWeight += WEIGHTS[component];
+      }
+
+      const percent = (value: number | null) => (value === null ? null : Math.round(value * 100));
+      return {
+        score: Math.round((weighted / totalWeight) * 100),
+        components: {
+          skills: percent(skillsScore),
+          keywords: Math.round(keywordsScore * 100),
+          seniority: percent(seniorityScore),
+          education: percent(educationScore),
+        },
+        matchedSkills,
+        missingSkills,
+        jobSeniority: wantedSeniority,
+        cvSeniority: seniority,
+        reasons,
+      };
+    });
+  }
+}
+
+export const matchScorerService = new MatchScorerService();
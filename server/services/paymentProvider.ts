@@ -0,0 +1,155 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+export interface ChargeRequest {
+  invoiceId: string;
+  userId: string;
+  email: string;
+  amountCents: number;
+  currency: string;
+  description: string;
+}
+
+export interface ChargeResult {
+  // "pending" means the outcome arrives later through a webhook
+  status: 'succeeded' | 'failed' | 'pending';
+  providerPaymentId: string;
+  failureReason?: string;
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed';
+
+// Provider webhooks translated into the events billing understands
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  providerPaymentId: string;
+  failureReason?: string;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+// A signed webhook whose body is not an event; the provider should not retry it
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+/**
+ * A payment provider adapter. Adding a real provider means implementing
+ * charging and webhook verification against its API; billing never talks to
+ * a provider directly.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  /**
+   * Verifies the webhook signature and parses the event; throws WebhookSignatureError if it
+   * does not verify and WebhookPayloadError if it is not an event. Returns null for event
+   * types billing does not use, which are acknowledged and ignored.
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null;
+}
+
+// Signed payloads older than this are rejected so captured webhooks cannot be replayed
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+/**
+ * Signs a webhook body the way the fake provider does:
+ * "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>".
+ */
+export function signFakeWebhook(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Local stand-in for a real provider. Charges succeed unless
+ * FAKE_PAYMENT_OUTCOME is "fail" or "pending"; pending charges are settled by
+ * posting a signed webhook (see signFakeWebhook).
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const providerPaymentId = `fake_pay_${randomUUID()}`;
+    const outcome = process.env.FAKE_PAYMENT_OUTCOME || 'succeed';
+    console.log(`Fake payment ${providerPaymentId}: ${request.amountCents} ${request.currency} for invoice ${request.invoiceId}, outcome ${outcome}`);
+
+    if (outcome === 'fail') {
+      return { status: 'failed', providerPaymentId, failureReason: 'Card declined (fake provider)' };
+    }
+    if (outcome === 'pending') {
+      return { status: 'pending', providerPaymentId };
+    }
+    return { status: 'succeeded', providerPaymentId };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof header !== 'string') {
+      throw new WebhookSignatureError('Missing webhook signature');
+    }
+
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+    const timestamp = parseInt(parts.t, 10);
+    if (!parts.v1 || isNaN(timestamp)) {
+      throw new WebhookSignatureError('Malformed webhook signature');
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new WebhookSignatureError('Webhook timestamp is outside the tolerance window');
+    }
+
+    const expected = Buffer.from(signFakeWebhook(rawBody.toString('utf-8'), this.webhookSecret, timestamp).split('v1=')[1], 'hex');
+    const supplied = Buffer.from(parts.v1, 'hex');
+    if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+      throw new WebhookSignatureError('Webhook signature does not match');
+    }
+
+    let event;
+    try {
+      event = JSON.parse(rawBody.toString('utf-8'));
+    } catch {
+      throw new WebhookPayloadError('Webhook body is not valid JSON');
+    }
+    if (typeof event?.id !== 'string' || typeof event?.type !== 'string') {
+      throw new WebhookPayloadError('Webhook event has no id or type');
+    }
+    if (event.type !== 'payment.succeeded' && event.type !== 'payment.failed') {
+      return null;
+    }
+    if (typeof event.providerPaymentId !== 'string') {
+      throw new WebhookPayloadError(`Webhook event ${event.id} has no providerPaymentId`);
+    }
+    return {
+      id: event.id,
+      type: event.type,
+      providerPaymentId: event.providerPaymentId,
+      failureReason: event.failureReason,
+    };
+  }
+}
+
+export function createPaymentProvider(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER || 'fake';
+
+  if (provider === 'fake') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The fake payment provider cannot be used in production');
+    }
+    return new FakePaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET || 'fake-webhook-secret');
+  }
+
+  throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+}
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+
+const { uploadDir } = vi.hoisted(() => {
+  const uploadDir = `${process.env.TMPDIR || "/tmp"}/pdf-extractor-test-uploads`;
+  process.env.UPLOAD_DIR = uploadDir;
+  return { uploadDir };
+});
+
+import { pdfExtractorService } from "./pdfExtractor";
+import { cvParserService } from "./cvParser";
+import { fileStore } from "./fileStore";
+
+// Uncompressed one-page PDFs in Helvetica, so the content streams can be read as text
+const fixture = (name: string) => fs.readFileSync(path.join(import.meta.dirname, "__fixtures__", name));
+const nonEmptyLines = (text: string) => text.split("\n").filter(line => line.length > 0);
+
+const SINGLE_COLUMN = [
+  "Jane Doe",
+  "jane.doe@example.com | +44 20 7946 0958",
+  "London, UK",
+  "Summary",
+  "Backend engineer who has built payment systems since 2014.",
+  "Experience",
+  "Senior Software Engineer, Acme Payments",
+  "Jan 2019 - Present",
+  "- Built the settlement service in TypeScript and PostgreSQL.",
+  "Software Engineer, Globex Bank",
+  "Sep 2014 - Dec 2018",
+  "- Maintained the card authorisation API in Java.",
+  "Education",
+  "BSc Computer Science, University of Leeds",
+  "2011 - 2014",
+  "Skills",
+  "TypeScript, PostgreSQL, Docker, Kubernetes",
+];
+
+// The centred header runs across the gutter; each column row shares its
+// baseline with a row of the other column
+const HEADER = ["Priya Sharma", "Data Engineer"];
+const LEFT_COLUMN = [
+  "Contact",
+  "priya.sharma@example.com",
+  "+44 7700 900123",
+  "Manchester, UK",
+  "Skills",
+  "Python",
+  "SQL",
+  "Apache Airflow",
+  "Docker",
+  "Terraform",
+  "Languages",
+  "English",
+  "Hindi",
+  "Interests",
+  "Running",
+  "Chess",
+];
+const RIGHT_COLUMN = [
+  "Experience",
+  "Data Engineer, Northwind Analytics",
+  "Jan 2020 - Present",
+  "- Built batch pipelines processing 2TB a day.",
+  "- Moved reporting jobs from cron to Airflow.",
+  "- Cut warehouse costs by a third.",
+  "Junior Data Analyst, Contoso Retail",
+  "Jun 2017 - Dec 2019",
+  "- Wrote the weekly sales dashboards.",
+  "- Automated stock reconciliation.",
+  "Education",
+  "MSc Data Science, University of Manchester",
+  "2016 - 2017",
+];
+
+describe("pdfExtractorService.extract", () => {
+  it("reads a single-column page top to bottom", async () => {
+    const { pages, text } = await pdfExtractorService.extract(fixture("single-column.pdf"));
+
+    expect(pages).toHaveLength(1);
+    expect(nonEmptyLines(text)).toEqual(SINGLE_COLUMN);
+  });
+
+  it("reads a two-column page column by column", async () => {
+    const { text } = await pdfExtractorService.extract(fixture("two-column.pdf"));
+
+    expect(nonEmptyLines(text)).toEqual([...HEADER, ...LEFT_COLUMN, ...RIGHT_COLUMN]);
+  });
+
+  it("never joins text from both columns on one line", async () => {
+    const { text } = await pdfExtractorService.extract(fixture("two-column.pdf"));
+
+    for (const line of nonEmptyLines(text)) {
+      const fromLeft = LEFT_COLUMN.some(entry => line.includes(entry));
+      const fromRight = RIGHT_COLUMN.some(entry => line.includes(entry));
+      expect(fromLeft && fromRight, line).toBe(false);
+    }
+  });
+});
+
+describe("cvParserService.parseCV with PDFs", () => {
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await fileStore.put("single-column.pdf", fixture("single-column.pdf"));
+    await fileStore.put("two-column.pdf", fixture("two-column.pdf"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+  });
+
+  it("parses a single-column CV", async () => {
+    const { status, data } = await cvParserService.parseCV("single-column.pdf", "application/pdf");
+
+    expect(status).toBe("parsed");
+    expect(data).toMatchObject({
+      name: "Jane Doe",
+      email: "jane.doe@example.com",
+      phone: "+44 20 7946 0958",
+      summary: "Backend engineer who has built payment systems since 2014.",
+      experience: [
+        { title: "Senior Software Engineer, Acme Payments", startDate: "2019-01", current: true },
+        { title: "Software Engineer, Globex Bank", startDate: "2014-09", endDate: "2018-12" },
+      ],
+      education: [{ degree: "BSc Computer Science", institution: "University of Leeds", graduationYear: 2014 }],
+    });
+    expect(data.skills).toEqual(expect.arrayContaining(["TypeScript", "PostgreSQL", "Java", "Docker", "Kubernetes"]));
+  });
+
+  it("keeps each column's entries together in a two-column CV", async () => {
+    const { status, data } = await cvParserService.parseCV("two-column.pdf", "application/pdf");
+
+    expect(status).toBe("parsed");
+    expect(data).toMatchObject({
+      name: "Priya Sharma",
+      email: "priya.sharma@example.com",
+      phone: "+44 7700 900123",
+      experience: [
+        {
+          title: "Data Engineer, Northwind Analytics",
+          startDate: "2020-01",
+          current: true,
+          bullets: [
+            "Built batch pipelines processing 2TB a day.",
+            "Moved reporting jobs from cron to Airflow.",
+            "Cut warehouse costs by a third.",
+          ],
+        },
+        {
+          title: "Junior Data Analyst, Contoso Retail",
+          startDate: "2017-06",
+          endDate: "2019-12",
+          bullets: ["Wrote the weekly sales dashboards.", "Automated stock reconciliation."],
+        },
+      ],
+      education: [{ degree: "MSc Data Science", institution: "University of Manchester", graduationYear: 2017 }],
+    });
+    // "Analytics" in the employer and "sales" in a bullet are not skills
+    expect(data.skills).toEqual(["Python", "SQL", "Docker", "Terraform"]);
+    expect(data.summary).toBeUndefined();
+  });
+});
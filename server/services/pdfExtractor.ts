@@ -0,0 +1,240 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export interface ExtractedPDF {
+  pages: string[];
+  text: string;
+}
+
+interface TextFragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+interface TextLine {
+  fragments: TextFragment[];
+  y: number;
+  fontSize: number;
+}
+
+interface Gutter {
+  start: number;
+  end: number;
+}
+
+class PDFExtractorService {
+  async extract(buffer: Buffer): Promise<ExtractedPDF> {
+    // pdf.js decodes the content streams (Flate, LZW, ASCII85, ...) and maps
+    // glyphs back to unicode; we only have to put the fragments in reading order.
+    const loadingTask = getDocument({
+      data: new Uint8Array(buffer),
+      disableFontFace: true,
+      isEvalSupported: false,
+      useSystemFonts: false,
+      verbosity: 0,
+    });
+
+    const document = await loadingTask.promise;
+    try {
+      const pages: string[] = [];
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+
+        const fragments = content.items
+          .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+          .map(item => ({
+            text: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+          }));
+
+        pages.push(this.layoutPage(fragments, viewport.width));
+        page.cleanup();
+      }
+
+      return {
+        pages,
+        text: pages.join('\n\n'),
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  private layoutPage(fragments: TextFragment[], pageWidth: number): string {
+    if (fragments.length === 0) return '';
+
+    const lines = this.groupLines(fragments);
+    const gutter = this.findGutter(lines, pageWidth);
+    if (!gutter) {
+      return this.renderLines(lines);
+    }
+
+    // Two-column layouts are read column by column. Lines that run across the
+    // gutter (a full-width header, say) close off the columns collected so far.
+    const output: string[] = [];
+    let left: TextLine[] = [];
+    let right: TextLine[] = [];
+    const flush = () => {
+      if (left.length > 0) output.push(this.renderLines(left));
+      if (right.length > 0) output.push(this.renderLines(right));
+      left = [];
+      right = [];
+    };
+
+    for (const line of lines) {
+      const crossesGutter = line.fragments.some(f => f.x < gutter.end && f.x + f.width > gutter.start);
+      if (crossesGutter) {
+        flush();
+        output.push(this.renderLines([line]));
+        continue;
+      }
+
+      const leftFragments = line.fragments.filter(f => f.x + f.width <= gutter.start);
+      const rightFragments = line.fragments.filter(f => f.x >= gutter.end);
+      if (leftFragments.length > 0) left.push({ ...line, fragments: leftFragments });
+      if (rightFragments.length > 0) right.push({ ...line, fragments: rightFragments });
+    }
+    flush();
+
+    return output.filter(block => block.length > 0).join('\n\n');
+  }
+
+  private groupLines(fragments: TextFragment[]): TextLine[] {
+    // PDF user space grows upwards, so the top of the page has the largest y
+    const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines: TextLine[] = [];
+
+    for (const fragment of sorted) {
+      const current = lines[lines.length - 1];
+      if (current && Math.abs(current.y - fragment.y) <= Math.max(current.fontSize, fragment.fontSize) * 0.5) {
+        current.fragments.push(fragment);
+        current.fontSize = Math.max(current.fontSize, fragment.fontSize);
+      } else {
+        lines.push({ fragments: [fragment], y: fragment.y, fontSize: fragment.fontSize });
+      }
+    }
+
+    for (const line of lines) {
+      line.fragments.sort((a, b) => a.x - b.x);
+    }
+
+    return lines;
+  }
+
+  private findGutter(lines: TextLine[], pageWidth: number): Gutter | undefined {
+    if (lines.length < 6 || pageWidth <= 0) return undefined;
+
+    // Count how many lines put ink on each 1pt column of the page
+    const width = Math.ceil(pageWidth);
+    const coverage = new Array<number>(width).fill(0);
+    for (const line of lines) {
+      const covered = new Set<number>();
+      for (const fragment of line.fragments) {
+        const start = Math.max(0, Math.floor(fragment.x));
+        const end = Math.min(width - 1, Math.ceil(fragment.x + fragment.width));
+        for (let x = start; x <= end; x++) covered.add(x);
+      }
+      covered.forEach(x => coverage[x]++);
+    }
+
+    // A gutter is a vertical strip in the middle of the page that almost no line crosses
+    const threshold = Math.max(1, Math.floor(lines.length * 0.1));
+    const minGutterWidth = 12;
+    let best: Gutter | undefined;
+    let runStart = -1;
+
+    for (let x = Math.floor(width * 0.2); x <= Math.ceil(width * 0.8); x++) {
+      const open = x < width && coverage[x] <= threshold;
+      if (open && runStart === -1) {
+        runStart = x;
+      } else if (!open && runStart !== -1) {
+        if (x - runStart >= minGutterWidth && (!best || x - runStart > best.end - best.start)) {
+          best = { start: runStart, end: x };
+        }
+        runStart = -1;
+      }
+    }
+
+    if (!best) return undefined;
+
+    // A few long left-column lines may reach into the strip; start it after
+    // them, or they would be read as crossing it and merged with the right column
+    for (const line of lines) {
+      for (const fragment of line.fragments) {
+        const end = fragment.x + fragment.width;
+        if (fragment.x < best.start && end > best.start && end < best.end) {
+          best.start = Math.ceil(end);
+        }
+      }
+    }
+    if (best.end - best.start < minGutterWidth / 2) return undefined;
+
+    // Both sides need a real share of the text, otherwise it is just a wide margin
+    let leftChars = 0;
+    let rightChars = 0;
+    for (const line of lines) {
+      for (const fragment of line.fragments) {
+        if (fragment.x + fragment.width <= best.start) leftChars += fragment.text.length;
+        else if (fragment.x >= best.end) rightChars += fragment.text.length;
+      }
+    }
+    const total = leftChars + rightChars;
+    if (total === 0 || leftChars / total < 0.15 || rightChars / total < 0.15) {
+      return undefined;
+    }
+
+    return best;
+  }
+
+  private renderLines(lines: TextLine[]): string {
+    const output: string[] = [];
+    let previous: TextLine | undefined;
+
+    for (const line of lines) {
+      // A vertical jump well beyond normal leading starts a new paragraph
+      if (previous && previous.y - line.y > Math.max(previous.fontSize, line.fontSize) * 1.8) {
+        output.push('');
+      }
+      output.push(this.renderLine(line));
+      previous = line;
+    }
+
+    return output.join('\n');
+  }
+
+  private renderLine(line: TextLine): string {
+    let text = '';
+    let lastEnd: number | undefined;
+
+    for (const fragment of line.fragments) {
+      if (lastEnd !== undefined) {
+        const gap = fragment.x - lastEnd;
+        if (gap > fragment.fontSize * 0.15 && !text.endsWith(' ') && !fragment.text.startsWith(' ')) {
+          text += ' ';
+        }
+      }
+      text += fragment.text;
+      lastEnd = fragment.x + fragment.width;
+    }
+
+    return this.cleanText(text);
+  }
+
+  private cleanText(text: string): string {
+    return text
+      .normalize('NFKC') // splits ligatures such as "ﬁ" into plain letters
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/[ \t]+/g, ' ')
+      .trim();
+  }
+}
+
+export const pdfExtractorService = new PDFExtractorService();
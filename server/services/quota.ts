@@ -0,0 +1,79 @@
+import { storage } from '../storage';
+import { getPlan, quotaPeriodDays, type QuotaStatus } from '@shared/plans';
+import type { User } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type QuotaErrorCode = 'plan_limit_exceeded' | 'quota_exhausted';
+
+/**
+ * Raised when a request would go over the plan quota. plan_limit_exceeded
+ * (402) means the plan can never allow the request and the user must upgrade;
+ * quota_exhausted (429) means the current window is used up.
+ */
+export class QuotaError extends Error {
+  constructor(
+    public readonly code: QuotaErrorCode,
+    message: string,
+    public readonly quota: QuotaStatus,
+  ) {
+    super(message);
+    this.name = 'QuotaError';
+  }
+
+  get status(): number {
+    return this.code === 'plan_limit_exceeded' ? 402 : 429;
+  }
+
+  // Seconds until the next application fits, for the Retry-After header
+  get retryAfterSeconds(): number | undefined {
+    if (this.code !== 'quota_exhausted' || !this.quota.nextSlotAt) return undefined;
+    return Math.max(1, Math.ceil((new Date(this.quota.nextSlotAt).getTime() - Date.now()) / 1000));
+  }
+}
+
+class QuotaService {
+  async getQuota(user: User, now = new Date()): Promise<QuotaStatus> {
+    const plan = getPlan(user.plan);
+    const periodMs = quotaPeriodDays[plan.period] * DAY_MS;
+    const windowStart = new Date(now.getTime() - periodMs);
+
+    const usage = await storage.getApplicationUsage(user.id, windowStart);
+    return {
+      plan: plan.id,
+      period: plan.period,
+      limit: plan.applicationLimit,
+      used: usage.count,
+      remaining: Math.max(0, plan.applicationLimit - usage.count),
+      windowStart: windowStart.toISOString(),
+      nextSlotAt: usage.oldest ? new Date(usage.oldest.getTime() + periodMs).toISOString() : null,
+    };
+  }
+
+  /**
+   * Checks that `requested` more applications fit. Returns the current quota,
+   * or throws a QuotaError describing why they do not.
+   */
+  async assertAvailable(user: User, requested = 1): Promise<QuotaStatus> {
+    const quota = await this.getQuota(user);
+
+    if (requested > quota.limit) {
+      throw new QuotaError(
+        'plan_limit_exceeded',
+        `Your ${getPlan(user.plan).name} plan allows ${quota.limit} applications per ${quota.period}. Upgrade your plan to send more.`,
+        quota,
+      );
+    }
+    if (quota.remaining <= 0) {
+      throw new QuotaError(
+        'quota_exhausted',
+        `You have used all ${quota.limit} applications for this ${quota.period}.`,
+        quota,
+      );
+    }
+
+    return quota;
+  }
+}
+
+export const quotaService = new QuotaService();
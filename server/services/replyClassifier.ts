@@ -0,0 +1,81 @@
+import type { ReplyClassification } from '@shared/schema';
+
+export interface InboundReply {
+  subject: string;
+  text: string; // Without the quoted original
+  headers: Map<string, string>; // Lower-case names
+}
+
+// Checked in order: a rejection often mentions the interview it won't offer
+const REJECTION_PATTERNS = [
+  /\bunfortunately\b/,
+  /\bregret to (?:inform|advise)\b/,
+  /\b(?:not|won't|will not) be (?:moving|progressing|proceeding) (?:forward )?with your application\b/,
+  /\bdecided (?:not to proceed|to (?:move|proceed|go) forward with other)/,
+  /\bother candidates\b/,
+  /\b(?:has|have) not been successful\b/,
+  /\bposition has (?:now )?been filled\b/,
+  /\bno longer (?:considering|recruiting|hiring)\b/,
+];
+
+const INTERVIEW_PATTERNS = [
+  /\binterview/,
+  /\bphone screen/,
+  /\b(?:schedule|arrange|book|set up) (?:a|an) (?:call|chat|meeting|time)\b/,
+  /\byour availability\b/,
+  /\bwhen (?:are|would) you (?:be )?available\b/,
+  /\b(?:like|love|happy) to (?:invite|meet|speak|talk) (?:you|with you)\b/,
+];
+
+const AUTO_ACK_PATTERNS = [
+  /\bautomatic reply\b/,
+  /\bauto(?:matic)?[- ]?(?:reply|response)\b/,
+  /\bout of (?:the )?office\b/,
+  /\b(?:we have|we've) received your (?:application|cv|email)\b/,
+  /\bthank you for (?:your application|applying)\b/,
+  /\bapplication (?:has been )?received\b/,
+  /\bdo not reply to this (?:email|message)\b/,
+];
+
+// "If shortlisted we will contact you for an interview" is how an
+// acknowledgement reads, not an invitation
+const CONDITIONAL_PATTERN = /\b(?:if|should|once) (?:you are |you're |you have |you've )?(?:been )?(?:shortlisted|successful|selected)\b|\bif you (?:have not|haven't|do not|don't) (?:hear|heard)\b/;
+
+// Lines above this are the reply; the quoted original follows
+const QUOTE_HEADER = /^(?:On .+ wrote:|-{2,} ?Original Message ?-{2,}|From: .+)$/im;
+
+/** The new part of a reply: before the quoted original, with quoted lines dropped */
+export function stripQuotedText(text: string): string {
+  const header = QUOTE_HEADER.exec(text);
+  const reply = header ? text.slice(0, header.index) : text;
+  return reply
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n')
+    .trim();
+}
+
+// RFC 3834 and the common vendor headers for auto-responders
+function isAutoSubmitted(headers: Map<string, string>): boolean {
+  const autoSubmitted = headers.get('auto-submitted');
+  if (autoSubmitted && autoSubmitted.toLowerCase() !== 'no') return true;
+  if (headers.has('x-autoreply') || headers.has('x-autorespond')) return true;
+  return /^(?:auto_reply|bulk|junk)$/i.test(headers.get('precedence') ?? '');
+}
+
+/**
+ * Sorts a reply by its wording. An automatic acknowledgement is recognised
+ * by its headers or stock phrases; a reply that fits nothing is "other".
+ */
+export function classifyReply(reply: InboundReply): ReplyClassification {
+  if (isAutoSubmitted(reply.headers)) return 'auto_ack';
+
+  const content = `${reply.subject}\n${reply.text}`.toLowerCase();
+  const sentences = content.split(/(?<=[.!?])\s+|\n+/).filter(sentence => !CONDITIONAL_PATTERN.test(sentence));
+  const mentions = (patterns: RegExp[]) => sentences.some(sentence => patterns.some(pattern => pattern.test(sentence)));
+
+  if (mentions(REJECTION_PATTERNS)) return 'rejection';
+  if (mentions(INTERVIEW_PATTERNS)) return 'interview';
+  if (AUTO_ACK_PATTERNS.some(pattern => pattern.test(content))) return 'auto_ack';
+  return 'other';
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { skillsTaxonomyService } from "./skillsTaxonomy";
+
+const skillNames = (text: string) => skillsTaxonomyService.match(text).map(skill => skill.name);
+
+describe("skillsTaxonomyService.match", () => {
+  it.each([
+    "Go to our website to apply",
+    "Go-to-market strategy",
+    "Please Express your interest by email",
+    "Help the rest of the team",
+    "You will excel in a fast-paced environment",
+    "Spring 2020 internship",
+    "Node in a distributed graph",
+    "Previously worked at Shell",
+    "Oracle Corporation hired me",
+    "Loading shipping containers",
+    "Joined Northwind Analytics in 2020",
+    "Built weekly sales dashboards",
+    "Ensured swift delivery of parcels",
+  ])("finds no skill in everyday words: %s", text => {
+    expect(skillNames(text)).toEqual([]);
+  });
+
+  it.each([
+    ["Languages: Go, Python, Rust", ["Go", "Python", "Rust"]],
+    ["Python, Go and Rust", ["Python", "Go", "Rust"]],
+    ["- Go\n- Kotlin", ["Go", "Kotlin"]],
+    ["Node, Express, MongoDB", ["Node.js", "Express.js", "MongoDB"]],
+    ["REST, GraphQL", ["REST APIs", "GraphQL"]],
+    ["Skills: Excel, Tableau", ["Microsoft Excel", "Tableau"]],
+    ["Java, Spring, Hibernate", ["Java", "Spring"]],
+    ["Python | ML | SQL", ["Python", "Machine Learning", "SQL"]],
+    ["Bash, Shell, Python", ["Bash", "Python"]],
+    ["Oracle, MySQL", ["Oracle Database", "MySQL"]],
+  ])("finds ambiguous names in a list: %s", (text, expected) => {
+    expect(skillNames(text)).toEqual(expected);
+  });
+
+  it.each([
+    ["Built services in Golang", ["Go"]],
+    ["Built APIs with Express.js on Node.js", ["Express.js", "Node.js"]],
+    ["Designed REST APIs", ["REST APIs"]],
+    ["Advanced MS Excel", ["Microsoft Excel"]],
+    ["Spring Boot microservices", ["Spring"]],
+    ["Tuned queries on an Oracle DB", ["Oracle Database"]],
+    ["Wrote shell scripts for deployments", ["Bash"]],
+  ])("finds qualified names anywhere: %s", (text, expected) => {
+    expect(skillNames(text)).toEqual(expected);
+  });
+});
+
+describe("skillsTaxonomyService.resolve", () => {
+  it("resolves ambiguous variants to their skill", () => {
+    expect(skillsTaxonomyService.resolve("express")?.id).toBe("express");
+    expect(skillsTaxonomyService.resolve("Spring")?.id).toBe("spring");
+    expect(skillsTaxonomyService.resolve("ML")?.id).toBe("machine-learning");
+  });
+});
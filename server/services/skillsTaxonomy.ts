@@ -0,0 +1,179 @@
+import fs from 'fs';
+import { skillCategories, type SkillCategory, type SkillMatch } from '@shared/schema';
+import defaultTaxonomy from '../data/skills.json';
+
+export interface SkillDefinition {
+  id: string;
+  name: string;
+  category: SkillCategory;
+  aliases: string[];
+  caseSensitive?: boolean; // For names only written one way, e.g. "SAP"
+  ambiguous?: string[]; // Variants, the name included, that are also everyday words; see LIST_ITEM_BEFORE
+}
+
+interface TaxonomyFile {
+  version?: number;
+  skills: Partial<SkillDefinition>[];
+}
+
+interface CompiledTerm {
+  skillId: string;
+  regex: RegExp;
+}
+
+// Word boundaries that also respect symbols used in skill names, so that
+// "java" does not match inside "javascript" but "c++" and ".net" still match
+const WORD_BEFORE = '(?<![A-Za-z0-9+#.])';
+const WORD_AFTER = '(?![A-Za-z0-9+#])';
+
+// Ambiguous variants count only as an item of a list or a line of their own:
+// "Node, Express, MongoDB" names Express, "Express your interest" does not
+const LIST_ITEM_BEFORE = '(?<=(?:^|[\\n,;:|/(&•·*]|- )[ \\t]*)';
+const LIST_ITEM_AFTER = '(?=[ \\t]*(?:$|[\\r\\n,;|/)&]|\\.(?:\\s|$))|[ \\t]+(?:and|or)\\b)';
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+class SkillsTaxonomyService {
+  private skills = new Map<string, SkillDefinition>();
+  private terms: CompiledTerm[] = [];
+
+  constructor() {
+    this.load(defaultTaxonomy as TaxonomyFile);
+
+    // Deployments can add skills, or extend existing ones, with their own JSON file
+    const extensionPath = process.env.SKILLS_TAXONOMY_PATH;
+    if (extensionPath) {
+      try {
+        this.loadFile(extensionPath);
+      } catch (error) {
+        console.error(`Failed to load skills taxonomy from ${extensionPath}:`, error);
+      }
+    }
+  }
+
+  loadFile(filePath: string): void {
+    const taxonomy = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TaxonomyFile;
+    this.load(taxonomy);
+    console.log(`Loaded skills taxonomy from ${filePath}, ${this.skills.size} skills`);
+  }
+
+  /**
+   * Merges a taxonomy into the loaded one. Entries with a known id extend the
+   * existing skill (aliases are added, other fields replaced); new ids need a
+   * name and a valid category.
+   */
+  load(taxonomy: TaxonomyFile): void {
+    if (!taxonomy || !Array.isArray(taxonomy.skills)) {
+      throw new Error('Skills taxonomy must have a "skills" array');
+    }
+
+    for (const entry of taxonomy.skills) {
+      if (!entry.id) {
+        throw new Error('Every skill in the taxonomy needs an id');
+      }
+
+      const existing = this.skills.get(entry.id);
+      const category = entry.category ?? existing?.category;
+      if (!category || !skillCategories.includes(category)) {
+        throw new Error(`Skill "${entry.id}" has an invalid category: ${category}`);
+      }
+
+      const name = entry.name ?? existing?.name;
+      if (!name) {
+        throw new Error(`Skill "${entry.id}" needs a name`);
+      }
+
+      const aliases = Array.from(new Set([...(existing?.aliases ?? []), ...(entry.aliases ?? [])]));
+      const ambiguous = Array.from(new Set([...(existing?.ambiguous ?? []), ...(entry.ambiguous ?? [])]));
+      this.skills.set(entry.id, {
+        id: entry.id,
+        name,
+        category,
+        aliases,
+        caseSensitive: entry.caseSensitive ?? existing?.caseSensitive,
+        ambiguous,
+      });
+    }
+
+    this.compile();
+  }
+
+  getSkill(id: string): SkillDefinition | undefined {
+    return this.skills.get(id);
+  }
+
+  /** Looks a skill up by its canonical name or any alias, e.g. "k8s" → kubernetes */
+  resolve(term: string): SkillDefinition | undefined {
+    const normalised = term.trim().toLowerCase();
+    return Array.from(this.skills.values()).find(skill =>
+      skill.id === normalised
+      || skill.name.toLowerCase() === normalised
+      || [...skill.aliases, ...(skill.ambiguous ?? [])].some(alias => alias.toLowerCase() === normalised)
+    );
+  }
+
+  match(text: string): SkillMatch[] {
+    const found: { skillId: string; text: string; index: number }[] = [];
+
+    for (const term of this.terms) {
+      term.regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = term.regex.exec(text)) !== null) {
+        found.push({ skillId: term.skillId, text: match[0], index: match.index });
+      }
+    }
+
+    // Where terms overlap ("React Native" and "React") the longest one wins
+    found.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+    const accepted: typeof found = [];
+    let coveredUntil = -1;
+    for (const candidate of found) {
+      if (candidate.index >= coveredUntil) {
+        accepted.push(candidate);
+        coveredUntil = candidate.index + candidate.text.length;
+      }
+    }
+
+    const matches = new Map<string, SkillMatch>();
+    for (const occurrence of accepted) {
+      const skill = this.skills.get(occurrence.skillId)!;
+      const existing = matches.get(skill.id);
+      if (existing) {
+        existing.occurrences.push({ text: occurrence.text, index: occurrence.index });
+      } else {
+        matches.set(skill.id, {
+          id: skill.id,
+          name: skill.name,
+          category: skill.category,
+          occurrences: [{ text: occurrence.text, index: occurrence.index }],
+        });
+      }
+    }
+
+    return Array.from(matches.values());
+  }
+
+  private compile(): void {
+    this.terms = [];
+    this.skills.forEach(skill => {
+      const key = (variant: string) => skill.caseSensitive ? variant : variant.toLowerCase();
+      const ambiguous = new Set((skill.ambiguous ?? []).map(key));
+      const variants = new Map([skill.name, ...skill.aliases, ...(skill.ambiguous ?? [])].map(variant => [key(variant), variant]));
+
+      variants.forEach((variant, variantKey) => {
+        const term = escapeRegex(variant).replace(/\s+/g, '[\\s-]+');
+        const pattern = ambiguous.has(variantKey)
+          ? `${LIST_ITEM_BEFORE}${term}${LIST_ITEM_AFTER}`
+          : `${WORD_BEFORE}${term}${WORD_AFTER}`;
+        this.terms.push({
+          skillId: skill.id,
+          regex: new RegExp(pattern, skill.caseSensitive ? 'g' : 'gi'),
+        });
+      });
+    });
+  }
+}
+
+export const skillsTaxonomyService = new SkillsTaxonomyService();
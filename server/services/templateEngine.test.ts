@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { compileTemplate, escapeHtml, renderTemplate, SafeHtml } from "./templateEngine";
+
+describe("escapeHtml", () => {
+  it("escapes every character that can end an element or an attribute", () => {
+    expect(escapeHtml(`<a href="x" title='y'>Tom & Jerry</a>`))
+      .toBe("&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;Tom &amp; Jerry&lt;/a&gt;");
+  });
+});
+
+describe("renderTemplate", () => {
+  it("keeps a value inside a single-quoted attribute in HTML", () => {
+    const template = compileTemplate("<a href='{{jobUrl}}'>{{company}}</a>");
+    const html = renderTemplate(template, {
+      jobUrl: "https://example.com/' onmouseover='alert(1)",
+      company: "O'Reilly",
+    }, { html: true });
+
+    expect(html).toBe("<a href='https://example.com/&#39; onmouseover=&#39;alert(1)'>O&#39;Reilly</a>");
+  });
+
+  it("leaves text output and trusted HTML unescaped", () => {
+    const template = compileTemplate("{{company}} {{signature}}");
+    const variables = { company: "O'Reilly", signature: new SafeHtml("<b>Jane</b>") };
+
+    expect(renderTemplate(template, variables)).toBe("O'Reilly <b>Jane</b>");
+    expect(renderTemplate(template, variables, { html: true })).toBe("O&#39;Reilly <b>Jane</b>");
+  });
+});
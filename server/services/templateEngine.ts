@@ -0,0 +1,155 @@
+// A small logic-less template language for user-written letters:
+//   {{job.title}}                        a variable
+//   {{#if match.topSkills}}...{{/if}}    a section kept when the variable has a value
+//   {{#unless cv.summary}}...{{/unless}} a section kept when it has none
+//   {{else}}                             the other branch of either
+
+// Markup that is already safe, such as text escaped and wrapped in paragraphs.
+// Only for HTML templates; it is inserted as is.
+export class SafeHtml {
+  constructor(public readonly html: string) {}
+}
+
+export type TemplateValue = string | number | SafeHtml | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface CompiledTemplate {
+  nodes: TemplateNode[];
+  variables: string[]; // Every variable the template reads
+}
+
+export class TemplateError extends Error {
+  constructor(public readonly reason: string, public readonly line: number, public readonly field?: string) {
+    super(field ? `${field}, line ${line}: ${reason}` : `Line ${line}: ${reason}`);
+    this.name = 'TemplateError';
+  }
+
+  /** The same error, naming which part of a multi-part template it is in */
+  inField(field: string): TemplateError {
+    return new TemplateError(this.reason, this.line, field);
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)([\w.]+)(?:\s+([\w.]+))?\s*\}\}/g;
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;'); // Values also end up in single-quoted attributes
+}
+
+function hasValue(value: TemplateValue): boolean {
+  if (value instanceof SafeHtml) return value.html !== '';
+  return value !== null && value !== undefined && value !== '' && value !== 0;
+}
+
+/**
+ * Parses a template, checking that sections are balanced and, when
+ * `knownVariables` is given, that every variable exists.
+ */
+export function compileTemplate(source: string, knownVariables?: ReadonlySet<string>): CompiledTemplate {
+  const root: TemplateNode[] = [];
+  const variables = new Set<string>();
+  // Open sections, innermost last; `target` is the branch being filled
+  const stack: { node: Extract<TemplateNode, { type: 'section' }>; target: TemplateNode[]; line: number }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  const useVariable = (name: string, line: number) => {
+    if (knownVariables && !knownVariables.has(name)) {
+      throw new TemplateError(`Unknown variable "${name}"`, line);
+    }
+    variables.add(name);
+  };
+
+  let position = 0;
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const [tag, sigil, keyword, argument] = match;
+    const index = match.index!;
+    const line = lineAt(source, index);
+    if (index > position) {
+      current().push({ type: 'text', value: source.slice(position, index) });
+    }
+    position = index + tag.length;
+
+    if (sigil === '#') {
+      if ((keyword !== 'if' && keyword !== 'unless') || !argument) {
+        throw new TemplateError(`Expected {{#if name}} or {{#unless name}}, found ${tag}`, line);
+      }
+      useVariable(argument, line);
+      const node: Extract<TemplateNode, { type: 'section' }> = { type: 'section', name: argument, negate: keyword === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.then, line });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      const expected = open ? (open.node.negate ? 'unless' : 'if') : undefined;
+      if (!open || keyword !== expected) {
+        throw new TemplateError(`${tag} does not close an open section`, line);
+      }
+    } else if (keyword === 'else' && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new TemplateError('{{else}} outside a section', line);
+      }
+      if (open.target === open.node.otherwise) {
+        throw new TemplateError(`{{#${open.node.negate ? 'unless' : 'if'} ${open.node.name}}} already has an {{else}}`, line);
+      }
+      open.target = open.node.otherwise;
+    } else if (!argument) {
+      useVariable(keyword, line);
+      current().push({ type: 'variable', name: keyword });
+    } else {
+      throw new TemplateError(`Unexpected ${tag}`, line);
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new TemplateError(`{{#${open.node.negate ? 'unless' : 'if'} ${open.node.name}}} is never closed`, open.line);
+  }
+  if (position < source.length) {
+    root.push({ type: 'text', value: source.slice(position) });
+  }
+
+  return { nodes: root, variables: Array.from(variables) };
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables, html: boolean): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = variables[node.name];
+        if (value instanceof SafeHtml) return value.html;
+        const text = String(value ?? '');
+        return html ? escapeHtml(text) : text;
+      }
+      case 'section':
+        return renderNodes(hasValue(variables[node.name]) !== node.negate ? node.then : node.otherwise, variables, html);
+    }
+  }).join('');
+}
+
+/**
+ * Renders a compiled template. Sections that drop out leave no run of blank
+ * lines behind. With `html`, values are escaped unless they are SafeHtml, so
+ * text from CVs and scraped job listings cannot inject markup.
+ */
+export function renderTemplate(template: CompiledTemplate, variables: TemplateVariables, options: { html?: boolean } = {}): string {
+  return renderNodes(template.nodes, variables, options.html ?? false)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,265 @@
+export interface ExtractedMarkdown {
+  text: string;
+  headings: string[];
+}
+
+// RTF groups whose content is metadata rather than document text
+const IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'mmathPr', 'fldinst', 'filetbl', 'revtbl',
+]);
+
+// Windows-1252 code points that differ from latin1 (0x80-0x9f)
+const CP1252_EXTRAS: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡',
+  0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘',
+  0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜',
+  0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+class TextExtractorService {
+  /**
+   * Strips Markdown syntax, keeping ATX ("## Experience") and setext headings
+   * so sections can be found by the document's own headings.
+   */
+  extractMarkdown(markdown: string): ExtractedMarkdown {
+    const headings: string[] = [];
+    const output: string[] = [];
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    let inCodeBlock = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      let line = lines[i];
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock) {
+        output.push(line);
+        continue;
+      }
+
+      const atxHeading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+      const nextLine = lines[i + 1];
+      if (atxHeading) {
+        const heading = this.stripInlineMarkdown(atxHeading[1]);
+        headings.push(heading);
+        output.push(heading);
+        continue;
+      }
+      if (line.trim() && nextLine !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(nextLine) && !/^\s*[-*+]\s/.test(line)) {
+        const heading = this.stripInlineMarkdown(line.trim());
+        headings.push(heading);
+        output.push(heading);
+        i++; // skip the underline
+        continue;
+      }
+
+      if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        output.push('');
+        continue;
+      }
+
+      line = line
+        .replace(/^\s{0,3}>\s?/, '') // blockquotes
+        .replace(/^(\s*)[-*+]\s+\[[ xX]\]\s+/, '$1• ') // task lists
+        .replace(/^(\s*)[-*+]\s+/, '$1• ');
+
+      // Table separator rows carry no text; other rows keep their cells
+      if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) continue;
+      if (/^\s*\|.*\|\s*$/.test(line)) {
+        line = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).join(' | ');
+      }
+
+      output.push(this.stripInlineMarkdown(line));
+    }
+
+    return {
+      text: output.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+      headings,
+    };
+  }
+
+  extractRtf(rtf: string): string {
+    if (!rtf.trimStart().startsWith('{\\rtf')) {
+      throw new Error('Not an RTF document');
+    }
+
+    let output = '';
+    let depth = 0;
+    let skipUntilDepth = -1; // depth of an ignored destination group, -1 when not skipping
+    let unicodeSkip = 1; // \ucN: fallback characters that follow a \uN escape
+    let pendingSkip = 0;
+    const unicodeSkipStack: number[] = [];
+    // Sticky, so each control word is matched in place without slicing the document
+    const controlWordRegex = new RegExp('\\\\([a-zA-Z]+)(-?\\d+)? ?', 'y');
+
+    const emit = (text: string) => {
+      if (skipUntilDepth !== -1) return;
+      for (const char of text) {
+        if (pendingSkip > 0) {
+          pendingSkip--;
+          continue;
+        }
+        output += char;
+      }
+    };
+
+    let i = 0;
+    while (i < rtf.length) {
+      const char = rtf[i];
+
+      if (char === '{') {
+        depth++;
+        unicodeSkipStack.push(unicodeSkip);
+        i++;
+        // "{\*\destination ...}" marks an optional destination readers may ignore
+        if (rtf.startsWith('\\*', i) && skipUntilDepth === -1) {
+          skipUntilDepth = depth;
+        }
+        continue;
+      }
+
+      if (char === '}') {
+        if (skipUntilDepth === depth) skipUntilDepth = -1;
+        depth--;
+        unicodeSkip = unicodeSkipStack.pop() ?? 1;
+        i++;
+        continue;
+      }
+
+      if (char === '\\') {
+        const next = rtf[i + 1];
+
+        // Escaped literals
+        if (next === '\\' || next === '{' || next === '}') {
+          emit(next);
+          i += 2;
+          continue;
+        }
+        if (next === '~') {
+          emit(' ');
+          i += 2;
+          continue;
+        }
+        if (next === '-' || next === '_') {
+          emit(next === '_' ? '-' : '');
+          i += 2;
+          continue;
+        }
+        if (next === '\n' || next === '\r') {
+          emit('\n');
+          i += 2;
+          continue;
+        }
+        if (next === "'") {
+          const code = parseInt(rtf.substr(i + 2, 2), 16);
+          if (!isNaN(code)) emit(CP1252_EXTRAS[code] ?? String.fromCharCode(code));
+          i += 4;
+          continue;
+        }
+
+        controlWordRegex.lastIndex = i;
+        const controlWord = controlWordRegex.exec(rtf);
+        if (!controlWord) {
+          i += 2;
+          continue;
+        }
+        i += controlWord[0].length;
+
+        const word = controlWord[1];
+        const param = controlWord[2] !== undefined ? parseInt(controlWord[2], 10) : undefined;
+
+        if (IGNORED_DESTINATIONS.has(word) && skipUntilDepth === -1) {
+          skipUntilDepth = depth;
+          continue;
+        }
+
+        switch (word) {
+          case 'par':
+          case 'line':
+          case 'sect':
+          case 'page':
+          case 'row':
+            emit('\n');
+            break;
+          case 'cell':
+            emit(' | ');
+            break;
+          case 'tab':
+            emit('\t');
+            break;
+          case 'bullet':
+            emit('•');
+            break;
+          case 'emdash':
+            emit('—');
+            break;
+          case 'endash':
+            emit('–');
+            break;
+          case 'lquote':
+            emit('‘');
+            break;
+          case 'rquote':
+            emit('’');
+            break;
+          case 'ldblquote':
+            emit('“');
+            break;
+          case 'rdblquote':
+            emit('”');
+            break;
+          case 'uc':
+            if (param !== undefined) unicodeSkip = param;
+            break;
+          case 'u':
+            if (param !== undefined) {
+              // Parameters above 32767 are written as negative 16-bit values
+              emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+              if (skipUntilDepth === -1) pendingSkip = unicodeSkip;
+            }
+            break;
+        }
+        continue;
+      }
+
+      if (char === '\r' || char === '\n') {
+        i++;
+        continue;
+      }
+
+      emit(char);
+      i++;
+    }
+
+    return output
+      .split('\n')
+      .map(line => line.replace(/[ \t]+/g, ' ').replace(/^(\s*\|\s*)+|(\s*\|\s*)+$/g, '').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private stripInlineMarkdown(text: string): string {
+    return text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images
+      .replace(/\[([^\]]+)\]\(([^)]*)\)/g, (_match, label: string, url: string) =>
+        // Keep mailto/tel targets: they are often the only copy of contact details
+        /^(mailto|tel):/i.test(url) && !label.includes(url.replace(/^(mailto|tel):/i, ''))
+          ? `${label} (${url.replace(/^(mailto|tel):/i, '')})`
+          : label)
+      .replace(/<((?:https?:\/\/|mailto:)[^>]+|[^>\s@]+@[^>\s]+)>/g, (_match, url: string) => url.replace(/^mailto:/i, ''))
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/\*(.+?)\*/g, '$1')
+      .replace(/(^|\W)_([^_]+)_(?!\w)/g, '$1$2') // not inside snake_case handles or emails
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\\([\\`*_{}\[\]()#+\-.!])/g, '$1');
+  }
+}
+
+export const textExtractorService = new TextExtractorService();
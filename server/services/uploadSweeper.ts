@@ -0,0 +1,63 @@
+import { storage } from '../storage';
+import { fileStore } from './fileStore';
+
+// Uploads are stored before the CV row exists, so young files are left alone
+const MIN_ORPHAN_AGE_MS = 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+class UploadSweeperService {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    const minutes = parseInt(process.env.UPLOAD_SWEEP_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('Upload sweep failed:', error));
+    }, minutes * 60 * 1000);
+    // Don't keep the process alive just for the sweep
+    this.timer.unref();
+    console.log(`Upload sweeper started, interval: ${minutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Deletes stored files that no CV record points at */
+  async sweep(): Promise<string[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      const knownFilenames = new Set(await storage.getCvFilenames());
+      const files = await fileStore.list();
+      const removed: string[] = [];
+
+      for (const file of files) {
+        if (knownFilenames.has(file.key)) continue;
+        if (Date.now() - file.lastModified.getTime() < MIN_ORPHAN_AGE_MS) continue;
+
+        try {
+          await fileStore.delete(file.key);
+          removed.push(file.key);
+        } catch (error) {
+          console.error(`Failed to remove orphaned upload ${file.key}:`, error);
+        }
+      }
+
+      if (removed.length > 0) {
+        console.log(`Upload sweep removed ${removed.length} orphaned files`);
+      }
+      return removed;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const uploadSweeperService = new UploadSweeperService();
@@ -0,0 +1,428 @@
+import JSZip from 'jszip';
+
+export interface ExtractedWordDocument {
+  text: string;
+  headings: string[];
+}
+
+type BlockKind = 'heading' | 'paragraph' | 'list-item' | 'table-row';
+
+interface DocumentBlock {
+  kind: BlockKind;
+  text: string;
+}
+
+interface XmlToken {
+  type: 'open' | 'close' | 'text';
+  name: string;
+  attributes: string;
+  selfClosing: boolean;
+  text: string;
+}
+
+interface StyleInfo {
+  name: string;
+  outlineLevel?: number;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function tokenizeXml(xml: string): XmlToken[] {
+  const tokens: XmlToken[] = [];
+  const tokenRegex = /<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(xml)) !== null) {
+    if (match[5] !== undefined) {
+      tokens.push({ type: 'text', name: '', attributes: '', selfClosing: false, text: decodeXmlEntities(match[5]) });
+    } else {
+      tokens.push({
+        type: match[1] ? 'close' : 'open',
+        name: match[2],
+        attributes: match[3],
+        selfClosing: match[4] === '/',
+        text: '',
+      });
+    }
+  }
+  return tokens;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+function renderBlocks(blocks: DocumentBlock[]): ExtractedWordDocument {
+  const lines: string[] = [];
+  const headings: string[] = [];
+
+  for (const block of blocks) {
+    if (!block.text) continue;
+    switch (block.kind) {
+      case 'heading':
+        headings.push(block.text);
+        lines.push('', block.text);
+        break;
+      case 'list-item':
+        lines.push(`• ${block.text}`);
+        break;
+      default:
+        lines.push(block.text);
+    }
+  }
+
+  return {
+    text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    headings,
+  };
+}
+
+class WordExtractorService {
+  async extractDocx(buffer: Buffer): Promise<ExtractedWordDocument> {
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) {
+      throw new Error('DOCX archive has no word/document.xml part');
+    }
+
+    const stylesXml = await zip.file('word/styles.xml')?.async('string');
+    const styles = stylesXml ? this.parseStyles(stylesXml) : new Map<string, StyleInfo>();
+
+    // Contact details are often tucked into the page header, so read headers before the body
+    const headerParts = Object.keys(zip.files)
+      .filter(name => /^word\/header\d*\.xml$/.test(name))
+      .sort();
+
+    const blocks: DocumentBlock[] = [];
+    for (const part of headerParts) {
+      const xml = await zip.file(part)!.async('string');
+      blocks.push(...this.walkDocumentXml(xml, styles));
+    }
+    blocks.push(...this.walkDocumentXml(documentXml, styles));
+
+    return renderBlocks(blocks);
+  }
+
+  /** OpenDocument text (LibreOffice, Google Docs export) keeps the body in content.xml */
+  async extractOdt(buffer: Buffer): Promise<ExtractedWordDocument> {
+    const zip = await JSZip.loadAsync(buffer);
+    const contentXml = await zip.file('content.xml')?.async('string');
+    if (!contentXml) {
+      throw new Error('ODT archive has no content.xml part');
+    }
+
+    return renderBlocks(this.walkOdtXml(contentXml));
+  }
+
+  /**
+   * Legacy Word 97-2003 files are OLE compound documents. Rather than decoding
+   * the piece table we scan for runs of readable text, which Word stores as
+   * either UTF-16LE or single-byte cp1252 with \r paragraph marks.
+   */
+  extractDoc(buffer: Buffer): string {
+    const runs = [...this.findUtf16Runs(buffer), ...this.findSingleByteRuns(buffer)];
+    const seen = new Set<string>();
+    const paragraphs: string[] = [];
+
+    for (const run of runs) {
+      for (const raw of run.split(/[\r\n\u000b\u000c]+/)) {
+        const paragraph = raw
+          .replace(/\u0007/g, ' | ') // table cell marks
+          .replace(/[\u0000-\u0008\u000e-\u001f]/g, '')
+          .replace(/[ \t]+/g, ' ')
+          .trim();
+
+        // Font tables, style names and property strings are mostly single tokens
+        if (paragraph.length < 3 || !/[A-Za-z]{2,}/.test(paragraph)) continue;
+        if (seen.has(paragraph)) continue;
+        seen.add(paragraph);
+        paragraphs.push(paragraph);
+      }
+    }
+
+    return paragraphs.join('\n');
+  }
+
+  private parseStyles(xml: string): Map<string, StyleInfo> {
+    const styles = new Map<string, StyleInfo>();
+    let currentId: string | undefined;
+
+    for (const token of tokenizeXml(xml)) {
+      if (token.type === 'open' && token.name === 'w:style') {
+        currentId = getAttribute(token.attributes, 'w:styleId');
+        if (currentId) styles.set(currentId, { name: currentId });
+      } else if (token.type === 'close' && token.name === 'w:style') {
+        currentId = undefined;
+      } else if (currentId && token.type === 'open' && token.name === 'w:name') {
+        styles.get(currentId)!.name = getAttribute(token.attributes, 'w:val') ?? currentId;
+      } else if (currentId && token.type === 'open' && token.name === 'w:outlineLvl') {
+        const level = parseInt(getAttribute(token.attributes, 'w:val') ?? '', 10);
+        if (!isNaN(level)) styles.get(currentId)!.outlineLevel = level;
+      }
+    }
+
+    return styles;
+  }
+
+  private isHeadingStyle(styleId: string | undefined, styles: Map<string, StyleInfo>): boolean {
+    if (!styleId) return false;
+    const style = styles.get(styleId);
+    // Style ids are localised ("Überschrift1"), the built-in names are not ("heading 1")
+    const name = (style?.name ?? styleId).toLowerCase();
+    return /^(heading\s*\d|title|subtitle)$/.test(name) || style?.outlineLevel !== undefined;
+  }
+
+  private walkDocumentXml(xml: string, styles: Map<string, StyleInfo>): DocumentBlock[] {
+    const blocks: DocumentBlock[] = [];
+
+    let paragraphText = '';
+    let paragraphStyle: string | undefined;
+    let paragraphOutline = false;
+    let paragraphNumbered = false;
+    let inText = false;
+    let skipDepth = 0;
+
+    // Tables can nest; each level keeps its current row and cell text
+    const tables: { cells: string[]; cell: string[] }[] = [];
+
+    for (const token of tokenizeXml(xml)) {
+      if (token.type === 'text') {
+        if (inText && skipDepth === 0) paragraphText += token.text;
+        continue;
+      }
+
+      const opening = token.type === 'open';
+      switch (token.name) {
+        case 'w:instrText':
+        case 'w:delText':
+          // Field codes and tracked deletions never appear on the rendered page
+          if (!token.selfClosing) skipDepth += opening ? 1 : -1;
+          break;
+        case 'w:t':
+          inText = opening && !token.selfClosing;
+          break;
+        case 'w:tab':
+          if (opening && skipDepth === 0) paragraphText += '\t';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          if (opening && skipDepth === 0) paragraphText += '\n';
+          break;
+        case 'w:pStyle':
+          if (opening) paragraphStyle = getAttribute(token.attributes, 'w:val');
+          break;
+        case 'w:outlineLvl':
+          if (opening) paragraphOutline = true;
+          break;
+        case 'w:numPr':
+          if (opening) paragraphNumbered = true;
+          break;
+        case 'w:p':
+          if (opening && !token.selfClosing) {
+            paragraphText = '';
+            paragraphStyle = undefined;
+            paragraphOutline = false;
+            paragraphNumbered = false;
+          } else if (!opening) {
+            const text = paragraphText.replace(/[ \t]+/g, ' ').trim();
+            const table = tables[tables.length - 1];
+            if (table) {
+              if (text) table.cell.push(text);
+            } else if (text) {
+              const heading = paragraphOutline || this.isHeadingStyle(paragraphStyle, styles);
+              blocks.push({
+                kind: heading ? 'heading' : paragraphNumbered ? 'list-item' : 'paragraph',
+                text,
+              });
+            }
+          }
+          break;
+        case 'w:tbl':
+          if (opening) {
+            tables.push({ cells: [], cell: [] });
+          } else {
+            tables.pop();
+          }
+          break;
+        case 'w:tr':
+          if (opening && tables.length > 0) {
+            tables[tables.length - 1].cells = [];
+          } else if (!opening && tables.length > 0) {
+            const row = tables[tables.length - 1].cells.filter(cell => cell.length > 0).join(' | ');
+            const parent = tables[tables.length - 2];
+            if (parent) {
+              if (row) parent.cell.push(row);
+            } else if (row) {
+              blocks.push({ kind: 'table-row', text: row });
+            }
+          }
+          break;
+        case 'w:tc':
+          if (opening && tables.length > 0) {
+            tables[tables.length - 1].cell = [];
+          } else if (!opening && tables.length > 0) {
+            const table = tables[tables.length - 1];
+            table.cells.push(table.cell.join(' '));
+          }
+          break;
+      }
+    }
+
+    return blocks;
+  }
+
+  private walkOdtXml(xml: string): DocumentBlock[] {
+    const blocks: DocumentBlock[] = [];
+
+    let paragraphText = '';
+    let paragraphDepth = 0;
+    let listDepth = 0;
+    let skipDepth = 0;
+    const tables: { cells: string[]; cell: string[] }[] = [];
+
+    for (const token of tokenizeXml(xml)) {
+      if (token.type === 'text') {
+        if (paragraphDepth > 0 && skipDepth === 0) paragraphText += token.text;
+        continue;
+      }
+
+      const opening = token.type === 'open';
+      switch (token.name) {
+        case 'office:annotation':
+        case 'text:tracked-changes':
+          // Comments and tracked deletions are not part of the visible text
+          if (!token.selfClosing) skipDepth += opening ? 1 : -1;
+          break;
+        case 'text:s':
+          if (opening && skipDepth === 0) {
+            const count = parseInt(getAttribute(token.attributes, 'text:c') ?? '1', 10);
+            paragraphText += ' '.repeat(isNaN(count) ? 1 : count);
+          }
+          break;
+        case 'text:tab':
+          if (opening && skipDepth === 0) paragraphText += '\t';
+          break;
+        case 'text:line-break':
+          if (opening && skipDepth === 0) paragraphText += '\n';
+          break;
+        case 'text:list':
+          if (!token.selfClosing) listDepth += opening ? 1 : -1;
+          break;
+        case 'text:h':
+        case 'text:p':
+          if (token.selfClosing) break;
+          if (opening) {
+            if (paragraphDepth === 0) paragraphText = '';
+            paragraphDepth++;
+          } else {
+            paragraphDepth--;
+            if (paragraphDepth > 0) break;
+
+            const heading = token.name === 'text:h';
+            const text = paragraphText.replace(/[ \t]+/g, ' ').trim();
+            const table = tables[tables.length - 1];
+            if (table) {
+              if (text) table.cell.push(text);
+            } else if (text) {
+              blocks.push({
+                kind: heading ? 'heading' : listDepth > 0 ? 'list-item' : 'paragraph',
+                text,
+              });
+            }
+          }
+          break;
+        case 'table:table':
+          if (opening) {
+            tables.push({ cells: [], cell: [] });
+          } else {
+            tables.pop();
+          }
+          break;
+        case 'table:table-row':
+          if (opening && tables.length > 0) {
+            tables[tables.length - 1].cells = [];
+          } else if (!opening && tables.length > 0) {
+            const row = tables[tables.length - 1].cells.filter(cell => cell.length > 0).join(' | ');
+            const parent = tables[tables.length - 2];
+            if (parent) {
+              if (row) parent.cell.push(row);
+            } else if (row) {
+              blocks.push({ kind: 'table-row', text: row });
+            }
+          }
+          break;
+        case 'table:table-cell':
+          if (token.selfClosing) break;
+          if (opening && tables.length > 0) {
+            tables[tables.length - 1].cell = [];
+          } else if (!opening && tables.length > 0) {
+            const table = tables[tables.length - 1];
+            table.cells.push(table.cell.join(' '));
+          }
+          break;
+      }
+    }
+
+    return blocks;
+  }
+
+  private findUtf16Runs(buffer: Buffer): string[] {
+    const runs: string[] = [];
+    let current = '';
+
+    for (let i = 0; i + 1 < buffer.length; i += 2) {
+      const code = buffer.readUInt16LE(i);
+      if (this.isDocTextChar(code) || (code >= 0xa0 && code <= 0x24f) || (code >= 0x2010 && code <= 0x2027)) {
+        current += String.fromCharCode(code);
+      } else {
+        if (current.length >= 8) runs.push(current);
+        current = '';
+      }
+    }
+    if (current.length >= 8) runs.push(current);
+
+    return runs.filter(run => run.includes(' '));
+  }
+
+  private findSingleByteRuns(buffer: Buffer): string[] {
+    const runs: string[] = [];
+    let start = -1;
+
+    for (let i = 0; i <= buffer.length; i++) {
+      const code = i < buffer.length ? buffer[i] : 0;
+      if (i < buffer.length && (this.isDocTextChar(code) || code >= 0xa0)) {
+        if (start === -1) start = i;
+      } else if (start !== -1) {
+        if (i - start >= 8) runs.push(buffer.toString('latin1', start, i));
+        start = -1;
+      }
+    }
+
+    return runs.filter(run => run.includes(' '));
+  }
+
+  private isDocTextChar(code: number): boolean {
+    // Printable ASCII plus tab, paragraph (\r), line break (\v), page break (\f) and cell marks (\u0007)
+    return (code >= 0x20 && code < 0x7f) || code === 0x09 || code === 0x0d || code === 0x0b || code === 0x0c || code === 0x07;
+  }
+}
+
+export const wordExtractorService = new WordExtractorService();
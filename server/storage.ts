@@ -1,6 +1,17 @@
-import { users, cvs, jobPreferences, applications, type User, type InsertUser, type Cv, type InsertCv, type JobPreferences, type InsertJobPreferences, type Application, type InsertApplication } from "@shared/schema";
+import { users, cvs, jobPreferences, emailTemplates, type EmailTemplate, type InsertEmailTemplate, applications, applicationEvents, type ApplicationEvent, type ApplicationEventSource, type ApplicationReply, type ApplicationStatus, inboundMailboxes, type InboundMailbox, sessions, subscriptions, invoices, autoApplyRuns, autoApplyItems, campaigns, type Campaign, type InsertCampaign, type AutoApplyRun, type InsertAutoApplyRun, type AutoApplyItem, type InsertAutoApplyItem, type AutoApplyRunStatus, type Subscription, type InsertSubscription, type Invoice, type InsertInvoice, emailVerificationTokens, passwordResetTokens, type EmailVerificationToken, type PasswordResetToken, type User, type InsertUser, type Cv, type InsertCv, type JobPreferences, type InsertJobPreferences, type Application, type InsertApplication, type ParsedCVData, type ParsedCVDataOverrides, type ParseStatus, type ParseWarning } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, ne, asc, desc, and, or, gt, gte, lt, lte, inArray, notInArray, isNull, sql, count, min } from "drizzle-orm";
+import type { PlanId } from "@shared/plans";
+import { storedApplicationStatuses, summarizeApplicationStatuses, withCurrentStatus, type ApplicationStats } from "@shared/applicationStatus";
+
+export interface ApplicationStatusChange {
+  from: ApplicationStatus;
+  to: ApplicationStatus; // The same as `from` to only record an event
+  source: ApplicationEventSource;
+  notes?: string | null;
+  data?: Record<string, unknown> | null;
+  responseData?: ApplicationReply; // A reply; also sets responseAt
+}
 
 export interface IStorage {
   // User methods
@@ -8,30 +19,112 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: string, passwordHash: string): Promise<void>;
+  markEmailVerified(id: string): Promise<User | undefined>;
+  updateUserPlan(id: string, plan: PlanId): Promise<void>;
+  updateUserCoverLetterTemplate(id: string, template: string | null): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
+
+  // Account token methods. Consuming a token succeeds at most once, and only
+  // before it expires.
+  createEmailVerificationToken(userId: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken>;
+  consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
   
-  // CV methods
+  // CV methods. Lookups by id are scoped to the owning user and return
+  // undefined for another user's CV.
   createCv(cv: InsertCv): Promise<Cv>;
   getUserCvs(userId: string): Promise<Cv[]>;
-  getCv(id: string): Promise<Cv | undefined>;
-  deleteCv(id: string): Promise<void>;
+  getCv(userId: string, id: string): Promise<Cv | undefined>;
+  deleteCv(userId: string, id: string): Promise<Cv | undefined>;
+  getCvFilenames(): Promise<string[]>;
+  updateCv(userId: string, id: string, data: Partial<Pick<InsertCv, "label">>): Promise<Cv | undefined>;
+  getDefaultCv(userId: string): Promise<Cv | undefined>;
+  setDefaultCv(userId: string, id: string): Promise<Cv | undefined>;
+  updateCvParsedData(userId: string, id: string, overrides: ParsedCVDataOverrides): Promise<Cv | undefined>;
+  updateCvParseResult(userId: string, id: string, result: { data: ParsedCVData; status: ParseStatus; warnings: ParseWarning[] }): Promise<Cv | undefined>;
   
-  // Job preferences methods
+  // Job preferences methods. A user has any number of named profiles; the
+  // oldest one is the default for manual auto-apply.
   createJobPreferences(preferences: InsertJobPreferences): Promise<JobPreferences>;
-  getUserJobPreferences(userId: string): Promise<JobPreferences | undefined>;
-  updateJobPreferences(userId: string, preferences: Partial<InsertJobPreferences>): Promise<JobPreferences>;
+  getUserJobPreferences(userId: string): Promise<JobPreferences[]>;
+  getDefaultJobPreferences(userId: string): Promise<JobPreferences | undefined>;
+  getJobPreferences(userId: string, id: string): Promise<JobPreferences | undefined>;
+  updateJobPreferences(userId: string, id: string, preferences: Partial<InsertJobPreferences>): Promise<JobPreferences | undefined>;
+  deleteJobPreferences(userId: string, id: string): Promise<JobPreferences | undefined>;
+
+  // Email template methods. Every update bumps the version.
+  createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  getUserEmailTemplates(userId: string): Promise<EmailTemplate[]>;
+  getEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined>;
+  updateEmailTemplate(userId: string, id: string, template: Partial<Omit<InsertEmailTemplate, "userId">>): Promise<EmailTemplate | undefined>;
+  deleteEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined>;
   
-  // Application methods
-  createApplication(application: InsertApplication): Promise<Application>;
+  // Billing methods
+  createSubscription(subscription: InsertSubscription): Promise<Subscription>;
+  getSubscription(id: string): Promise<Subscription | undefined>;
+  getUserSubscription(userId: string): Promise<Subscription | undefined>;
+  updateSubscription(id: string, data: Partial<InsertSubscription>): Promise<Subscription>;
+  getSubscriptionsDueForRenewal(now: Date): Promise<Subscription[]>;
+  getSubscriptionsPastGrace(now: Date): Promise<Subscription[]>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoiceByProviderPaymentId(providerPaymentId: string): Promise<Invoice | undefined>;
+  updateInvoice(id: string, data: Partial<InsertInvoice>): Promise<Invoice>;
+  getUserInvoices(userId: string, limit?: number): Promise<Invoice[]>;
+  getInvoicesDueForRetry(now: Date): Promise<Invoice[]>;
+  getOpenInvoice(subscriptionId: string): Promise<Invoice | undefined>;
+  voidUnpaidInvoices(subscriptionId: string): Promise<void>;
+
+  // Campaign methods
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  getUserCampaigns(userId: string): Promise<Campaign[]>;
+  getCampaign(userId: string, id: string): Promise<Campaign | undefined>;
+  updateCampaign(userId: string, id: string, data: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+  deleteCampaign(userId: string, id: string): Promise<Campaign | undefined>;
+  getDueCampaigns(now: Date): Promise<Campaign[]>;
+  claimCampaignSlot(id: string, dueAt: Date, nextRunAt: Date): Promise<Campaign | undefined>;
+  getCampaignRuns(campaignId: string, limit?: number): Promise<AutoApplyRun[]>;
+
+  // Auto-apply queue methods. Runs are claimed with a lease so only one
+  // worker processes a run at a time, and a crashed worker's run is picked up
+  // again once its lease expires.
+  createAutoApplyRun(run: InsertAutoApplyRun): Promise<AutoApplyRun>;
+  getAutoApplyRun(userId: string, id: string): Promise<AutoApplyRun | undefined>;
+  getUserAutoApplyRuns(userId: string, limit?: number): Promise<AutoApplyRun[]>;
+  getActiveAutoApplyRun(userId: string): Promise<AutoApplyRun | undefined>;
+  claimAutoApplyRun(now: Date, lockedUntil: Date): Promise<AutoApplyRun | undefined>;
+  updateAutoApplyRun(id: string, data: Partial<InsertAutoApplyRun>): Promise<AutoApplyRun | undefined>;
+  incrementAutoApplyRunCounts(id: string, counts: { sent?: number; failed?: number; skipped?: number }): Promise<void>;
+  finishAutoApplyRun(id: string, status: Extract<AutoApplyRunStatus, "completed" | "failed">, error?: string): Promise<AutoApplyRun | undefined>;
+  cancelAutoApplyRun(userId: string, id: string): Promise<AutoApplyRun | undefined>;
+  createAutoApplyItems(items: InsertAutoApplyItem[]): Promise<AutoApplyItem[]>;
+  getAutoApplyItems(runId: string): Promise<AutoApplyItem[]>;
+  getNextAutoApplyItem(runId: string, now: Date): Promise<AutoApplyItem | undefined>;
+  getNextAutoApplyRetryAt(runId: string): Promise<Date | null>;
+  updateAutoApplyItem(id: string, data: Partial<InsertAutoApplyItem>): Promise<AutoApplyItem>;
+  closePendingAutoApplyItems(runId: string, status: "skipped" | "canceled"): Promise<AutoApplyItem[]>;
+
+  // Application methods. Each status change is recorded as an application
+  // event in the same transaction.
+  createApplication(application: InsertApplication, source: ApplicationEventSource): Promise<Application>;
   getUserApplications(userId: string, limit?: number): Promise<Application[]>;
-  getApplication(id: string): Promise<Application | undefined>;
-  updateApplicationStatus(id: string, status: string, responseData?: any): Promise<Application>;
-  getUserApplicationStats(userId: string): Promise<{
-    total: number;
-    sent: number;
-    pending: number;
-    responded: number;
-    failed: number;
-  }>;
+  // Every application the user made to one of these jobs, matched by company and title
+  getApplicationsForJobs(userId: string, jobs: { company: string; title: string }[]): Promise<Application[]>;
+  getApplication(userId: string, id: string): Promise<Application | undefined>;
+  // Not scoped: replies arrive without a user, and the token is unguessable
+  getApplicationByReplyToken(replyToken: string): Promise<Application | undefined>;
+  // Undefined when the application is not found or its status is no longer `change.from`
+  updateApplicationStatus(userId: string, id: string, change: ApplicationStatusChange): Promise<Application | undefined>;
+  getApplicationEvents(userId: string, applicationId: string): Promise<ApplicationEvent[]>;
+  getApplicationUsage(userId: string, since: Date): Promise<{ count: number; oldest: Date | null }>;
+  getUserApplicationStats(userId: string): Promise<ApplicationStats>;
+
+  // Inbound mail methods. The cursor only moves forward.
+  getInboundMailbox(mailbox: string): Promise<InboundMailbox | undefined>;
+  saveInboundMailboxCursor(mailbox: string, uidValidity: string, lastUid: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -59,6 +152,102 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    await db.update(users).set({ password: passwordHash }).where(eq(users.id, id));
+  }
+
+  async markEmailVerified(id: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async updateUserPlan(id: string, plan: PlanId): Promise<void> {
+    await db.update(users).set({ plan }).where(eq(users.id, id));
+  }
+
+  async updateUserCoverLetterTemplate(id: string, template: string | null): Promise<void> {
+    await db.update(users).set({ coverLetterTemplate: template }).where(eq(users.id, id));
+  }
+
+  // Signs the user out everywhere; passport keeps the user id in the session JSON
+  async deleteUserSessions(userId: string): Promise<void> {
+    await db.delete(sessions).where(sql`${sessions.sess} -> 'passport' ->> 'user' = ${userId}`);
+  }
+
+  // Account token methods
+  async createEmailVerificationToken(userId: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+    return await db.transaction(async (tx) => {
+      // Only the most recent link works
+      await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt)));
+
+      const [token] = await tx
+        .insert(emailVerificationTokens)
+        .values({ userId, tokenHash, expiresAt })
+        .returning();
+      return token;
+    });
+  }
+
+  async consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const [token] = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(emailVerificationTokens.tokenHash, tokenHash),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token || undefined;
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+
+      const [token] = await tx
+        .insert(passwordResetTokens)
+        .values({ userId, tokenHash, expiresAt })
+        .returning();
+      return token;
+    });
+  }
+
+  async getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ));
+    return token || undefined;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token || undefined;
+  }
+
   // CV methods
   async createCv(insertCv: InsertCv): Promise<Cv> {
     const [cv] = await db
@@ -72,13 +261,88 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(cvs).where(eq(cvs.userId, userId)).orderBy(desc(cvs.uploadedAt));
   }
 
-  async getCv(id: string): Promise<Cv | undefined> {
-    const [cv] = await db.select().from(cvs).where(eq(cvs.id, id));
+  async getCv(userId: string, id: string): Promise<Cv | undefined> {
+    const [cv] = await db.select().from(cvs).where(and(eq(cvs.id, id), eq(cvs.userId, userId)));
+    return cv || undefined;
+  }
+
+  async deleteCv(userId: string, id: string): Promise<Cv | undefined> {
+    const [cv] = await db
+      .delete(cvs)
+      .where(and(eq(cvs.id, id), eq(cvs.userId, userId)))
+      .returning();
+    return cv || undefined;
+  }
+
+  async getCvFilenames(): Promise<string[]> {
+    const rows = await db.select({ filename: cvs.filename }).from(cvs);
+    return rows.map(row => row.filename);
+  }
+
+  async updateCv(userId: string, id: string, updateData: Partial<Pick<InsertCv, "label">>): Promise<Cv | undefined> {
+    const [cv] = await db
+      .update(cvs)
+      .set(updateData)
+      .where(and(eq(cvs.id, id), eq(cvs.userId, userId)))
+      .returning();
+    return cv || undefined;
+  }
+
+  // The CV marked as default, falling back to the most recent upload
+  async getDefaultCv(userId: string): Promise<Cv | undefined> {
+    const [cv] = await db
+      .select()
+      .from(cvs)
+      .where(eq(cvs.userId, userId))
+      .orderBy(desc(cvs.isDefault), desc(cvs.uploadedAt))
+      .limit(1);
     return cv || undefined;
   }
 
-  async deleteCv(id: string): Promise<void> {
-    await db.delete(cvs).where(eq(cvs.id, id));
+  async setDefaultCv(userId: string, id: string): Promise<Cv | undefined> {
+    return await db.transaction(async (tx) => {
+      // Another user's CV id must not clear this user's current default
+      const [owned] = await tx
+        .select({ id: cvs.id })
+        .from(cvs)
+        .where(and(eq(cvs.id, id), eq(cvs.userId, userId)));
+      if (!owned) return undefined;
+
+      await tx
+        .update(cvs)
+        .set({ isDefault: false })
+        .where(and(eq(cvs.userId, userId), eq(cvs.isDefault, true)));
+
+      const [cv] = await tx
+        .update(cvs)
+        .set({ isDefault: true })
+        .where(and(eq(cvs.id, id), eq(cvs.userId, userId)))
+        .returning();
+      return cv;
+    });
+  }
+
+  async updateCvParsedData(userId: string, id: string, overrides: ParsedCVDataOverrides): Promise<Cv | undefined> {
+    const [cv] = await db
+      .update(cvs)
+      .set({ parsedDataOverrides: overrides })
+      .where(and(eq(cvs.id, id), eq(cvs.userId, userId)))
+      .returning();
+    return cv || undefined;
+  }
+
+  // Only touches the raw extraction; manual overrides are left as they are
+  async updateCvParseResult(userId: string, id: string, result: { data: ParsedCVData; status: ParseStatus; warnings: ParseWarning[] }): Promise<Cv | undefined> {
+    const [cv] = await db
+      .update(cvs)
+      .set({
+        parsedData: result.data,
+        parseStatus: result.status,
+        parseWarnings: result.warnings,
+      })
+      .where(and(eq(cvs.id, id), eq(cvs.userId, userId)))
+      .returning();
+    return cv || undefined;
   }
 
   // Job preferences methods
@@ -90,82 +354,578 @@ export class DatabaseStorage implements IStorage {
     return preferences;
   }
 
-  async getUserJobPreferences(userId: string): Promise<JobPreferences | undefined> {
-    const [preferences] = await db.select().from(jobPreferences).where(eq(jobPreferences.userId, userId));
+  async getUserJobPreferences(userId: string): Promise<JobPreferences[]> {
+    return await db
+      .select()
+      .from(jobPreferences)
+      .where(eq(jobPreferences.userId, userId))
+      .orderBy(asc(jobPreferences.createdAt));
+  }
+
+  async getDefaultJobPreferences(userId: string): Promise<JobPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(jobPreferences)
+      .where(eq(jobPreferences.userId, userId))
+      .orderBy(asc(jobPreferences.createdAt))
+      .limit(1);
+    return preferences || undefined;
+  }
+
+  async getJobPreferences(userId: string, id: string): Promise<JobPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(jobPreferences)
+      .where(and(eq(jobPreferences.id, id), eq(jobPreferences.userId, userId)));
     return preferences || undefined;
   }
 
-  async updateJobPreferences(userId: string, updateData: Partial<InsertJobPreferences>): Promise<JobPreferences> {
+  async updateJobPreferences(userId: string, id: string, updateData: Partial<InsertJobPreferences>): Promise<JobPreferences | undefined> {
     const [preferences] = await db
       .update(jobPreferences)
       .set({ 
         ...updateData, 
         updatedAt: new Date() 
       } as any)
-      .where(eq(jobPreferences.userId, userId))
+      .where(and(eq(jobPreferences.id, id), eq(jobPreferences.userId, userId)))
       .returning();
-    return preferences;
+    return preferences || undefined;
   }
 
-  // Application methods
-  async createApplication(insertApplication: InsertApplication): Promise<Application> {
-    const [application] = await db
-      .insert(applications)
-      .values(insertApplication)
+  async deleteJobPreferences(userId: string, id: string): Promise<JobPreferences | undefined> {
+    const [preferences] = await db
+      .delete(jobPreferences)
+      .where(and(eq(jobPreferences.id, id), eq(jobPreferences.userId, userId)))
       .returning();
-    return application;
+    return preferences || undefined;
   }
 
-  async getUserApplications(userId: string, limit = 50): Promise<Application[]> {
+  // Email template methods
+  async createEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [template] = await db
+      .insert(emailTemplates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async getUserEmailTemplates(userId: string): Promise<EmailTemplate[]> {
     return await db
+      .select()
+      .from(emailTemplates)
+      .where(eq(emailTemplates.userId, userId))
+      .orderBy(asc(emailTemplates.createdAt));
+  }
+
+  async getEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(emailTemplates)
+      .where(and(eq(emailTemplates.id, id), eq(emailTemplates.userId, userId)));
+    return template || undefined;
+  }
+
+  async updateEmailTemplate(userId: string, id: string, updateData: Partial<Omit<InsertEmailTemplate, "userId">>): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .update(emailTemplates)
+      .set({
+        ...updateData,
+        version: sql`${emailTemplates.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(emailTemplates.id, id), eq(emailTemplates.userId, userId)))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .delete(emailTemplates)
+      .where(and(eq(emailTemplates.id, id), eq(emailTemplates.userId, userId)))
+      .returning();
+    return template || undefined;
+  }
+
+  // Billing methods
+  async createSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const [subscription] = await db
+      .insert(subscriptions)
+      .values(insertSubscription)
+      .returning();
+    return subscription;
+  }
+
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  // The user's current subscription; canceled ones are history
+  async getUserSubscription(userId: string): Promise<Subscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.userId, userId), ne(subscriptions.status, 'canceled')))
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1);
+    return subscription || undefined;
+  }
+
+  async updateSubscription(id: string, updateData: Partial<InsertSubscription>): Promise<Subscription> {
+    const [subscription] = await db
+      .update(subscriptions)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(subscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async getSubscriptionsDueForRenewal(now: Date): Promise<Subscription[]> {
+    return await db
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.status, 'active'), lte(subscriptions.currentPeriodEnd, now)));
+  }
+
+  async getSubscriptionsPastGrace(now: Date): Promise<Subscription[]> {
+    return await db
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.status, 'past_due'), lte(subscriptions.graceUntil, now)));
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    const [invoice] = await db
+      .insert(invoices)
+      .values(insertInvoice)
+      .returning();
+    return invoice;
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice || undefined;
+  }
+
+  async getInvoiceByProviderPaymentId(providerPaymentId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.providerPaymentId, providerPaymentId));
+    return invoice || undefined;
+  }
+
+  async updateInvoice(id: string, updateData: Partial<InsertInvoice>): Promise<Invoice> {
+    const [invoice] = await db
+      .update(invoices)
+      .set(updateData)
+      .where(eq(invoices.id, id))
+      .returning();
+    return invoice;
+  }
+
+  async getUserInvoices(userId: string, limit = 50): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.createdAt))
+      .limit(limit);
+  }
+
+  // Failed renewal invoices whose next retry is due
+  async getInvoicesDueForRetry(now: Date): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(and(
+        eq(invoices.status, 'failed'),
+        eq(invoices.reason, 'subscription_cycle'),
+        lte(invoices.nextAttemptAt, now),
+      ));
+  }
+
+  // An invoice still waiting for the provider to report the payment outcome
+  async getOpenInvoice(subscriptionId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.subscriptionId, subscriptionId), eq(invoices.status, 'open')))
+      .limit(1);
+    return invoice || undefined;
+  }
+
+  async voidUnpaidInvoices(subscriptionId: string): Promise<void> {
+    await db
+      .update(invoices)
+      .set({ status: 'void', nextAttemptAt: null })
+      .where(and(eq(invoices.subscriptionId, subscriptionId), inArray(invoices.status, ['open', 'failed'])));
+  }
+
+  // Campaign methods
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    const [campaign] = await db
+      .insert(campaigns)
+      .values(insertCampaign)
+      .returning();
+    return campaign;
+  }
+
+  async getUserCampaigns(userId: string): Promise<Campaign[]> {
+    return await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.userId, userId))
+      .orderBy(asc(campaigns.createdAt));
+  }
+
+  async getCampaign(userId: string, id: string): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)));
+    return campaign || undefined;
+  }
+
+  async updateCampaign(userId: string, id: string, updateData: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .update(campaigns)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)))
+      .returning();
+    return campaign || undefined;
+  }
+
+  async deleteCampaign(userId: string, id: string): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .delete(campaigns)
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)))
+      .returning();
+    return campaign || undefined;
+  }
+
+  async getDueCampaigns(now: Date): Promise<Campaign[]> {
+    return await db
+      .select()
+      .from(campaigns)
+      .where(and(eq(campaigns.paused, false), lte(campaigns.nextRunAt, now)))
+      .orderBy(asc(campaigns.nextRunAt));
+  }
+
+  // Moves a due campaign on to its next slot. Only one caller gets the row
+  // back for a given slot, so a slot is never started twice.
+  async claimCampaignSlot(id: string, dueAt: Date, nextRunAt: Date): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .update(campaigns)
+      .set({ nextRunAt, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.paused, false), eq(campaigns.nextRunAt, dueAt)))
+      .returning();
+    return campaign || undefined;
+  }
+
+  async getCampaignRuns(campaignId: string, limit = 20): Promise<AutoApplyRun[]> {
+    return await db
+      .select()
+      .from(autoApplyRuns)
+      .where(eq(autoApplyRuns.campaignId, campaignId))
+      .orderBy(desc(autoApplyRuns.createdAt))
+      .limit(limit);
+  }
+
+  // Auto-apply queue methods
+  async createAutoApplyRun(insertRun: InsertAutoApplyRun): Promise<AutoApplyRun> {
+    const [run] = await db
+      .insert(autoApplyRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async getAutoApplyRun(userId: string, id: string): Promise<AutoApplyRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(autoApplyRuns)
+      .where(and(eq(autoApplyRuns.id, id), eq(autoApplyRuns.userId, userId)));
+    return run || undefined;
+  }
+
+  async getUserAutoApplyRuns(userId: string, limit = 10): Promise<AutoApplyRun[]> {
+    return await db
+      .select()
+      .from(autoApplyRuns)
+      .where(eq(autoApplyRuns.userId, userId))
+      .orderBy(desc(autoApplyRuns.createdAt))
+      .limit(limit);
+  }
+
+  async getActiveAutoApplyRun(userId: string): Promise<AutoApplyRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(autoApplyRuns)
+      .where(and(eq(autoApplyRuns.userId, userId), inArray(autoApplyRuns.status, ['queued', 'running'])))
+      .orderBy(desc(autoApplyRuns.createdAt))
+      .limit(1);
+    return run || undefined;
+  }
+
+  async claimAutoApplyRun(now: Date, lockedUntil: Date): Promise<AutoApplyRun | undefined> {
+    const claimable = and(
+      inArray(autoApplyRuns.status, ['queued', 'running']),
+      or(isNull(autoApplyRuns.nextAttemptAt), lte(autoApplyRuns.nextAttemptAt, now)),
+      or(isNull(autoApplyRuns.lockedUntil), lt(autoApplyRuns.lockedUntil, now)),
+    );
+
+    const [candidate] = await db
+      .select({ id: autoApplyRuns.id })
+      .from(autoApplyRuns)
+      .where(claimable)
+      .orderBy(asc(autoApplyRuns.createdAt))
+      .limit(1);
+    if (!candidate) return undefined;
+
+    // The conditions are repeated so a worker that lost the race gets nothing back
+    const [run] = await db
+      .update(autoApplyRuns)
+      .set({
+        status: 'running',
+        lockedUntil,
+        startedAt: sql`coalesce(${autoApplyRuns.startedAt}, ${now})`,
+      })
+      .where(and(eq(autoApplyRuns.id, candidate.id), claimable))
+      .returning();
+    return run || undefined;
+  }
+
+  async updateAutoApplyRun(id: string, updateData: Partial<InsertAutoApplyRun>): Promise<AutoApplyRun | undefined> {
+    const [run] = await db
+      .update(autoApplyRuns)
+      .set(updateData)
+      .where(eq(autoApplyRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  async incrementAutoApplyRunCounts(id: string, counts: { sent?: number; failed?: number; skipped?: number }): Promise<void> {
+    await db
+      .update(autoApplyRuns)
+      .set({
+        sentCount: sql`${autoApplyRuns.sentCount} + ${counts.sent ?? 0}`,
+        failedCount: sql`${autoApplyRuns.failedCount} + ${counts.failed ?? 0}`,
+        skippedCount: sql`${autoApplyRuns.skippedCount} + ${counts.skipped ?? 0}`,
+      })
+      .where(eq(autoApplyRuns.id, id));
+  }
+
+  // Only a running run can finish; one cancelled in the meantime stays cancelled
+  async finishAutoApplyRun(id: string, status: Extract<AutoApplyRunStatus, "completed" | "failed">, error?: string): Promise<AutoApplyRun | undefined> {
+    const [run] = await db
+      .update(autoApplyRuns)
+      .set({ status, error: error ?? null, finishedAt: new Date(), lockedUntil: null, nextAttemptAt: null })
+      .where(and(eq(autoApplyRuns.id, id), eq(autoApplyRuns.status, 'running')))
+      .returning();
+    return run || undefined;
+  }
+
+  async cancelAutoApplyRun(userId: string, id: string): Promise<AutoApplyRun | undefined> {
+    const [run] = await db
+      .update(autoApplyRuns)
+      .set({ status: 'canceled', finishedAt: new Date(), nextAttemptAt: null })
+      .where(and(
+        eq(autoApplyRuns.id, id),
+        eq(autoApplyRuns.userId, userId),
+        inArray(autoApplyRuns.status, ['queued', 'running']),
+      ))
+      .returning();
+    return run || undefined;
+  }
+
+  async createAutoApplyItems(insertItems: InsertAutoApplyItem[]): Promise<AutoApplyItem[]> {
+    if (insertItems.length === 0) return [];
+    return await db
+      .insert(autoApplyItems)
+      .values(insertItems)
+      .returning();
+  }
+
+  async getAutoApplyItems(runId: string): Promise<AutoApplyItem[]> {
+    return await db
+      .select()
+      .from(autoApplyItems)
+      .where(eq(autoApplyItems.runId, runId))
+      .orderBy(asc(autoApplyItems.createdAt));
+  }
+
+  // The next pending item that is not waiting out a retry delay
+  async getNextAutoApplyItem(runId: string, now: Date): Promise<AutoApplyItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(autoApplyItems)
+      .where(and(
+        eq(autoApplyItems.runId, runId),
+        eq(autoApplyItems.status, 'pending'),
+        or(isNull(autoApplyItems.nextAttemptAt), lte(autoApplyItems.nextAttemptAt, now)),
+      ))
+      // Best matches first, so a run that hits its limit has sent to those
+      .orderBy(sql`${autoApplyItems.matchScore} desc nulls last`, asc(autoApplyItems.createdAt))
+      .limit(1);
+    return item || undefined;
+  }
+
+  // When the earliest waiting retry is due; null when nothing is pending
+  async getNextAutoApplyRetryAt(runId: string): Promise<Date | null> {
+    const [row] = await db
+      .select({ pending: count(), nextAttemptAt: min(autoApplyItems.nextAttemptAt) })
+      .from(autoApplyItems)
+      .where(and(eq(autoApplyItems.runId, runId), eq(autoApplyItems.status, 'pending')));
+    if (!row || row.pending === 0) return null;
+    return row.nextAttemptAt ?? new Date();
+  }
+
+  async updateAutoApplyItem(id: string, updateData: Partial<InsertAutoApplyItem>): Promise<AutoApplyItem> {
+    const [item] = await db
+      .update(autoApplyItems)
+      .set(updateData)
+      .where(eq(autoApplyItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async closePendingAutoApplyItems(runId: string, status: "skipped" | "canceled"): Promise<AutoApplyItem[]> {
+    return await db
+      .update(autoApplyItems)
+      .set({
+        status,
+        skipReason: status === 'skipped' ? 'limit_reached' : null,
+        skipDetail: status === 'skipped' ? 'Run limit or application quota reached' : null,
+        nextAttemptAt: null,
+        completedAt: new Date(),
+      })
+      .where(and(eq(autoApplyItems.runId, runId), eq(autoApplyItems.status, 'pending')))
+      .returning();
+  }
+
+  // Application methods
+  async createApplication(insertApplication: InsertApplication, source: ApplicationEventSource): Promise<Application> {
+    return await db.transaction(async (tx) => {
+      const [application] = await tx
+        .insert(applications)
+        .values(insertApplication)
+        .returning();
+      await tx.insert(applicationEvents).values({
+        applicationId: application.id,
+        userId: application.userId,
+        fromStatus: null,
+        toStatus: application.status,
+        source,
+      });
+      return application;
+    });
+  }
+
+  async getUserApplications(userId: string, limit = 50): Promise<Application[]> {
+    const rows = await db
       .select()
       .from(applications)
       .where(eq(applications.userId, userId))
       .orderBy(desc(applications.appliedAt))
       .limit(limit);
+    return rows.map(withCurrentStatus);
   }
 
-  async getApplication(id: string): Promise<Application | undefined> {
-    const [application] = await db.select().from(applications).where(eq(applications.id, id));
-    return application || undefined;
+  async getApplicationsForJobs(userId: string, jobs: { company: string; title: string }[]): Promise<Application[]> {
+    if (jobs.length === 0) return [];
+    const rows = await db
+      .select()
+      .from(applications)
+      .where(and(
+        eq(applications.userId, userId),
+        or(...jobs.map(job => and(eq(applications.company, job.company), eq(applications.jobTitle, job.title)))),
+      ));
+    return rows.map(withCurrentStatus);
   }
 
-  async updateApplicationStatus(id: string, status: string, responseData?: any): Promise<Application> {
-    const updateData: any = { status };
-    if (responseData) {
-      updateData.responseData = responseData;
-      updateData.responseAt = new Date();
-    }
-    
+  async getApplication(userId: string, id: string): Promise<Application | undefined> {
     const [application] = await db
-      .update(applications)
-      .set(updateData)
-      .where(eq(applications.id, id))
-      .returning();
-    return application;
+      .select()
+      .from(applications)
+      .where(and(eq(applications.id, id), eq(applications.userId, userId)));
+    return application ? withCurrentStatus(application) : undefined;
+  }
+
+  async getApplicationByReplyToken(replyToken: string): Promise<Application | undefined> {
+    const [application] = await db.select().from(applications).where(eq(applications.replyToken, replyToken));
+    return application ? withCurrentStatus(application) : undefined;
+  }
+
+  async updateApplicationStatus(userId: string, id: string, change: ApplicationStatusChange): Promise<Application | undefined> {
+    return await db.transaction(async (tx) => {
+      // Conditional on the old status, so two changes cannot both apply
+      const [application] = await tx
+        .update(applications)
+        .set({
+          status: change.to,
+          ...(change.responseData ? { responseData: change.responseData, responseAt: new Date() } : {}),
+        })
+        .where(and(eq(applications.id, id), eq(applications.userId, userId), inArray(applications.status, storedApplicationStatuses(change.from) as ApplicationStatus[])))
+        .returning();
+      if (!application) return undefined;
+
+      await tx.insert(applicationEvents).values({
+        applicationId: id,
+        userId,
+        fromStatus: change.from,
+        toStatus: change.to,
+        source: change.source,
+        notes: change.notes ?? null,
+        data: change.data ?? null,
+      });
+      return withCurrentStatus(application);
+    });
   }
 
-  async getUserApplicationStats(userId: string): Promise<{
-    total: number;
-    sent: number;
-    pending: number;
-    responded: number;
-    failed: number;
-  }> {
-    const userApplications = await db
+  async getApplicationEvents(userId: string, applicationId: string): Promise<ApplicationEvent[]> {
+    return await db
       .select()
+      .from(applicationEvents)
+      .where(and(eq(applicationEvents.applicationId, applicationId), eq(applicationEvents.userId, userId)))
+      .orderBy(asc(applicationEvents.createdAt));
+  }
+
+  // Applications that count towards the plan quota; drafts and failed sends are not charged
+  async getApplicationUsage(userId: string, since: Date): Promise<{ count: number; oldest: Date | null }> {
+    const [usage] = await db
+      .select({ count: count(), oldest: min(applications.appliedAt) })
       .from(applications)
-      .where(eq(applications.userId, userId));
+      .where(and(
+        eq(applications.userId, userId),
+        gte(applications.appliedAt, since),
+        notInArray(applications.status, ['draft', 'failed']),
+      ));
+    return { count: usage?.count ?? 0, oldest: usage?.oldest ?? null };
+  }
 
-    const stats = {
-      total: userApplications.length,
-      sent: userApplications.filter(app => app.status === 'sent').length,
-      pending: userApplications.filter(app => app.status === 'pending').length,
-      responded: userApplications.filter(app => app.status === 'responded').length,
-      failed: userApplications.filter(app => app.status === 'failed').length,
-    };
+  async getUserApplicationStats(userId: string): Promise<ApplicationStats> {
+    const rows = await db
+      .select({ status: applications.status, count: count() })
+      .from(applications)
+      .where(eq(applications.userId, userId))
+      .groupBy(applications.status);
+    return summarizeApplicationStatuses(rows);
+  }
+
+  // Inbound mail methods
+  async getInboundMailbox(mailbox: string): Promise<InboundMailbox | undefined> {
+    const [state] = await db.select().from(inboundMailboxes).where(eq(inboundMailboxes.mailbox, mailbox));
+    return state || undefined;
+  }
 
-    return stats;
+  // A new UIDVALIDITY replaces the cursor; otherwise a slower poller cannot move it back
+  async saveInboundMailboxCursor(mailbox: string, uidValidity: string, lastUid: number): Promise<void> {
+    await db
+      .insert(inboundMailboxes)
+      .values({ mailbox, uidValidity, lastUid })
+      .onConflictDoUpdate({
+        target: inboundMailboxes.mailbox,
+        set: { uidValidity, lastUid, updatedAt: new Date() },
+        setWhere: or(ne(inboundMailboxes.uidValidity, uidValidity), lt(inboundMailboxes.lastUid, lastUid)),
+      });
   }
 }
 
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  applicationStatusLabels,
+  canTransition,
+  storedApplicationStatuses,
+  summarizeApplicationStatuses,
+  withCurrentStatus,
+} from "./applicationStatus";
+
+describe("legacy application statuses", () => {
+  it("reads pending as queued and responded as sent", () => {
+    expect(withCurrentStatus({ id: "a", status: "pending" })).toEqual({ id: "a", status: "queued" });
+    expect(withCurrentStatus({ id: "b", status: "responded" })).toEqual({ id: "b", status: "sent" });
+    expect(withCurrentStatus({ id: "c", status: "interview" })).toEqual({ id: "c", status: "interview" });
+  });
+
+  it("gives legacy applications a label and the moves of their current state", () => {
+    const { status } = withCurrentStatus({ status: "responded" });
+
+    expect(applicationStatusLabels[status]).toBe("Sent");
+    expect(canTransition(status, "interview")).toBe(true);
+    expect(canTransition(withCurrentStatus({ status: "pending" }).status, "sent")).toBe(true);
+  });
+
+  it("updates rows still stored with the legacy value", () => {
+    expect(storedApplicationStatuses("queued")).toEqual(["queued", "pending"]);
+    expect(storedApplicationStatuses("sent")).toEqual(["sent", "responded"]);
+    expect(storedApplicationStatuses("interview")).toEqual(["interview"]);
+  });
+});
+
+describe("summarizeApplicationStatuses", () => {
+  it("counts legacy rows under their current state", () => {
+    const stats = summarizeApplicationStatuses([
+      { status: "draft", count: 1 },
+      { status: "pending", count: 2 },
+      { status: "queued", count: 1 },
+      { status: "responded", count: 3 },
+      { status: "sent", count: 1 },
+      { status: "interview", count: 2 },
+      { status: "rejected", count: 2 },
+      { status: "failed", count: 1 },
+    ]);
+
+    expect(stats.byStatus).toEqual({
+      draft: 1,
+      queued: 3,
+      sent: 4,
+      viewed: 0,
+      interview: 2,
+      offer: 0,
+      rejected: 2,
+      withdrawn: 0,
+      failed: 1,
+    });
+    expect(stats).toMatchObject({
+      total: 12,
+      awaitingResponse: 7,
+      responded: 4,
+      positive: 2,
+      responseRate: 50,
+    });
+  });
+
+  it("has a response rate of 0 before anything reached an employer", () => {
+    expect(summarizeApplicationStatuses([{ status: "draft", count: 2 }])).toMatchObject({ total: 0, responseRate: 0 });
+  });
+});
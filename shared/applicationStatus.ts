@@ -0,0 +1,81 @@
+import { applicationStatuses, type ApplicationStatus } from "./schema";
+
+// The statuses an application can move to from each status. Rejected,
+// withdrawn and failed are final; withdrawing an offer means declining it.
+export const applicationTransitions: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  draft: ["sent", "withdrawn"],
+  queued: ["sent", "failed", "withdrawn"],
+  sent: ["viewed", "interview", "offer", "rejected", "withdrawn"],
+  viewed: ["interview", "offer", "rejected", "withdrawn"],
+  interview: ["offer", "rejected", "withdrawn"],
+  offer: ["rejected", "withdrawn"],
+  rejected: [],
+  withdrawn: [],
+  failed: [],
+};
+
+export const applicationStatusLabels: Record<ApplicationStatus, string> = {
+  draft: "Draft",
+  queued: "Queued",
+  sent: "Sent",
+  viewed: "Viewed",
+  interview: "Interview",
+  offer: "Offer",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  failed: "Failed",
+};
+
+// Applications saved before the full lifecycle can still hold the old
+// values; they are read as the states that replaced them
+const legacyApplicationStatuses: Record<string, ApplicationStatus> = {
+  pending: "queued",
+  responded: "sent",
+};
+
+export function normalizeApplicationStatus(status: string): ApplicationStatus {
+  return legacyApplicationStatuses[status] ?? status as ApplicationStatus;
+}
+
+/** The application as it reads today, whatever status value it was stored with */
+export function withCurrentStatus<T extends { status: string }>(application: T): T & { status: ApplicationStatus } {
+  return { ...application, status: normalizeApplicationStatus(application.status) };
+}
+
+/** Every stored value that reads as `status`, legacy values included */
+export function storedApplicationStatuses(status: ApplicationStatus): string[] {
+  return [status, ...Object.keys(legacyApplicationStatuses).filter(legacy => legacyApplicationStatuses[legacy] === status)];
+}
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return applicationTransitions[from].includes(to);
+}
+
+export interface ApplicationStats {
+  total: number; // Every application except drafts
+  byStatus: Record<ApplicationStatus, number>;
+  awaitingResponse: number; // Queued, sent or viewed
+  responded: number; // Interview, offer or rejected
+  positive: number; // Interview or offer
+  responseRate: number; // Percentage of applications that reached the employer and got an answer
+}
+
+/** Stats from the number of applications stored with each status */
+export function summarizeApplicationStatuses(counts: { status: string; count: number }[]): ApplicationStats {
+  const byStatus = Object.fromEntries(applicationStatuses.map(status => [status, 0])) as Record<ApplicationStatus, number>;
+  for (const { status, count } of counts) {
+    byStatus[normalizeApplicationStatus(status)] += count;
+  }
+  const sum = (statuses: ApplicationStatus[]) => statuses.reduce((total, status) => total + byStatus[status], 0);
+
+  const responded = sum(["interview", "offer", "rejected"]);
+  const reachedEmployer = sum(["sent", "viewed"]) + responded;
+  return {
+    total: sum(applicationStatuses.filter(status => status !== "draft")),
+    byStatus,
+    awaitingResponse: sum(["queued", "sent", "viewed"]),
+    responded,
+    positive: sum(["interview", "offer"]),
+    responseRate: reachedEmployer > 0 ? Math.round((responded / reachedEmployer) * 1000) / 10 : 0,
+  };
+}
@@ -0,0 +1,15 @@
+import type { AutoApplyRunStatus, JobSkipReason } from "./schema";
+import type { QuotaStatus } from "./plans";
+
+// Live auto-apply progress, streamed to the dashboard over Server-Sent Events
+// from GET /api/auto-apply/events. Each event is sent as one JSON "data:" line.
+export type AutoApplyEvent = { runId: string; at: string } & (
+  | { type: "run_status"; status: AutoApplyRunStatus; error?: string | null }
+  | { type: "jobs_found"; jobsFound: number; queued: number }
+  | { type: "job_skipped"; jobTitle: string; company: string; reason: JobSkipReason; detail?: string | null }
+  | { type: "application_sent"; applicationId: string; jobTitle: string; company: string }
+  | { type: "application_failed"; jobTitle: string; company: string; error: string; willRetry: boolean }
+  | { type: "quota"; quota: QuotaStatus }
+);
+
+export type AutoApplyEventType = AutoApplyEvent["type"];
@@ -0,0 +1,34 @@
+// Variables a cover letter template can use, with what each holds. Any of
+// them can be empty, so templates wrap optional parts in {{#if name}}...{{/if}}.
+export const coverLetterVariables = {
+  "applicant.name": "Your name",
+  "applicant.email": "Your email address",
+  "applicant.phone": "Your phone number",
+  "job.title": "Title of the job",
+  "job.company": "Company advertising the job",
+  "job.location": "Where the job is based",
+  "cv.currentTitle": "Your most recent job title",
+  "cv.currentEmployer": "Your most recent employer",
+  "cv.yearsExperience": "Years of experience, e.g. 6",
+  "cv.skills": "Your first few skills, e.g. \"React, TypeScript and SQL\"",
+  "cv.qualification": "Your most recent qualification",
+  "cv.summary": "The summary from your CV",
+  "match.topSkills": "Skills the job asks for that you have, e.g. \"React and TypeScript\"",
+  "match.score": "How well your CV fits the job, 0-100",
+} as const;
+
+export type CoverLetterVariable = keyof typeof coverLetterVariables;
+
+export const DEFAULT_COVER_LETTER_TEMPLATE = `Dear Hiring Manager,
+
+I am writing to apply for the {{job.title}} position at {{job.company}}.{{#if cv.currentTitle}} I currently work as {{cv.currentTitle}}{{#if cv.currentEmployer}} at {{cv.currentEmployer}}{{/if}}{{#if cv.yearsExperience}}, with {{cv.yearsExperience}} years of experience{{/if}}.{{/if}}
+
+{{#if match.topSkills}}The role calls for {{match.topSkills}}, all of which I work with regularly.{{else}}{{#if cv.skills}}My skills include {{cv.skills}}.{{/if}}{{/if}}
+
+{{#if cv.summary}}{{cv.summary}}{{/if}}
+
+Please find my CV attached. I would welcome the chance to discuss how I could contribute to {{job.company}}.
+
+Kind regards,
+{{applicant.name}}{{#if applicant.phone}}
+{{applicant.phone}}{{/if}}`;
@@ -0,0 +1,35 @@
+// CV file formats accepted for upload. The first MIME type of each format is
+// the canonical one stored on the CV record and used to pick a parser.
+export const cvFileFormats = [
+  { extension: ".pdf", label: "PDF", mimeTypes: ["application/pdf"] },
+  { extension: ".docx", label: "DOCX", mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"] },
+  { extension: ".doc", label: "DOC", mimeTypes: ["application/msword"] },
+  { extension: ".odt", label: "ODT", mimeTypes: ["application/vnd.oasis.opendocument.text"] },
+  { extension: ".rtf", label: "RTF", mimeTypes: ["application/rtf", "text/rtf", "application/x-rtf"] },
+  { extension: ".txt", label: "TXT", mimeTypes: ["text/plain"] },
+  { extension: ".md", label: "Markdown", mimeTypes: ["text/markdown", "text/x-markdown"] },
+] as const;
+
+// Browsers and mail clients often send these for files they do not recognise
+const GENERIC_MIME_TYPES = ["", "application/octet-stream", "text/plain", "application/x-download"];
+
+export const cvFileAccept = cvFileFormats.map(format => format.extension).join(",");
+
+/**
+ * Returns the canonical MIME type for an uploaded CV, or undefined if the file
+ * is not a supported format. The extension wins when the browser only gave a
+ * generic type (e.g. ".md" arrives as "text/plain" or "application/octet-stream").
+ */
+export function resolveCvMimeType(fileName: string, mimeType: string): string | undefined {
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  const byExtension = cvFileFormats.find(format => format.extension === extension);
+  const byMimeType = cvFileFormats.find(format => (format.mimeTypes as readonly string[]).includes(mimeType));
+
+  if (byExtension && (byMimeType === byExtension || !byMimeType || GENERIC_MIME_TYPES.includes(mimeType))) {
+    return byExtension.mimeTypes[0];
+  }
+  if (byMimeType && !byExtension) {
+    return byMimeType.mimeTypes[0];
+  }
+  return undefined;
+}
@@ -0,0 +1,36 @@
+import type { ParsedCVData, ParsedCVDataOverrides } from "./schema";
+
+// CVs parsed before summaries were extracted hold counts of what was found
+// instead, e.g. "CV contains 4 identified skills, ..."; that is not theirs
+const GENERATED_SUMMARY = /^CV contains \d+ identified skills, \d+ work experiences, and \d+ education entries\.$/;
+
+/**
+ * The CV profile as the user sees it: the raw extraction with any manual
+ * corrections laid over it, field by field.
+ */
+export function getEffectiveParsedData(cv: {
+  parsedData: ParsedCVData | null;
+  parsedDataOverrides?: ParsedCVDataOverrides | null;
+}): ParsedCVData {
+  const data: ParsedCVData = { ...(cv.parsedData ?? {}), ...(cv.parsedDataOverrides ?? {}) };
+  if (data.summary && GENERATED_SUMMARY.test(data.summary)) {
+    delete data.summary;
+  }
+  return data;
+}
+
+/** Applies a PATCH body to the stored overrides; a null value removes that override */
+export function applyParsedDataPatch(
+  current: ParsedCVDataOverrides,
+  patch: { [K in keyof ParsedCVDataOverrides]?: ParsedCVDataOverrides[K] | null },
+): ParsedCVDataOverrides {
+  const next: Record<string, unknown> = { ...current };
+  for (const [field, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete next[field];
+    } else if (value !== undefined) {
+      next[field] = value;
+    }
+  }
+  return next as ParsedCVDataOverrides;
+}
@@ -0,0 +1,23 @@
+// Variables an application email template can use. In the HTML body every
+// value is escaped, except the cover letter, which becomes paragraphs.
+export const emailTemplateVariables = {
+  jobTitle: "Title of the job",
+  company: "Company advertising the job",
+  jobLocation: "Where the job is based",
+  jobUrl: "Link to the job listing",
+  applicantName: "Your name",
+  applicantEmail: "Your email address",
+  applicantPhone: "Your phone number",
+  coverLetter: "Your cover letter, written for this job",
+  topSkills: "Skills the job asks for that you have",
+  matchScore: "How well your CV fits the job, 0-100",
+} as const;
+
+export type EmailTemplateVariable = keyof typeof emailTemplateVariables;
+
+// Used when neither the application nor its profile picks a template
+export const DEFAULT_EMAIL_TEMPLATE = {
+  subject: "Application for {{jobTitle}}{{#if applicantName}} - {{applicantName}}{{/if}}",
+  textBody: "{{coverLetter}}",
+  htmlBody: "{{coverLetter}}",
+};
@@ -0,0 +1,53 @@
+// Subscription plans, their ZAR pricing and application quotas. Quotas are
+// rolling windows: "week" counts applications sent in the last 7 days, "month"
+// the last 30. Paid plans are billed once per period, in cents.
+export const planIds = ["free", "starter", "professional", "enterprise"] as const;
+
+export type PlanId = typeof planIds[number];
+export type QuotaPeriod = "week" | "month";
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  applicationLimit: number;
+  period: QuotaPeriod;
+  priceCents: number;
+  currency: "ZAR";
+}
+
+export const plans: Record<PlanId, PlanDefinition> = {
+  free: { id: "free", name: "Free", applicationLimit: 5, period: "week", priceCents: 0, currency: "ZAR" },
+  starter: { id: "starter", name: "Starter", applicationLimit: 50, period: "week", priceCents: 5000, currency: "ZAR" },
+  professional: { id: "professional", name: "Professional", applicationLimit: 100, period: "week", priceCents: 10000, currency: "ZAR" },
+  enterprise: { id: "enterprise", name: "Enterprise", applicationLimit: 500, period: "month", priceCents: 35000, currency: "ZAR" },
+};
+
+export const quotaPeriodDays: Record<QuotaPeriod, number> = {
+  week: 7,
+  month: 30,
+};
+
+// Higher plans come later in planIds; moving up is an upgrade
+export function comparePlans(a: PlanId, b: PlanId): number {
+  return planIds.indexOf(a) - planIds.indexOf(b);
+}
+
+export function formatPrice(cents: number): string {
+  return `R${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`;
+}
+
+// Unknown plan names (e.g. a plan that was retired) get the free allowance
+export function getPlan(planId: string): PlanDefinition {
+  return plans[planId as PlanId] ?? plans.free;
+}
+
+export interface QuotaStatus {
+  plan: PlanId;
+  period: QuotaPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  windowStart: string;
+  // When the oldest counted application leaves the window; null while nothing is counted
+  nextSlotAt: string | null;
+}
@@ -1,7 +1,102 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { planIds } from "./plans";
+
+// Parsed CV data. Dates are ISO month strings ("2021-03"); a year-only date
+// becomes January for a start date and December for an end date.
+export const experienceEntrySchema = z.object({
+  title: z.string().optional(),
+  employer: z.string().optional(),
+  location: z.string().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+  current: z.boolean().optional(), // "Present", "Current", "to date"
+  bullets: z.array(z.string()).default([]),
+});
+
+export const educationEntrySchema = z.object({
+  degree: z.string().optional(),
+  institution: z.string().optional(),
+  graduationYear: z.number().int().optional(),
+});
+
+export const skillCategories = ["language", "framework", "database", "cloud", "tool", "domain", "methodology", "soft-skill"] as const;
+
+export const skillMatchSchema = z.object({
+  id: z.string(), // Canonical taxonomy id, e.g. "kubernetes"
+  name: z.string(),
+  category: z.enum(skillCategories),
+  occurrences: z.array(z.object({
+    text: z.string(), // Text as written in the CV, e.g. "k8s"
+    index: z.number().int(), // Character offset into the extracted CV text
+  })),
+});
+
+// Confidence in each extracted field, from 0 (guess) to 1 (certain)
+export const parseConfidenceSchema = z.object({
+  name: z.number().min(0).max(1).optional(),
+  email: z.number().min(0).max(1).optional(),
+  phone: z.number().min(0).max(1).optional(),
+  skills: z.number().min(0).max(1).optional(),
+  experience: z.number().min(0).max(1).optional(),
+  education: z.number().min(0).max(1).optional(),
+});
+
+export const parseStatuses = ["parsed", "partial", "failed"] as const;
+
+export const parseWarningSchema = z.object({
+  code: z.enum(["parse_failed", "little_text", "missing_field", "low_confidence"]),
+  field: z.string().optional(),
+  message: z.string(),
+});
+
+export const parsedCvDataSchema = z.object({
+  name: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  skills: z.array(z.string()).optional(),
+  skillMatches: z.array(skillMatchSchema).optional(),
+  experience: z.array(experienceEntrySchema).optional(),
+  education: z.array(educationEntrySchema).optional(),
+  totalYearsExperience: z.number().optional(),
+  summary: z.string().optional(),
+  confidence: parseConfidenceSchema.optional(),
+});
+
+// Fields a user may correct by hand. Overrides are stored apart from the raw
+// extraction, so re-parsing the file never discards them; null clears one.
+export const parsedCvDataOverridesSchema = z.object({
+  name: z.string().trim().min(1).nullable(),
+  email: z.string().trim().email().nullable(),
+  phone: z.string().trim().min(1).nullable(),
+  address: z.string().trim().min(1).nullable(),
+  skills: z.array(z.string().trim().min(1)).nullable(),
+  experience: z.array(experienceEntrySchema).nullable(),
+  education: z.array(educationEntrySchema).nullable(),
+  totalYearsExperience: z.number().min(0).max(80).nullable(),
+}).partial().strict();
+
+export const seniorityLevels = ["intern", "junior", "mid", "senior", "lead", "principal"] as const;
+
+// How well a CV fits a job, from the match scorer. Each component is 0-100,
+// or null when the job or CV gives nothing to compare.
+export interface MatchExplanation {
+  score: number;
+  components: {
+    skills: number | null;
+    keywords: number;
+    seniority: number | null;
+    education: number | null;
+  };
+  matchedSkills: string[];
+  missingSkills: string[];
+  jobSeniority: SeniorityLevel | null;
+  cvSeniority: SeniorityLevel | null;
+  reasons: string[];
+}
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,10 +104,39 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name"),
-  plan: text("plan").default("free").notNull(), // free, starter, professional, enterprise
+  plan: text("plan", { enum: planIds }).default("free").notNull(), // Changed only by billing
+  coverLetterTemplate: text("cover_letter_template"), // Null uses the built-in template
+  emailVerifiedAt: timestamp("email_verified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Single-use account tokens. Only a SHA-256 hash of the token is stored; the
+// token itself exists only in the link emailed to the user.
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Express sessions, managed by connect-pg-simple
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
 export const cvs = pgTable("cvs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -20,50 +144,352 @@ export const cvs = pgTable("cvs", {
   originalName: text("original_name").notNull(),
   fileSize: integer("file_size").notNull(),
   mimeType: text("mime_type").notNull(),
-  parsedData: jsonb("parsed_data"), // Extracted CV data
+  label: text("label"), // e.g. "Backend", "Management"
+  isDefault: boolean("is_default").default(false).notNull(), // Used when an application doesn't name a CV
+  parsedData: jsonb("parsed_data").$type<ParsedCVData>(), // Extracted CV data
+  parsedDataOverrides: jsonb("parsed_data_overrides").$type<ParsedCVDataOverrides>().default({}).notNull(), // Manual corrections
+  parseStatus: text("parse_status", { enum: parseStatuses }).default("parsed").notNull(),
+  parseWarnings: jsonb("parse_warnings").$type<ParseWarning[]>().default([]).notNull(),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
 });
 
+// Subject and body of application emails, written by the user
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body"), // Null sends plain text only
+  version: integer("version").default(1).notNull(), // Bumped on every edit; applications record the version used
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_email_templates_user_name").on(table.userId, table.name)]);
+
+export const remotePreferences = ["any", "remote", "onsite"] as const;
+export const employmentTypes = ["full-time", "part-time", "contract", "temporary", "internship"] as const;
+
+// A named search profile; a user can keep several (e.g. "Remote React", "Cape Town PM")
 export const jobPreferences = pgTable("job_preferences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").default("Default").notNull(),
   industries: jsonb("industries").$type<string[]>().default([]).notNull(),
   locations: jsonb("locations").$type<string[]>().default([]).notNull(),
   keywords: text("keywords"),
   salaryMin: integer("salary_min"),
   salaryMax: integer("salary_max"),
-  jobTypes: jsonb("job_types").$type<string[]>().default([]).notNull(), // full-time, part-time, contract, remote
+  jobTypes: jsonb("job_types").$type<string[]>().default([]).notNull(), // Employment types; any when empty
+  remotePreference: text("remote_preference", { enum: remotePreferences }).default("any").notNull(),
+  excludedCompanies: jsonb("excluded_companies").$type<string[]>().default([]).notNull(),
+  excludedKeywords: jsonb("excluded_keywords").$type<string[]>().default([]).notNull(), // Matched against title and description
+  minMatchScore: integer("min_match_score").default(0).notNull(), // Auto-apply skips jobs scoring below this
+  cvId: varchar("cv_id").references(() => cvs.id, { onDelete: "set null" }), // CV auto-apply attaches; default CV when unset
+  emailTemplateId: varchar("email_template_id").references(() => emailTemplates.id, { onDelete: "set null" }), // Built-in template when unset
+  createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [uniqueIndex("UQ_job_preferences_user_name").on(table.userId, table.name)]);
+
+// What a reply to an application says, as far as its wording tells
+export const replyClassifications = ["interview", "rejection", "auto_ack", "other"] as const;
+
+// A reply matched to an application, kept in its responseData
+export interface ApplicationReply {
+  classification: typeof replyClassifications[number];
+  from: string;
+  subject: string;
+  text: string; // Without the quoted original
+  messageId: string | null;
+  receivedAt: string;
+}
+
+// Where an application is in the hiring pipeline; allowed moves are in shared/applicationStatus.ts
+export const applicationStatuses = ["draft", "queued", "sent", "viewed", "interview", "offer", "rejected", "withdrawn", "failed"] as const;
+// The ones a user can set by hand; the rest follow from sending
+export const userApplicationStatuses = ["sent", "viewed", "interview", "offer", "rejected", "withdrawn"] as const;
+export const applicationEventSources = ["user", "auto_apply", "reply"] as const;
 
 export const applications = pgTable("applications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  cvId: varchar("cv_id").references(() => cvs.id, { onDelete: "set null" }), // CV that was sent
   jobTitle: text("job_title").notNull(),
   company: text("company").notNull(),
   jobDescription: text("job_description"),
   jobUrl: text("job_url"),
   applicationMethod: text("application_method").notNull(), // email, form, api
-  status: text("status").default("sent").notNull(), // sent, pending, responded, failed
+  status: text("status", { enum: applicationStatuses }).default("sent").notNull(),
   appliedVia: text("applied_via").notNull(), // adzuna, jooble, email, manual
   applicationData: jsonb("application_data"), // Store email details, form data, etc.
   responseData: jsonb("response_data"), // Store any responses received
+  matchScore: integer("match_score"), // 0-100 fit of the CV to the job; null when it could not be scored
+  matchExplanation: jsonb("match_explanation").$type<MatchExplanation>(),
+  emailTemplateId: varchar("email_template_id").references(() => emailTemplates.id, { onDelete: "set null" }), // Null for the built-in template
+  emailTemplateVersion: integer("email_template_version"),
+  replyToken: varchar("reply_token").unique(), // In the Message-ID and Reply-To of the sent email, to match replies
   appliedAt: timestamp("applied_at").defaultNow().notNull(),
   responseAt: timestamp("response_at"),
 });
 
+// Every status change of an application, and notes added along the way
+export const applicationEvents = pgTable("application_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status", { enum: applicationStatuses }), // Null for the application being created
+  toStatus: text("to_status", { enum: applicationStatuses }).notNull(), // Same as fromStatus for a note or a reply that changes nothing
+  source: text("source", { enum: applicationEventSources }).notNull(),
+  notes: text("notes"),
+  data: jsonb("data").$type<Record<string, unknown>>(), // e.g. the send error, or how a reply was classified
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_application_events_application").on(table.applicationId, table.createdAt)]);
+
+// How far the reply poller has read each IMAP mailbox. UIDs only count
+// within one UIDVALIDITY, so a new one starts the mailbox over.
+export const inboundMailboxes = pgTable("inbound_mailboxes", {
+  mailbox: text("mailbox").primaryKey(),
+  uidValidity: text("uid_validity").notNull(),
+  lastUid: integer("last_uid").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const subscriptionStatuses = ["incomplete", "active", "past_due", "canceled"] as const;
+export const invoiceStatuses = ["open", "paid", "failed", "void"] as const;
+// Why an invoice was raised: a new subscription, a mid-period plan change, or a renewal
+export const invoiceReasons = ["subscription_create", "subscription_update", "subscription_cycle"] as const;
+
+export interface InvoiceLineItem {
+  description: string;
+  amountCents: number; // Negative for credits
+}
+
+export const subscriptions = pgTable("subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  plan: text("plan", { enum: planIds }).notNull(),
+  status: text("status", { enum: subscriptionStatuses }).default("incomplete").notNull(),
+  provider: text("provider").notNull(),
+  currentPeriodStart: timestamp("current_period_start").notNull(),
+  currentPeriodEnd: timestamp("current_period_end").notNull(),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  pendingPlan: text("pending_plan", { enum: planIds }), // Downgrade that applies at the period end
+  graceUntil: timestamp("grace_until"), // Set while past_due; the plan is kept until then
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  subscriptionId: varchar("subscription_id").notNull().references(() => subscriptions.id, { onDelete: "cascade" }),
+  plan: text("plan", { enum: planIds }).notNull(), // Plan the invoice pays for
+  reason: text("reason", { enum: invoiceReasons }).notNull(),
+  status: text("status", { enum: invoiceStatuses }).default("open").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").default("ZAR").notNull(),
+  lineItems: jsonb("line_items").$type<InvoiceLineItem[]>().default([]).notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  providerPaymentId: text("provider_payment_id").unique(),
+  failureReason: text("failure_reason"),
+  attemptCount: integer("attempt_count").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+});
+
+export const campaignFrequencies = ["daily", "weekly"] as const;
+
+// A saved auto-apply schedule. timeOfDay is "HH:MM" wall-clock time in the
+// campaign's IANA timezone; weekly campaigns also run on dayOfWeek (0 = Sunday).
+export const campaigns = pgTable("campaigns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  jobPreferencesId: varchar("job_preferences_id").notNull().references(() => jobPreferences.id, { onDelete: "cascade" }),
+  cvId: varchar("cv_id").references(() => cvs.id, { onDelete: "set null" }), // Falls back to the profile's CV
+  frequency: text("frequency", { enum: campaignFrequencies }).notNull(),
+  dayOfWeek: integer("day_of_week"),
+  timeOfDay: text("time_of_day").notNull(),
+  timezone: text("timezone").notNull(),
+  maxApplicationsPerRun: integer("max_applications_per_run").notNull(),
+  paused: boolean("paused").default(false).notNull(),
+  nextRunAt: timestamp("next_run_at"), // Null while paused
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"), // Why the last scheduled run could not start
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [index("IDX_campaigns_next_run").on(table.nextRunAt)]);
+
+export const autoApplyRunStatuses = ["queued", "running", "completed", "failed", "canceled"] as const;
+export const autoApplyItemStatuses = ["pending", "sent", "failed", "skipped", "canceled"] as const;
+// Why a job found by a search was not applied to
+export const jobSkipReasons = [
+  "duplicate",
+  "no_contact_email",
+  "limit_reached",
+  "excluded_company",
+  "excluded_keyword",
+  "job_type",
+  "remote",
+  "industry",
+  "salary",
+  "low_match_score",
+] as const;
+
+// Profile rules a run filters search results with, copied when the run is queued
+export type JobFilters = Pick<JobPreferences, "industries" | "salaryMin" | "salaryMax" | "jobTypes" | "remotePreference" | "excludedCompanies" | "excludedKeywords" | "minMatchScore">;
+
+// Result of an auto-apply dry run (POST /api/jobs/auto-apply/preview)
+export interface AutoApplyPreview {
+  jobPreferencesId: string;
+  remaining: number; // Applications left in the plan quota
+  jobs: {
+    title: string;
+    company: string;
+    location: string | null;
+    url: string | null;
+    source: string;
+    willApply: boolean;
+    matchScore: number | null;
+    matchReasons: string[];
+    skipReason: JobSkipReason | null;
+    skipDetail: string | null;
+  }[];
+}
+
+// One auto-apply batch, processed in the background by the job queue
+export const autoApplyRuns = pgTable("auto_apply_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  cvId: varchar("cv_id").references(() => cvs.id, { onDelete: "set null" }),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }), // Null for manual runs
+  jobPreferencesId: varchar("job_preferences_id").references(() => jobPreferences.id, { onDelete: "set null" }),
+  status: text("status", { enum: autoApplyRunStatuses }).default("queued").notNull(),
+  // Search criteria copied from the profile when the run was queued
+  keywords: text("keywords").default("").notNull(),
+  locations: jsonb("locations").$type<string[]>().default([]).notNull(),
+  filters: jsonb("filters").$type<JobFilters>(), // Null for runs queued before filtering existed
+  emailTemplateId: varchar("email_template_id").references(() => emailTemplates.id, { onDelete: "set null" }),
+  maxApplications: integer("max_applications").notNull(),
+  jobsFound: integer("jobs_found"), // Null until the search has run
+  sentCount: integer("sent_count").default(0).notNull(),
+  failedCount: integer("failed_count").default(0).notNull(),
+  skippedCount: integer("skipped_count").default(0).notNull(),
+  attemptCount: integer("attempt_count").default(0).notNull(), // Job search attempts
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // Not picked up again before this
+  lockedUntil: timestamp("locked_until"), // Lease held by the worker processing the run
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_auto_apply_runs_status").on(table.status),
+  index("IDX_auto_apply_runs_campaign").on(table.campaignId),
+  // A user has at most one queued or running run, scheduled or manual
+  uniqueIndex("UQ_auto_apply_runs_active_user").on(table.userId).where(sql`${table.status} in ('queued', 'running')`),
+]);
+
+// A job found by a run and the outcome of applying to it
+export const autoApplyItems = pgTable("auto_apply_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull().references(() => autoApplyRuns.id, { onDelete: "cascade" }),
+  applicationId: varchar("application_id").references(() => applications.id, { onDelete: "set null" }),
+  status: text("status", { enum: autoApplyItemStatuses }).default("pending").notNull(),
+  jobTitle: text("job_title").notNull(),
+  company: text("company").notNull(),
+  jobDescription: text("job_description"),
+  jobUrl: text("job_url"),
+  jobLocation: text("job_location"),
+  contactEmail: text("contact_email"),
+  source: text("source").notNull(),
+  attemptCount: integer("attempt_count").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  error: text("error"),
+  skipReason: text("skip_reason", { enum: jobSkipReasons }),
+  skipDetail: text("skip_detail"), // e.g. which excluded keyword matched
+  matchScore: integer("match_score"),
+  matchExplanation: jsonb("match_explanation").$type<MatchExplanation>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [index("IDX_auto_apply_items_run").on(table.runId)]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   cvs: many(cvs),
+  emailVerificationTokens: many(emailVerificationTokens),
+  passwordResetTokens: many(passwordResetTokens),
   jobPreferences: many(jobPreferences),
   applications: many(applications),
+  subscriptions: many(subscriptions),
+  invoices: many(invoices),
+  autoApplyRuns: many(autoApplyRuns),
+  campaigns: many(campaigns),
+  emailTemplates: many(emailTemplates),
+}));
+
+export const emailTemplatesRelations = relations(emailTemplates, ({ one }) => ({
+  user: one(users, {
+    fields: [emailTemplates.userId],
+    references: [users.id],
+  }),
+}));
+
+export const campaignsRelations = relations(campaigns, ({ one, many }) => ({
+  user: one(users, {
+    fields: [campaigns.userId],
+    references: [users.id],
+  }),
+  jobPreferences: one(jobPreferences, {
+    fields: [campaigns.jobPreferencesId],
+    references: [jobPreferences.id],
+  }),
+  cv: one(cvs, {
+    fields: [campaigns.cvId],
+    references: [cvs.id],
+  }),
+  runs: many(autoApplyRuns),
+}));
+
+export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [subscriptions.userId],
+    references: [users.id],
+  }),
+  invoices: many(invoices),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  user: one(users, {
+    fields: [invoices.userId],
+    references: [users.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [invoices.subscriptionId],
+    references: [subscriptions.id],
+  }),
+}));
+
+export const emailVerificationTokensRelations = relations(emailVerificationTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [emailVerificationTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
 }));
 
-export const cvsRelations = relations(cvs, ({ one }) => ({
+export const cvsRelations = relations(cvs, ({ one, many }) => ({
   user: one(users, {
     fields: [cvs.userId],
     references: [users.id],
   }),
+  applications: many(applications),
 }));
 
 export const jobPreferencesRelations = relations(jobPreferences, ({ one }) => ({
@@ -71,17 +497,166 @@ export const jobPreferencesRelations = relations(jobPreferences, ({ one }) => ({
     fields: [jobPreferences.userId],
     references: [users.id],
   }),
+  cv: one(cvs, {
+    fields: [jobPreferences.cvId],
+    references: [cvs.id],
+  }),
+  emailTemplate: one(emailTemplates, {
+    fields: [jobPreferences.emailTemplateId],
+    references: [emailTemplates.id],
+  }),
 }));
 
-export const applicationsRelations = relations(applications, ({ one }) => ({
+export const applicationsRelations = relations(applications, ({ one, many }) => ({
   user: one(users, {
     fields: [applications.userId],
     references: [users.id],
   }),
+  cv: one(cvs, {
+    fields: [applications.cvId],
+    references: [cvs.id],
+  }),
+  events: many(applicationEvents),
+}));
+
+export const applicationEventsRelations = relations(applicationEvents, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationEvents.applicationId],
+    references: [applications.id],
+  }),
+}));
+
+export const autoApplyRunsRelations = relations(autoApplyRuns, ({ one, many }) => ({
+  user: one(users, {
+    fields: [autoApplyRuns.userId],
+    references: [users.id],
+  }),
+  cv: one(cvs, {
+    fields: [autoApplyRuns.cvId],
+    references: [cvs.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [autoApplyRuns.campaignId],
+    references: [campaigns.id],
+  }),
+  items: many(autoApplyItems),
+}));
+
+export const autoApplyItemsRelations = relations(autoApplyItems, ({ one }) => ({
+  run: one(autoApplyRuns, {
+    fields: [autoApplyItems.runId],
+    references: [autoApplyRuns.id],
+  }),
+  application: one(applications, {
+    fields: [autoApplyItems.applicationId],
+    references: [applications.id],
+  }),
 }));
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+});
+
+// Sign-up sets only the account's own details; the plan changes through
+// billing and the other columns through their own routes
+export const registerUserSchema = insertUserSchema.pick({
+  email: true,
+  username: true,
+  name: true,
+  password: true,
+}).extend({
+  email: z.string().email("Please enter a valid email address"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1),
+  password: registerUserSchema.shape.password,
+});
+
+export const emailVerificationConfirmSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const changePlanSchema = z.object({
+  plan: z.enum(planIds),
+});
+
+export const coverLetterTemplateSchema = z.object({
+  template: z.string().trim().min(1, "Template is empty").max(10000).nullable(), // Null restores the default
+});
+
+export const coverLetterPreviewSchema = z.object({
+  template: z.string().max(10000).optional(), // Unsaved edits; the saved template when omitted
+  cvId: z.string().min(1).optional(),
+  job: z.object({
+    title: z.string().trim().min(1),
+    company: z.string().trim().min(1),
+    location: z.string().optional(),
+    description: z.string().optional(),
+  }).optional(),
+});
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What a user can set on a campaign; the schedule fields are checked together
+export const campaignInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  jobPreferencesId: z.string().min(1),
+  cvId: z.string().min(1).nullable().optional(),
+  frequency: z.enum(campaignFrequencies),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  timeOfDay: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM"),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
+  maxApplicationsPerRun: z.number().int().min(1, "Maximum must be at least 1"),
+  paused: z.boolean().optional(),
+}).refine(campaign => campaign.frequency !== "weekly" || campaign.dayOfWeek != null, {
+  message: "Weekly campaigns need a day of the week",
+  path: ["dayOfWeek"],
+});
+
+export const insertAutoApplyRunSchema = createInsertSchema(autoApplyRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAutoApplyItemSchema = createInsertSchema(autoApplyItems).omit({
   id: true,
   createdAt: true,
 });
@@ -93,7 +668,26 @@ export const insertCvSchema = createInsertSchema(cvs).omit({
 
 export const insertJobPreferencesSchema = createInsertSchema(jobPreferences).omit({
   id: true,
+  createdAt: true,
   updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Profile name is required").max(100),
+  jobTypes: z.array(z.enum(employmentTypes)).optional(),
+  excludedCompanies: z.array(z.string().trim().min(1)).optional(),
+  excludedKeywords: z.array(z.string().trim().min(1)).optional(),
+  minMatchScore: z.number().int().min(0).max(100).optional(),
+});
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  subject: z.string().trim().min(1, "Subject is required").max(300),
+  textBody: z.string().trim().min(1, "Plain-text body is required").max(20000),
+  htmlBody: z.string().trim().max(50000).nullable().optional(),
 });
 
 export const insertApplicationSchema = createInsertSchema(applications).omit({
@@ -102,12 +696,59 @@ export const insertApplicationSchema = createInsertSchema(applications).omit({
   responseAt: true,
 });
 
+export const applicationStatusUpdateSchema = z.object({
+  status: z.enum(userApplicationStatuses),
+  notes: z.string().trim().max(2000).optional(),
+});
+
 // Types
+export type ExperienceEntry = z.infer<typeof experienceEntrySchema>;
+export type EducationEntry = z.infer<typeof educationEntrySchema>;
+export type SkillCategory = typeof skillCategories[number];
+export type SkillMatch = z.infer<typeof skillMatchSchema>;
+export type ParseConfidence = z.infer<typeof parseConfidenceSchema>;
+export type ParseStatus = typeof parseStatuses[number];
+export type ParseWarning = z.infer<typeof parseWarningSchema>;
+export type ParsedCVData = z.infer<typeof parsedCvDataSchema>;
+export type ParsedCVDataOverrides = Partial<Pick<ParsedCVData, "name" | "email" | "phone" | "address" | "skills" | "experience" | "education" | "totalYearsExperience">>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type PublicUser = Pick<User, "id" | "email" | "username" | "name" | "plan"> & { emailVerified: boolean };
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type SubscriptionStatus = typeof subscriptionStatuses[number];
+export type InvoiceStatus = typeof invoiceStatuses[number];
+export type InvoiceReason = typeof invoiceReasons[number];
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type CampaignFrequency = typeof campaignFrequencies[number];
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type CampaignInput = z.infer<typeof campaignInputSchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+export type AutoApplyRunStatus = typeof autoApplyRunStatuses[number];
+export type AutoApplyItemStatus = typeof autoApplyItemStatuses[number];
+export type ReplyClassification = typeof replyClassifications[number];
+export type ApplicationStatus = typeof applicationStatuses[number];
+export type ApplicationEventSource = typeof applicationEventSources[number];
+export type ApplicationEvent = typeof applicationEvents.$inferSelect;
+export type ApplicationStatusUpdate = z.infer<typeof applicationStatusUpdateSchema>;
+export type InboundMailbox = typeof inboundMailboxes.$inferSelect;
+export type JobSkipReason = typeof jobSkipReasons[number];
+export type RemotePreference = typeof remotePreferences[number];
+export type EmploymentType = typeof employmentTypes[number];
+export type SeniorityLevel = typeof seniorityLevels[number];
+export type InsertAutoApplyRun = z.infer<typeof insertAutoApplyRunSchema>;
+export type AutoApplyRun = typeof autoApplyRuns.$inferSelect;
+export type InsertAutoApplyItem = z.infer<typeof insertAutoApplyItemSchema>;
+export type AutoApplyItem = typeof autoApplyItems.$inferSelect;
 export type InsertCv = z.infer<typeof insertCvSchema>;
 export type Cv = typeof cvs.$inferSelect;
 export type InsertJobPreferences = z.infer<typeof insertJobPreferencesSchema>;
 export type JobPreferences = typeof jobPreferences.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
 export type Application = typeof applications.$inferSelect;